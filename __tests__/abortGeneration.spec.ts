@@ -0,0 +1,133 @@
+import { describe, expect, test, afterEach, jest } from "@jest/globals";
+import { ReadableStream } from "stream/web";
+import { TextDecoder, TextEncoder } from "util";
+import { abortLlamaCppGeneration, getLlamaCppChatResponseStream } from "../src/features/chat/llamaCppChat";
+import { abortKoboldAiGeneration, getKoboldAiChatResponseStream } from "../src/features/chat/koboldAiChat";
+
+Object.assign(global, { ReadableStream, TextDecoder, TextEncoder });
+
+// a generation which sends the given events and keeps going until aborted
+function generatingBody(events: string[]) {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      events.forEach((event) => controller.enqueue(encoder.encode(event)));
+    },
+  });
+}
+
+// answers each request with the first route its url ends with
+function mockServer(routes: { [path: string]: (init: any) => any }) {
+  const fetchMock = jest.fn(async (url: string, init: any) => {
+    const path = Object.keys(routes).find((path) => url.endsWith(path));
+    if (! path) {
+      throw new Error(`unexpected request ${url}`);
+    }
+    return routes[path](init);
+  });
+  global.fetch = fetchMock as any;
+  return fetchMock;
+}
+
+function requestsTo(fetchMock: ReturnType<typeof mockServer>, path: string) {
+  return fetchMock.mock.calls.filter(([url]) => url.endsWith(path));
+}
+
+function json(body: any, status = 200) {
+  return { status, ok: status === 200, json: async () => body };
+}
+
+describe("Generation Abort Tests", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+    localStorage.clear();
+  });
+
+  test("should poll llama.cpp slots until the generating slot is idle", async () => {
+    const slots = [
+      [{ id: 0, is_processing: false }, { id: 1, is_processing: true }],
+      [{ id: 0, is_processing: true }, { id: 1, is_processing: false }],
+    ];
+    const fetchMock = mockServer({
+      "/completion": () => ({ status: 200, body: generatingBody([`data: {"content":"Hi","id_slot":1}\n\n`]) }),
+      "/slots": () => json(slots.shift() ?? []),
+    });
+
+    const stream = await getLlamaCppChatResponseStream([{ role: "user", content: "Hello" }]);
+    const reader = stream.getReader();
+    // the slot is known once the first chunk arrived
+    expect((await reader.read()).value).toBe("Hi");
+
+    await abortLlamaCppGeneration();
+    // slot 0 busy with another request does not matter
+    expect(requestsTo(fetchMock, "/slots").length).toBe(2);
+    await reader.cancel();
+  });
+
+  test("should fail when the llama.cpp slot does not become idle", async () => {
+    jest.useFakeTimers();
+    mockServer({
+      "/completion": () => ({ status: 200, body: generatingBody([`data: {"content":"Hi","id_slot":0}\n\n`]) }),
+      "/slots": () => json([{ id: 0, is_processing: true }]),
+    });
+
+    const stream = await getLlamaCppChatResponseStream([{ role: "user", content: "Hello" }]);
+    const reader = stream.getReader();
+    await reader.read();
+
+    const aborted = abortLlamaCppGeneration();
+    const failed = expect(aborted).rejects.toThrow("did not stop within 3000ms");
+    await jest.advanceTimersByTimeAsync(3100);
+    await failed;
+    await reader.cancel();
+  });
+
+  test("should not poll llama.cpp slots without a generation", async () => {
+    const fetchMock = mockServer({});
+    await abortLlamaCppGeneration();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test("should abort the koboldcpp generation by its genkey", async () => {
+    localStorage.setItem("chatvrm_koboldai_use_extra", "true");
+    const perf = [{ idle: 0 }, { idle: 1 }];
+    const fetchMock = mockServer({
+      "/api/extra/generate/stream": () => ({ status: 200, body: generatingBody([`data: {"token":"Hi"}\n\n`]) }),
+      "/api/extra/abort": () => json({ success: "true" }),
+      "/api/extra/perf": () => json(perf.shift()),
+    });
+
+    const stream = await getKoboldAiChatResponseStream([{ role: "user", content: "Hello" }]);
+    const reader = stream.getReader();
+    await reader.read();
+
+    await abortKoboldAiGeneration();
+    const [[, generateInit]] = requestsTo(fetchMock, "/api/extra/generate/stream");
+    const [[, abortInit]] = requestsTo(fetchMock, "/api/extra/abort");
+    const { genkey } = JSON.parse(generateInit.body);
+    expect(genkey).toMatch(/^KCPP\d{4}$/);
+    expect(JSON.parse(abortInit.body)).toStrictEqual({ genkey });
+    expect(requestsTo(fetchMock, "/api/extra/perf").length).toBe(2);
+
+    // the generation is no longer current, there is nothing left to abort
+    await abortKoboldAiGeneration();
+    expect(requestsTo(fetchMock, "/api/extra/abort").length).toBe(1);
+    await reader.cancel();
+  });
+
+  test("should not wait for koboldai servers which can not abort", async () => {
+    localStorage.setItem("chatvrm_koboldai_use_extra", "true");
+    const fetchMock = mockServer({
+      "/api/extra/generate/stream": () => ({ status: 200, body: generatingBody([`data: {"token":"Hi"}\n\n`]) }),
+      "/api/extra/abort": () => json({}, 404),
+    });
+
+    const stream = await getKoboldAiChatResponseStream([{ role: "user", content: "Hello" }]);
+    const reader = stream.getReader();
+    await reader.read();
+
+    await abortKoboldAiGeneration();
+    expect(requestsTo(fetchMock, "/api/extra/perf").length).toBe(0);
+    await reader.cancel();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, test, afterEach } from "@jest/globals";
+import { audioCacheKey } from "../src/features/tts/audioCache";
+
+describe("Audio Cache Key Tests", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  test("should ignore differences in whitespace only", () => {
+    localStorage.setItem("chatvrm_tts_backend", "openai_tts");
+
+    expect(audioCacheKey({ style: "talk", message: " Hello  there " }))
+      .toBe(audioCacheKey({ style: "talk", message: "Hello there" }));
+    expect(audioCacheKey({ style: "talk", message: "Hello" }))
+      .not.toBe(audioCacheKey({ style: "happy", message: "Hello" }));
+  });
+
+  test("should change with the backend, voice and enabled voice conversion", () => {
+    localStorage.setItem("chatvrm_tts_backend", "openai_tts");
+    const talk = { style: "talk" as const, message: "Hello" };
+    const key = audioCacheKey(talk);
+
+    localStorage.setItem("chatvrm_openai_tts_apikey", "other key");
+    expect(audioCacheKey(talk)).toBe(key);
+    localStorage.setItem("chatvrm_rvc_model_name", "other model");
+    expect(audioCacheKey(talk)).toBe(key);
+
+    localStorage.setItem("chatvrm_rvc_enabled", "true");
+    const rvcKey = audioCacheKey(talk);
+    expect(rvcKey).not.toBe(key);
+    localStorage.setItem("chatvrm_rvc_model_name", "another model");
+    expect(audioCacheKey(talk)).not.toBe(rvcKey);
+
+    localStorage.setItem("chatvrm_rvc_enabled", "false");
+    localStorage.setItem("chatvrm_openai_tts_voice", "shimmer");
+    expect(audioCacheKey(talk)).not.toBe(key);
+    localStorage.setItem("chatvrm_tts_backend", "piper");
+    expect(audioCacheKey(talk)).not.toBe(key);
+  });
+});
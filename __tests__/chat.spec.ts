@@ -0,0 +1,225 @@
+import { describe, expect, test, afterEach, beforeAll, jest } from "@jest/globals";
+import { ReadableStream } from "stream/web";
+import type { Chat as ChatClass } from "../src/features/chat/chat";
+import { registerChatBackend } from "../src/features/chat/chatBackend";
+import { registerTool } from "../src/features/functionCalling/tools";
+import { Talk, textsToScreenplay } from "../src/features/chat/messages";
+
+// three's loaders are ES modules, which jest does not load
+jest.mock("../src/lib/VRMAnimation/loadVRMAnimation", () => ({ loadVRMAnimation: async () => null }));
+
+// imported once the mock is in place
+let Chat: typeof ChatClass;
+
+Object.assign(global, { ReadableStream });
+
+function textStream(chunks: string[]): any {
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+}
+
+function createChat() {
+  const chat = new Chat();
+  const noop = () => {};
+  Object.assign(chat, {
+    setChatLog: noop,
+    setUserMessage: noop,
+    setAssistantMessage: noop,
+    setShownMessage: noop,
+    setChatProcessing: noop,
+    setChatSpeaking: noop,
+    setSummary: noop,
+    setStreamingReply: noop,
+  });
+  return chat;
+}
+
+// audio which is synthesized once the test resolves it
+function deferredAudio() {
+  let resolve!: (audio: ArrayBuffer) => void;
+  const audio = new Promise<ArrayBuffer>((res) => { resolve = res; });
+  return { audio, resolve: () => resolve(new ArrayBuffer(8)) };
+}
+
+describe("Chat Tests", () => {
+  beforeAll(async () => {
+    ({ Chat } = await import("../src/features/chat/chat"));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    localStorage.clear();
+  });
+
+  test("should speak and remember the text said before a tool call", async () => {
+    registerTool({
+      name: "test_weather",
+      description: "Weather",
+      parameters: { type: "object", properties: {} },
+      execute: async () => "sunny",
+    });
+    let round = 0;
+    registerChatBackend({
+      id: "test_tools",
+      label: "Tools",
+      configKeys: [],
+      capabilities: { tools: true },
+      streamChat: async (_messages, options) => {
+        round++;
+        if (round === 1) {
+          options?.onToolCalls?.([{ id: "call_1", name: "test_weather", arguments: "{}" }]);
+          return textStream(["[happy] Let me check. "]);
+        }
+        return textStream(["[happy] It is sunny."]);
+      },
+    });
+    localStorage.setItem("chatvrm_chatbot_backend", "test_tools");
+
+    const chat = createChat();
+    await chat.receiveMessageFromUser("How is the weather?", false);
+
+    const spoken: string[] = [];
+    chat.ttsJobs.forEach((job) => {
+      expect(job.streamIdx).toBe(chat.currentStreamIdx);
+      spoken.push(job.screenplay.talk.message.trim());
+    });
+    expect(spoken).toStrictEqual(["Let me check.", "It is sunny."]);
+
+    expect(chat.messageList.map(({ role, content, tool_calls, tool_call_id }) => ({ role, content, tool_calls, tool_call_id }))).toStrictEqual([
+      { role: "user", content: "[neutral] How is the weather?", tool_calls: undefined, tool_call_id: undefined },
+      { role: "assistant", content: "", tool_calls: [{ id: "call_1", name: "test_weather", arguments: "{}" }], tool_call_id: undefined },
+      { role: "tool", content: "sunny", tool_calls: undefined, tool_call_id: "call_1" },
+    ]);
+  });
+
+  test("should wait for the backend to stop generating on interrupt", async () => {
+    let stopped!: () => void;
+    const abort = jest.fn(() => new Promise<void>((resolve) => { stopped = resolve; }));
+    let streaming!: () => void;
+    const started = new Promise<void>((resolve) => { streaming = resolve; });
+    registerChatBackend({
+      id: "test_abort",
+      label: "Abort",
+      configKeys: [],
+      abort,
+      // keeps generating until the request is aborted
+      streamChat: async (_messages, options) => new ReadableStream({
+        start(controller) {
+          controller.enqueue("[happy] Once upon a time");
+          options?.signal?.addEventListener("abort", () => controller.close());
+          streaming();
+        },
+      }) as any,
+    });
+    localStorage.setItem("chatvrm_chatbot_backend", "test_abort");
+
+    const chat = createChat();
+    const received = chat.receiveMessageFromUser("Tell me a story", false);
+    await started;
+
+    let interrupted = false;
+    const interrupt = chat.interrupt().then(() => { interrupted = true; });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(abort).toHaveBeenCalledTimes(1);
+    expect(interrupted).toBe(false);
+
+    stopped();
+    await interrupt;
+    expect(interrupted).toBe(true);
+    await received;
+  });
+
+  test("should speak synthesized sentences in order and drop stale ones", async () => {
+    jest.useFakeTimers();
+    localStorage.setItem("chatvrm_tts_backend", "none");
+    localStorage.setItem("chatvrm_tts_concurrency", JSON.stringify({ none: 3 }));
+
+    const chat = createChat();
+    const synthesizing: { [message: string]: ReturnType<typeof deferredAudio> } = {};
+    Object.assign(chat, {
+      fetchAudio: (talk: Talk) => {
+        synthesizing[talk.message] = deferredAudio();
+        return synthesizing[talk.message].audio;
+      },
+    });
+    const enqueue = (text: string, streamIdx = chat.currentStreamIdx) => {
+      chat.ttsJobs.enqueue({ screenplay: textsToScreenplay([text])[0], streamIdx });
+    };
+    const spoken = () => {
+      const messages: string[] = [];
+      for (let speak = chat.speakJobs.dequeue(); speak; speak = chat.speakJobs.dequeue()) {
+        expect(speak.audio).not.toBeNull();
+        messages.push(speak.screenplay.talk.message);
+      }
+      return messages;
+    };
+
+    enqueue("One.");
+    enqueue("Two.");
+    enqueue("Three.");
+    enqueue("Four.");
+    chat.processTtsJobs();
+    await jest.advanceTimersByTimeAsync(0);
+    // three at the same time, the fourth waits for one of them
+    expect(Object.keys(synthesizing)).toStrictEqual(["One.", "Two.", "Three."]);
+
+    synthesizing["Three."].resolve();
+    synthesizing["Two."].resolve();
+    await jest.advanceTimersByTimeAsync(100);
+    expect(spoken()).toStrictEqual([]);
+
+    synthesizing["One."].resolve();
+    await jest.advanceTimersByTimeAsync(100);
+    expect(spoken()).toStrictEqual(["One.", "Two.", "Three."]);
+    expect(Object.keys(synthesizing)).toContain("Four.");
+
+    // the reply is interrupted while the fourth is synthesized
+    chat.currentStreamIdx++;
+    enqueue("Five.", chat.currentStreamIdx - 1);
+    enqueue("Six.");
+    await jest.advanceTimersByTimeAsync(100);
+    synthesizing["Four."].resolve();
+    synthesizing["Six."].resolve();
+    await jest.advanceTimersByTimeAsync(100);
+    expect(Object.keys(synthesizing)).not.toContain("Five.");
+    expect(spoken()).toStrictEqual(["Six."]);
+  });
+
+  test("should keep speaking after a sentence fails to synthesize", async () => {
+    jest.useFakeTimers();
+    localStorage.setItem("chatvrm_tts_backend", "none");
+
+    const chat = createChat();
+    Object.assign(chat, {
+      fetchAudio: async (talk: Talk) => {
+        if (talk.message === "One.") {
+          throw new Error("cannot synthesize");
+        }
+        return new ArrayBuffer(8);
+      },
+    });
+    chat.ttsJobs.enqueue({ screenplay: textsToScreenplay(["One."])[0], streamIdx: chat.currentStreamIdx });
+    chat.ttsJobs.enqueue({ screenplay: textsToScreenplay(["Two."])[0], streamIdx: chat.currentStreamIdx });
+    chat.processTtsJobs();
+    await jest.advanceTimersByTimeAsync(200);
+
+    expect(chat.speakJobs.dequeue()?.audio).toBeNull();
+    expect(chat.speakJobs.dequeue()?.screenplay.talk.message).toBe("Two.");
+  });
+
+  test("should barge in between the lines of a reply", async () => {
+    const chat = createChat();
+    await chat.bargeIn();
+    expect(chat.currentStreamIdx).toBe(0);
+
+    // nothing is playing, the next line is still to be synthesized
+    chat.ttsJobs.enqueue({ screenplay: textsToScreenplay(["Two."])[0], streamIdx: chat.currentStreamIdx });
+    await chat.bargeIn();
+    expect(chat.currentStreamIdx).toBe(1);
+    expect(chat.ttsJobs.size()).toBe(0);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, test, beforeEach, afterEach, jest } from "@jest/globals";
+import { ReadableStream } from "stream/web";
+import { TextDecoder, TextEncoder } from "util";
+import { getChatResponse, registerChatBackend } from "../src/features/chat/chatBackend";
+
+Object.assign(global, { ReadableStream, TextDecoder, TextEncoder });
+
+function textStream(chunks: string[], delayMs = 0): any {
+  return new ReadableStream({
+    async start(controller) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      for (const chunk of chunks) {
+        controller.enqueue(chunk);
+      }
+      controller.close();
+    },
+  });
+}
+
+async function readAll(stream: any) {
+  const reader = stream.getReader();
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += value;
+  }
+  return text;
+}
+
+describe("Chat Backend Failover Tests", () => {
+  beforeEach(() => {
+    registerChatBackend({
+      id: "test_down",
+      label: "Down",
+      configKeys: [],
+      streamChat: async () => { throw new Error("connection refused"); },
+    });
+    registerChatBackend({
+      id: "test_slow",
+      label: "Slow",
+      configKeys: [],
+      streamChat: async () => textStream(["late"], 200),
+    });
+    registerChatBackend({
+      id: "test_up",
+      label: "Up",
+      configKeys: [],
+      streamChat: async () => textStream(["Hello", " world"]),
+    });
+    localStorage.setItem("chatvrm_chatbot_first_token_timeout", "50");
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  test("should use the configured backend when it answers", async () => {
+    localStorage.setItem("chatvrm_chatbot_backend", "test_up");
+    localStorage.setItem("chatvrm_chatbot_fallback_backends", "test_down");
+    const res = await getChatResponse([{ role: "user", content: "Hi" }]);
+    expect(res.backend.id).toBe("test_up");
+    expect(res.failures).toEqual([]);
+    expect(await readAll(res.stream)).toBe("Hello world");
+  });
+
+  test("should fail over on errors and first token timeouts", async () => {
+    localStorage.setItem("chatvrm_chatbot_backend", "test_down");
+    localStorage.setItem("chatvrm_chatbot_fallback_backends", "test_slow, unknown ,test_up");
+    const res = await getChatResponse([{ role: "user", content: "Hi" }]);
+    expect(res.backend.id).toBe("test_up");
+    expect(res.failures.map((f) => f.backend.id)).toEqual(["test_down", "test_slow"]);
+    expect(await readAll(res.stream)).toBe("Hello world");
+  });
+
+  test("should fail over from a backend which holds back its response and abort it", async () => {
+    let signal: AbortSignal | undefined;
+    const abort = jest.fn(async () => {});
+    registerChatBackend({
+      id: "test_hanging",
+      label: "Hanging",
+      configKeys: [],
+      abort,
+      // accepts the connection but never sends the headers
+      streamChat: (_messages, options) => new Promise((_, reject) => {
+        signal = options?.signal;
+        signal?.addEventListener("abort", () => reject(new Error("aborted")));
+      }),
+    });
+    localStorage.setItem("chatvrm_chatbot_backend", "test_hanging");
+    localStorage.setItem("chatvrm_chatbot_fallback_backends", "test_up");
+    const res = await getChatResponse([{ role: "user", content: "Hi" }]);
+    expect(res.backend.id).toBe("test_up");
+    expect(res.failures.map((f) => f.error)).toEqual(["Error: No response within 50ms"]);
+    expect(signal?.aborted).toBe(true);
+    expect(abort).toHaveBeenCalledTimes(1);
+    expect(await readAll(res.stream)).toBe("Hello world");
+  });
+
+  test("should not time out the last backend", async () => {
+    localStorage.setItem("chatvrm_chatbot_backend", "test_down");
+    localStorage.setItem("chatvrm_chatbot_fallback_backends", "test_slow");
+    const res = await getChatResponse([{ role: "user", content: "Hi" }]);
+    expect(res.backend.id).toBe("test_slow");
+    expect(await readAll(res.stream)).toBe("late");
+  });
+
+  test("should throw naming every backend when all fail", async () => {
+    localStorage.setItem("chatvrm_chatbot_backend", "test_down");
+    localStorage.setItem("chatvrm_chatbot_fallback_backends", "");
+    await expect(getChatResponse([{ role: "user", content: "Hi" }]))
+      .rejects.toThrow("Down: Error: connection refused");
+  });
+});
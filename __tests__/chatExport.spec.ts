@@ -0,0 +1,68 @@
+import { describe, expect, test } from "@jest/globals";
+import {
+  buildChatExport,
+  chatToHtml,
+  parseChatExport,
+  parseChatFile,
+} from "../src/features/conversations/chatExport";
+
+const character = { name: "Amica", systemPrompt: "You are Amica.", vrmUrl: "/vrm/AvatarSample_A.vrm", vrmHash: "" };
+
+describe("Chat Export Tests", () => {
+  test("should round trip through JSON", () => {
+    const chat = buildChatExport({
+      title: "Hello",
+      character,
+      messages: [
+        { role: "system", content: "You are Amica." },
+        { role: "user", content: "Hello\nthere", timestamp: "2024-01-01T00:00:00.000Z" },
+        { role: "assistant", content: "[happy] Hi! [relaxed] How are you?" },
+      ],
+      summary: "",
+      summarizedCount: 0,
+      subconsciousLogs: [{ prompt: "thinking", timestamp: "2024-01-01T00:00:00.000Z" }],
+    });
+    expect(chat.messages[2].emotions).toEqual(["happy", "relaxed"]);
+
+    const parsed = parseChatFile(JSON.stringify(chat));
+    expect(parsed.messages).toEqual([
+      { role: "system", content: "You are Amica." },
+      { role: "user", content: "Hello\nthere", timestamp: "2024-01-01T00:00:00.000Z" },
+      { role: "assistant", content: "[happy] Hi! [relaxed] How are you?" },
+    ]);
+    expect(parsed.subconsciousLogs).toHaveLength(1);
+    expect(parsed.character).toEqual(character);
+  });
+
+  test("should name the invalid field", () => {
+    const file = JSON.stringify({
+      format: "amica-chat",
+      version: 1,
+      messages: [{ role: "user", content: "hi" }, { role: "robot", content: "hi" }],
+    });
+    expect(() => parseChatExport(file)).toThrow("messages[1].role must be one of");
+    expect(() => parseChatExport("{")).toThrow("not valid JSON");
+    expect(() => parseChatExport(JSON.stringify({ format: "amica-chat", version: 1, messages: [] }))).toThrow("messages must be a non-empty array");
+    expect(() => parseChatExport(JSON.stringify({ format: "amica-chat", version: 99, messages: [] }))).toThrow("Unsupported chat file version 99");
+  });
+
+  test("should migrate the old text format with multi-line messages", () => {
+    const parsed = parseChatFile("system : You are Amica.\n\nuser : Hello\n\nsummary : They met.\n\nuser : first line\nsecond line\n\nassistant : [happy] Hi!");
+    expect(parsed.messages).toEqual([
+      { role: "system", content: "You are Amica." },
+      { role: "user", content: "Hello" },
+      { role: "user", content: "first line\nsecond line" },
+      { role: "assistant", content: "[happy] Hi!" },
+    ]);
+    expect(parsed.summary).toBe("They met.");
+    expect(parsed.summarizedCount).toBe(2);
+  });
+
+  test("should escape HTML", () => {
+    const chat = buildChatExport({
+      title: "", character, summary: "", summarizedCount: 0, subconsciousLogs: [],
+      messages: [{ role: "user", content: "<script>alert(1)</script>" }],
+    });
+    expect(chatToHtml(chat)).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+  });
+});
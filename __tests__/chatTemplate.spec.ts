@@ -0,0 +1,50 @@
+import { describe, expect, test } from "@jest/globals";
+import { Message } from "../src/features/chat/messages";
+import { renderTemplate } from "../src/utils/chatTemplate";
+import { buildPrompt, chatTemplates, templateStopSequences } from "../src/utils/buildPrompt";
+import { config } from "../src/utils/config";
+
+const messages: Message[] = [
+  { role: "system", content: "Be nice." },
+  { role: "user", content: "Hello" },
+  { role: "assistant", content: "Hi" },
+  { role: "user", content: "Bye" },
+];
+
+describe("Chat Template Tests", () => {
+  test("should use the system message content", () => {
+    const name = config("name");
+    expect(buildPrompt(messages)).toBe(`Be nice.\n\nUser: Hello\n${name}: Hi\nUser: Bye\n${name}:`);
+    expect(templateStopSequences(chatTemplates.amica)).toEqual([`${name}:`, "User:"]);
+  });
+
+  test("should render ChatML", () => {
+    expect(buildPrompt(messages, chatTemplates.chatml)).toBe(
+      "<|im_start|>system\nBe nice.<|im_end|>\n" +
+      "<|im_start|>user\nHello<|im_end|>\n" +
+      "<|im_start|>assistant\nHi<|im_end|>\n" +
+      "<|im_start|>user\nBye<|im_end|>\n" +
+      "<|im_start|>assistant\n"
+    );
+  });
+
+  test("should put the system prompt in the first Mistral instruction", () => {
+    expect(buildPrompt(messages, chatTemplates.mistral)).toBe(
+      "[INST] Be nice.\n\nHello [/INST] Hi</s>[INST] Bye [/INST]"
+    );
+  });
+
+  test("should support conditions, loops, filters and whitespace control", () => {
+    const template = `{%- for x in items -%}
+      {% if loop.first %}[{% elif not (x == 'b' or x == 'c') %}, {% else %}; {% endif %}{{ x | upper }}
+    {%- endfor %}{{ ']' + suffix }}`;
+    expect(renderTemplate(template, { items: ["a", "b", "d"], suffix: "!" })).toBe("[A; B, D]!");
+    expect(renderTemplate("{{ messages[1].content }}", { messages })).toBe("Hello");
+  });
+
+  test("should report template errors", () => {
+    expect(() => renderTemplate("{% if x %}open", {})).toThrow("missing {% endif %}");
+    expect(() => renderTemplate("{% while x %}", {})).toThrow('unknown tag "while x"');
+    expect(() => renderTemplate("{{ x | shout }}", { x: 1 })).toThrow('unknown filter "shout"');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, test, beforeEach, afterEach, jest } from "@jest/globals";
+import { ReadableStream } from "stream/web";
+import { TextDecoder, TextEncoder } from "util";
+import { Message } from "../src/features/chat/messages";
+import { buildClaudeMessages, getClaudeChatResponseStream } from "../src/features/chat/claudeChat";
+
+Object.assign(global, { ReadableStream, TextDecoder, TextEncoder });
+
+// serves the given chunks the way a Messages API SSE endpoint would
+function mockSseServer(chunks: string[], status = 200) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+  const fetchMock = jest.fn(async (_url: string, _init: any) => ({ status, body }));
+  global.fetch = fetchMock as any;
+  return fetchMock;
+}
+
+async function readAll(stream: any) {
+  const reader = stream.getReader();
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += value;
+  }
+  return text;
+}
+
+function sseEvent(type: string, data: object) {
+  return `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+}
+
+describe("Claude Chat Tests", () => {
+  beforeEach(() => {
+    localStorage.setItem("chatvrm_claude_apikey", "test-key");
+    localStorage.setItem("chatvrm_claude_url", "http://localhost:9999");
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  test("should hoist system messages", () => {
+    const messages: Message[] = [
+      { role: "system", content: "You are Amica." },
+      { role: "user", content: "Hello" },
+    ];
+    const res = buildClaudeMessages(messages);
+    expect(res.system).toBe("You are Amica.");
+    expect(res.messages).toEqual([{ role: "user", content: "Hello" }]);
+  });
+
+  test("should merge consecutive messages of the same role", () => {
+    const messages: Message[] = [
+      { role: "assistant", content: "Hi there" },
+      { role: "user", content: "One" },
+      { role: "user", content: "Two" },
+    ];
+    const res = buildClaudeMessages(messages);
+    expect(res.system).toBe("");
+    expect(res.messages).toEqual([
+      { role: "user", content: "..." },
+      { role: "assistant", content: "Hi there" },
+      { role: "user", content: "One\n\nTwo" },
+    ]);
+  });
+
+  test("should stream text deltas", async () => {
+    const events = [
+      sseEvent("message_start", { message: { id: "msg_1" } }),
+      sseEvent("content_block_start", { index: 0, content_block: { type: "text", text: "" } }),
+      "event: ping\ndata: {\"type\": \"ping\"}\n\n",
+      sseEvent("content_block_delta", { index: 0, delta: { type: "text_delta", text: "Hello" } }),
+      sseEvent("content_block_delta", { index: 0, delta: { type: "text_delta", text: " world" } }),
+      sseEvent("content_block_stop", { index: 0 }),
+      sseEvent("message_stop", {}),
+    ].join("");
+
+    // split the body at awkward places to simulate network chunking
+    const fetchMock = mockSseServer([events.slice(0, 37), events.slice(37, 250), events.slice(250)]);
+    const stream = await getClaudeChatResponseStream([
+      { role: "system", content: "sys" },
+      { role: "user", content: "Hi" },
+    ]);
+    expect(await readAll(stream)).toBe("Hello world");
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://localhost:9999/v1/messages");
+    const body = JSON.parse(init.body);
+    expect(body.system).toBe("sys");
+    expect(body.stream).toBe(true);
+    expect(body.messages).toEqual([{ role: "user", content: "Hi" }]);
+  });
+
+  test("should throw on non 200 status", async () => {
+    mockSseServer([], 401);
+    await expect(getClaudeChatResponseStream([{ role: "user", content: "Hi" }]))
+      .rejects.toThrow("Invalid Claude authentication");
+  });
+});
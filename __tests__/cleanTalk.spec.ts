@@ -30,4 +30,14 @@ describe("Cleaning Talk Tests", () => {
     const t = makeTalk(":D");
     expect(cleanTalk(t).message).toBe("");
   });
+  test("should remove markdown syntax", () => {
+    expect(cleanTalk(makeTalk("## **Bold** and *italic* `code`")).message).toBe("Bold and italic code");
+    expect(cleanTalk(makeTalk("- [x] read [the docs](https://example.com)")).message).toBe("read the docs");
+    expect(cleanTalk(makeTalk("| a | b |")).message).toBe("a b");
+    expect(cleanTalk(makeTalk("```ts")).message).toBe("");
+    expect(cleanTalk(makeTalk("> quoted ~~old~~ $x$")).message).toBe("quoted old x");
+  });
+  test("should keep arithmetic and snake case", () => {
+    expect(cleanTalk(makeTalk("2 * 3 = 6 in my_var")).message).toBe("2 * 3 = 6 in my_var");
+  });
 });
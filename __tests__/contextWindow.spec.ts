@@ -0,0 +1,42 @@
+import { describe, expect, test } from "@jest/globals";
+import { Message } from "../src/features/chat/messages";
+import { estimateMessageTokens, fitContextWindow } from "../src/features/chat/contextWindow";
+
+function turns(count: number): Message[] {
+  const messages: Message[] = [];
+  for (let i = 0; i < count; i++) {
+    messages.push({ role: "user", content: `question ${i} `.repeat(10) });
+    messages.push({ role: "assistant", content: `answer ${i} `.repeat(10) });
+  }
+  return messages;
+}
+
+describe("Context Window Tests", () => {
+  const system: Message = { role: "system", content: "You are Amica." };
+
+  test("should keep everything within budget", () => {
+    const messages = [system, ...turns(3)];
+    const res = fitContextWindow(messages, { budget: 10000, keepTurns: 1 });
+    expect(res.messages).toEqual(messages);
+    expect(res.dropped).toEqual([]);
+  });
+
+  test("should drop the oldest messages first", () => {
+    const history = turns(5);
+    const perMessage = estimateMessageTokens(history[0]);
+    const budget = estimateMessageTokens(system) + perMessage * 5;
+    const res = fitContextWindow([system, ...history], { budget, keepTurns: 1 });
+
+    expect(res.messages[0]).toEqual(system);
+    expect(res.messages.slice(1)).toEqual(history.slice(5));
+    expect(res.dropped).toEqual(history.slice(0, 5));
+    expect(res.tokens).toBeLessThanOrEqual(budget);
+  });
+
+  test("should always keep the system prompt and last turns", () => {
+    const history = turns(4);
+    const res = fitContextWindow([system, ...history], { budget: 1, keepTurns: 2 });
+    expect(res.messages).toEqual([system, ...history.slice(4)]);
+    expect(res.dropped).toEqual(history.slice(0, 4));
+  });
+});
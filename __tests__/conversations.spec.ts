@@ -0,0 +1,25 @@
+import { describe, expect, test } from "@jest/globals";
+import { DEFAULT_CONVERSATION_TITLE, titleFromMessages } from "../src/features/conversations/conversations";
+
+describe("Conversation Title Tests", () => {
+  test("should use the first user message without emotion tags", () => {
+    const title = titleFromMessages([
+      { role: "system", content: "You are Amica." },
+      { role: "assistant", content: "[happy] Hello!" },
+      { role: "user", content: "[neutral] What is  the weather?" },
+    ]);
+    expect(title).toBe("What is the weather?");
+  });
+
+  test("should shorten long messages", () => {
+    const title = titleFromMessages([
+      { role: "user", content: "Tell me everything you know about the history of the Roman empire" },
+    ]);
+    expect(title.length).toBeLessThanOrEqual(40);
+    expect(title.endsWith("...")).toBe(true);
+  });
+
+  test("should fall back to the default title", () => {
+    expect(titleFromMessages([])).toBe(DEFAULT_CONVERSATION_TITLE);
+  });
+});
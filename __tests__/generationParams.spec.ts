@@ -0,0 +1,45 @@
+import { describe, expect, test, afterEach } from "@jest/globals";
+import { getGenerationParams, parseStopSequence } from "../src/features/chat/generationParams";
+
+describe("Generation Params Tests", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  test("should split stop sequences", () => {
+    expect(parseStopSequence("</s>||User:")).toEqual(["</s>", "User:"]);
+    expect(parseStopSequence("")).toEqual([]);
+  });
+
+  test("should leave empty params undefined", () => {
+    localStorage.setItem("chatvrm_ollama_temperature", "0.5");
+    localStorage.setItem("chatvrm_ollama_max_tokens", "128");
+    localStorage.setItem("chatvrm_ollama_seed", "not a number");
+
+    expect(getGenerationParams("ollama", ["temperature", "max_tokens", "seed", "top_p"])).toEqual({
+      temperature: 0.5,
+      topP: undefined,
+      maxTokens: 128,
+      repetitionPenalty: undefined,
+      seed: undefined,
+      stop: [],
+    });
+  });
+
+  test("should only read the listed params", () => {
+    localStorage.setItem("chatvrm_llamacpp_stop_sequence", "A||B");
+    const params = getGenerationParams("llamacpp", ["max_tokens"]);
+    expect(params.temperature).toBeUndefined();
+    expect(params.maxTokens).toBe(400);
+    expect(params.stop).toEqual([]);
+  });
+
+  test("should only add the stop sequences set by the user to the template's", () => {
+    expect(getGenerationParams("llamacpp", ["stop_sequence"]).stop).toEqual([]);
+    // stored when it was the default
+    localStorage.setItem("chatvrm_koboldai_stop_sequence", "(End)||[END]||Note||***||You:||User:||</s>");
+    expect(getGenerationParams("koboldai", ["stop_sequence"]).stop).toEqual([]);
+    localStorage.setItem("chatvrm_koboldai_stop_sequence", "Note");
+    expect(getGenerationParams("koboldai", ["stop_sequence"]).stop).toEqual(["Note"]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, test } from "@jest/globals";
+import {
+  parseInlineMarkup,
+  planCues,
+  splitAfterPauses,
+  stripMarkupTags,
+  unfinishedMarkupIndex,
+} from "../src/features/chat/inlineMarkup";
+
+describe("Inline Markup Tests", () => {
+  test("should return same thing", () => {
+    expect(parseInlineMarkup("Hello there.")).toStrictEqual([{ type: "text", text: "Hello there." }]);
+  });
+  test("should find cues anywhere in a sentence", () => {
+    expect(parseInlineMarkup("[happy] Hi *waves* there [sad] oh <look at=\"user\"> no<pause 1.5s>")).toStrictEqual([
+      { type: "emotion", name: "happy" },
+      { type: "text", text: " Hi " },
+      { type: "gesture", description: "waves", url: "/animations/greeting.vrma" },
+      { type: "text", text: " there " },
+      { type: "emotion", name: "sad" },
+      { type: "text", text: " oh " },
+      { type: "look", at: "user" },
+      { type: "text", text: " no" },
+      { type: "pause", ms: 1500 },
+    ]);
+  });
+  test("should resolve animations and drop tags it does not understand", () => {
+    expect(parseInlineMarkup("<anim name='dance'/><anim name=\"wave\"></anim><anim name=\"flip\"/><pause soon>")).toStrictEqual([
+      { type: "animation", name: "dance", url: "/animations/dance.vrma" },
+      { type: "animation", name: "wave", url: "/animations/greeting.vrma" },
+      { type: "animation", name: "flip", url: null },
+    ]);
+    expect(parseInlineMarkup("**bold** and 2 * 3 and [link](https://example.com)")).toStrictEqual([
+      { type: "text", text: "**bold** and 2 * 3 and [link](https://example.com)" },
+    ]);
+  });
+  test("should find markup which is still being received", () => {
+    expect(unfinishedMarkupIndex("Hi *wav")).toBe(3);
+    expect(unfinishedMarkupIndex("Hi <pause 5")).toBe(3);
+    expect(unfinishedMarkupIndex("Hi [hap")).toBe(3);
+    expect(unfinishedMarkupIndex("Hi <")).toBe(3);
+    expect(unfinishedMarkupIndex("Hi *waves* 2 * 3 < 4")).toBe(20);
+  });
+  test("should split after pauses", () => {
+    expect(splitAfterPauses("One <pause 500ms> two <pause 1s>")).toStrictEqual(["One <pause 500ms>", " two <pause 1s>"]);
+    expect(splitAfterPauses("")).toStrictEqual([""]);
+  });
+  test("should time cues by the text before them", () => {
+    const plan = planCues(parseInlineMarkup("[happy] abcd *nods* abcd [sad]"));
+    expect(plan.before).toStrictEqual([{ type: "emotion", name: "happy" }]);
+    expect(plan.during).toStrictEqual([{ at: 0.5, event: { type: "gesture", description: "nods", url: null } }]);
+    expect(plan.after).toStrictEqual([{ type: "emotion", name: "sad" }]);
+  });
+  test("should strip tags for display", () => {
+    expect(stripMarkupTags("[happy] Hi *waves*<pause 1s> [docs](https://example.com) <look at=\"away\">")).toBe(" Hi *waves* [docs](https://example.com) ");
+  });
+  test("should only take emotion names outside of code for tags", () => {
+    expect(parseInlineMarkup("Use arr[idx] and [note] [Sad]")).toStrictEqual([
+      { type: "text", text: "Use arr[idx] and [note] " },
+      { type: "emotion", name: "Sad" },
+    ]);
+    expect(stripMarkupTags("[happy] Try `x[happy]`:\n```python\nx = data[key] * 2 [sad]\n```")).toBe(" Try `x[happy]`:\n```python\nx = data[key] * 2 [sad]\n```");
+    expect(stripMarkupTags("```\nstill [sad] open")).toBe("```\nstill [sad] open");
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, test } from "@jest/globals";
+import {
+  cosineSimilarity,
+  isDuplicateMemory,
+  memoriesMessage,
+  topKMemories,
+} from "../src/features/memory/retrieval";
+
+describe("Memory Retrieval Tests", () => {
+  const memories = [
+    { text: "My name is Sam", embedding: [1, 0, 0] },
+    { text: "I like green tea", embedding: [0, 1, 0] },
+    { text: "I live in Berlin", embedding: [0.6, 0.8, 0] },
+  ];
+
+  test("should compute cosine similarity", () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+    expect(cosineSimilarity([2, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+
+  test("should return the most similar memories first", () => {
+    const res = topKMemories([1, 0.1, 0], memories, 2, 0);
+    expect(res.map((r) => r.memory.text)).toEqual(["My name is Sam", "I live in Berlin"]);
+    expect(res[0].score).toBeGreaterThan(res[1].score);
+  });
+
+  test("should leave out memories below the minimum score", () => {
+    const res = topKMemories([0, 0, 1], memories, 3, 0.4);
+    expect(res).toEqual([]);
+  });
+
+  test("should detect duplicates", () => {
+    expect(isDuplicateMemory([0.99, 0.01, 0], memories)).toBe(true);
+    expect(isDuplicateMemory([0, 0, 1], memories)).toBe(false);
+  });
+
+  test("should format memories as a system message", () => {
+    const message = memoriesMessage(memories.slice(0, 2));
+    expect(message.role).toBe("system");
+    expect(message.content).toContain("- My name is Sam\n- I like green tea");
+  });
+});
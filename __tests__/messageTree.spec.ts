@@ -0,0 +1,49 @@
+import { describe, expect, test } from "@jest/globals";
+import { Message } from "../src/features/chat/messages";
+import {
+  activeMessages,
+  activePath,
+  appendMessage,
+  createMessageTree,
+  setActiveMessages,
+  siblingPosition,
+  switchSibling,
+} from "../src/features/chat/messageTree";
+
+const user = (content: string): Message => ({ role: "user", content });
+const assistant = (content: string): Message => ({ role: "assistant", content });
+
+describe("Message Tree Tests", () => {
+  test("should keep the old reply when regenerating", () => {
+    const tree = createMessageTree([user("hi"), assistant("hello")]);
+    setActiveMessages(tree, [user("hi")]);
+    appendMessage(tree, assistant("hey there"));
+
+    expect(tree.nodes).toHaveLength(3);
+    const reply = activePath(tree)[1];
+    expect(siblingPosition(tree, reply.id)).toEqual({ index: 1, count: 2 });
+
+    switchSibling(tree, reply.id, -1);
+    expect(activeMessages(tree)).toEqual([user("hi"), assistant("hello")]);
+  });
+
+  test("should follow the last active path of a branch", () => {
+    const tree = createMessageTree([user("a"), assistant("b"), user("c"), assistant("d")]);
+    setActiveMessages(tree, [user("edited"), assistant("e")]);
+
+    const first = activePath(tree)[0];
+    expect(siblingPosition(tree, first.id)).toEqual({ index: 1, count: 2 });
+
+    switchSibling(tree, first.id, -1);
+    expect(activeMessages(tree).map((m) => m.content)).toEqual(["a", "b", "c", "d"]);
+
+    switchSibling(tree, activePath(tree)[0].id, 1);
+    expect(activeMessages(tree).map((m) => m.content)).toEqual(["edited", "e"]);
+  });
+
+  test("should not branch when the same message is sent again", () => {
+    const tree = createMessageTree([user("hi"), assistant("hello")]);
+    setActiveMessages(tree, [user("hi"), assistant("hello"), user("how are you?")]);
+    expect(tree.nodes).toHaveLength(3);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, test } from "@jest/globals";
+import { probeBackend, probeOpenAiModels } from "../src/utils/probeBackend";
+
+function mockFetch(status: number, body: any) {
+  global.fetch = (async () => ({
+    ok: status === 200,
+    status,
+    statusText: status === 200 ? "OK" : "Unauthorized",
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  })) as any;
+}
+
+describe("Probe Backend Tests", () => {
+  test("should list OpenAI compatible models", async () => {
+    mockFetch(200, { data: [{ id: "gpt-4o" }, { id: "gpt-3.5-turbo" }] });
+    const res = await probeBackend(() => probeOpenAiModels("https://example.com", "key"));
+    expect(res.ok).toBe(true);
+    expect(res.models).toEqual(["gpt-3.5-turbo", "gpt-4o"]);
+    expect(res.capabilities).toEqual(["2 models"]);
+  });
+
+  test("should report HTTP errors", async () => {
+    mockFetch(401, { error: "invalid key" });
+    const res = await probeBackend(() => probeOpenAiModels("https://example.com", "key"));
+    expect(res.ok).toBe(false);
+    expect(res.error).toContain("401 Unauthorized");
+    expect(res.models).toEqual([]);
+  });
+});
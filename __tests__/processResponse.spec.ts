@@ -29,4 +29,99 @@ describe("Process Response Tests", () => {
     expect(proc.shouldBreak).toBe(false);
     expect(cbTriggered).toBe(false);
   });
+
+  test("should report the unfinished sentence as partial text", () => {
+    const spoken: string[] = [];
+    const proc = processResponse({
+      sentences: [],
+      aiTextLog: "",
+      receivedMessage: "[happy] Hello there. How are *smil",
+      tag: "",
+      callback: (aiTalks: Screenplay[]) => {
+        spoken.push(aiTalks[0].text);
+        return false;
+      },
+    });
+    expect(spoken).toStrictEqual(["[happy]  Hello there."]);
+    expect(proc.receivedMessage).toBe(" How are *smil");
+    expect(proc.partialText).toBe(" How are");
+
+    const tagOnly = processResponse({
+      sentences: [],
+      aiTextLog: "",
+      receivedMessage: "[hap",
+      tag: "",
+      callback: () => false,
+    });
+    expect(tagOnly.partialText).toBe("");
+  });
+
+  test("should keep markup within a sentence and take what is left at the end", () => {
+    const spoken: Screenplay[] = [];
+    const callback = (aiTalks: Screenplay[]) => {
+      spoken.push(...aiTalks);
+      return false;
+    };
+
+    const proc = processResponse({
+      sentences: [],
+      aiTextLog: "",
+      receivedMessage: "[happy] Well <pause 1.5s> I *shrugs. then sighs* know [sad] it. *wav",
+      tag: "",
+      callback,
+    });
+    expect(spoken.map((s) => s.text)).toStrictEqual(["[happy]  Well <pause 1.5s>", " I *shrugs. then sighs* know [sad] it."]);
+    expect(spoken.map((s) => s.talk.message)).toStrictEqual([" Well ", " I know it."]);
+    expect(spoken[1].expression).toBe("happy");
+    expect(proc.tag).toBe("[sad]");
+    expect(proc.partialText).toBe("");
+
+    processResponse({
+      sentences: proc.sentences,
+      aiTextLog: proc.aiTextLog,
+      receivedMessage: proc.receivedMessage + "es*",
+      tag: proc.tag,
+      final: true,
+      callback,
+    });
+    expect(spoken[2].text).toBe("[sad] *waves*");
+    expect(spoken[2].expression).toBe("sad");
+    expect(spoken[2].talk.message.trim()).toBe("");
+  });
+
+  test("should show the reply as it was written and speak it by sentence", () => {
+    const reply = "[happy] Here is the list.\n\n- one\n\n```python\nfor x in data[key]:\n    print(x[sad])\n}\n```";
+    const spoken: Screenplay[] = [];
+    let proc = {
+      sentences: [] as string[],
+      aiTextLog: "",
+      receivedMessage: "",
+      tag: "",
+    };
+    for (const chunk of reply.match(/[\s\S]{1,4}/g)!) {
+      proc = processResponse({
+        ...proc,
+        receivedMessage: proc.receivedMessage + chunk,
+        callback: (aiTalks: Screenplay[]) => {
+          spoken.push(...aiTalks);
+          return false;
+        },
+      });
+    }
+    proc = processResponse({
+      ...proc,
+      final: true,
+      callback: (aiTalks: Screenplay[]) => {
+        spoken.push(...aiTalks);
+        return false;
+      },
+    });
+
+    expect(spoken.map((s) => s.shown).join("")).toBe(reply);
+    expect(proc.aiTextLog).toBe(reply);
+    expect(spoken[0].talk.message.trim()).toBe("Here is the list.");
+    expect(spoken.every((s) => s.expression === "happy")).toBe(true);
+    // a line with only a bracket is shown but not spoken
+    expect(spoken.find((s) => s.shown === "}\n")?.talk.message).toBe("");
+  });
 });
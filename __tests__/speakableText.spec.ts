@@ -0,0 +1,49 @@
+import { describe, expect, test } from "@jest/globals";
+import { registerSpeakableRule, toSpeakableText } from "../src/utils/speakableText";
+
+describe("Speakable Text Tests", () => {
+  test("should return same thing", () => {
+    expect(toSpeakableText("Hello there", "en")).toBe("Hello there");
+  });
+  test("should drop role-play actions but keep emphasis", () => {
+    expect(toSpeakableText("*waves* Hi! *smiles warmly*", "en")).toBe("Hi!");
+    expect(toSpeakableText("That is *really* nice. *laughs* Sure.", "en")).toBe("That is really nice. Sure.");
+  });
+  test("should read markdown links and urls", () => {
+    expect(toSpeakableText("See [the docs](https://example.com/docs).", "en")).toBe("See the docs.");
+    expect(toSpeakableText("Visit https://www.example.com/path?q=1.", "en")).toBe("Visit example dot com.");
+    expect(toSpeakableText("Siehe https://example.de.", "de")).toBe("Siehe example Punkt de.");
+  });
+  test("should spell english numbers", () => {
+    expect(toSpeakableText("I have 3 cats and 21 dogs", "en")).toBe("I have three cats and twenty one dogs");
+    expect(toSpeakableText("It is -2.5 or 1,250,000", "en")).toBe("It is minus two point five or one million two hundred and fifty thousand");
+    expect(toSpeakableText("the 1st, 2nd and 23rd", "en")).toBe("the first, second and twenty third");
+    expect(toSpeakableText("version 1.2.3 at 10.0.0.1.", "en")).toBe("version one point two point three at ten point zero point zero point one.");
+  });
+  test("should read english dates, times and money", () => {
+    expect(toSpeakableText("Due 2024-03-05 at 14:30", "en")).toBe("Due March fifth, twenty twenty four at fourteen thirty");
+    expect(toSpeakableText("Meet at 9:05 pm or 7 am", "en")).toBe("Meet at nine oh five p m or seven a m");
+    expect(toSpeakableText("It costs $3.50, not £1", "en")).toBe("It costs three dollars and fifty cents, not one pound");
+  });
+  test("should read english units and abbreviations", () => {
+    expect(toSpeakableText("Drive 1 km at 50 km/h, e.g. now", "en")).toBe("Drive one kilometer at fifty kilometers per hour, for example now");
+    expect(toSpeakableText("It is 21°C and 40% humid", "en")).toBe("It is twenty one degrees Celsius and forty percent humid");
+  });
+  test("should read german text", () => {
+    expect(toSpeakableText("Ich habe 21 Katzen und 1 Hund", "de")).toBe("Ich habe einundzwanzig Katzen und ein Hund");
+    expect(toSpeakableText("Am 3. Mai um 14:30 Uhr", "de")).toBe("Am dritten Mai um vierzehn Uhr dreißig");
+    expect(toSpeakableText("Das kostet 3,50 € bzw. 1.000 €", "de")).toBe("Das kostet drei Euro fünfzig beziehungsweise eintausend Euro");
+    expect(toSpeakableText("Version 1.2.3 und 1.000.000 Nutzer", "de")).toBe("Version eins Punkt zwei Punkt drei und eine Million Nutzer");
+    expect(toSpeakableText("z. B. 2,5 kg am 1.10.1999", "de")).toBe("zum Beispiel zwei Komma fünf Kilogramm am ersten Oktober neunzehnhundertneunundneunzig");
+  });
+  test("should read chinese text", () => {
+    expect(toSpeakableText("我有3只猫和10005本书", "zh")).toBe("我有三只猫和一万零五本书");
+    expect(toSpeakableText("2024年3月5日 14:05", "zh")).toBe("二零二四年三月五日 十四点零五分");
+    expect(toSpeakableText("价格¥12.5，打折50%", "zh")).toBe("价格十二点五元，打折百分之五十");
+    expect(toSpeakableText("版本1.2.3", "zh")).toBe("版本一点二点三");
+  });
+  test("should run registered rules before the numbers", () => {
+    registerSpeakableRule("en", { name: "pi", apply: (text) => text.replace(/3\.14/g, "pi") }, "numbers");
+    expect(toSpeakableText("about 3.14 or 3", "en")).toBe("about pi or three");
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, test } from "@jest/globals";
+import { ReadableStream } from "stream/web";
+import { TextDecoder, TextEncoder } from "util";
+import {
+  createNdjsonParser,
+  createSseParser,
+  readNdjson,
+  readSseEvents,
+} from "../src/utils/streamParsers";
+
+Object.assign(global, { ReadableStream, TextDecoder, TextEncoder });
+
+function parseSse(chunks: string[]) {
+  const parser = createSseParser();
+  return chunks.flatMap((chunk) => parser.push(chunk));
+}
+
+// a reader serving the given byte chunks
+function byteReader(chunks: number[][]) {
+  const body = new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(new Uint8Array(chunk));
+      }
+      controller.close();
+    },
+  });
+  return body.getReader() as any;
+}
+
+async function collect<T>(iterator: AsyncGenerator<T>) {
+  const values: T[] = [];
+  for await (const value of iterator) {
+    values.push(value);
+  }
+  return values;
+}
+
+describe("SSE Parser Tests", () => {
+  test("should parse fields as specified", () => {
+    const events = parseSse([
+      ": comment\n",
+      "event: delta\n",
+      "id: 7\n",
+      "data: first\n",
+      "data:second\n",
+      "data\n",
+      "data:  two spaces\n",
+      "unknown: ignored\n",
+      "\n",
+      "data: {\"content\":\"data: inside\"}\n\n",
+    ]);
+
+    expect(events).toStrictEqual([
+      { event: "delta", data: "first\nsecond\n\n two spaces", id: "7" },
+      { event: "message", data: "{\"content\":\"data: inside\"}", id: "7" },
+    ]);
+  });
+
+  test("should give the same events however the text is split", () => {
+    const text = "\uFEFFevent: a\r\ndata: one\r\n\r\ndata: two\rdata: 2\r\rdata: three\n\n";
+    const expected = [
+      { event: "a", data: "one", id: "" },
+      { event: "message", data: "two\n2", id: "" },
+      { event: "message", data: "three", id: "" },
+    ];
+
+    expect(parseSse([text])).toStrictEqual(expected);
+    expect(parseSse(text.split(""))).toStrictEqual(expected);
+    expect(parseSse(["\uFEFFevent: a\r", "\ndata: one\r", "\n\r", "\ndata: two\r", "data: 2\r", "\rdata: three\n\n"])).toStrictEqual(expected);
+  });
+
+  test("should skip events without data and drop an unfinished one", () => {
+    expect(parseSse(["event: ping\n\n", "data: done\n\n", "data: cut off"])).toStrictEqual([
+      { event: "message", data: "done", id: "" },
+    ]);
+  });
+
+  test("should keep multi-byte characters split across chunks", async () => {
+    // "data: é😀\n\n" with both characters split between chunks
+    const bytes = Array.from(new TextEncoder().encode("data: é😀\n\n"));
+    const events = await collect(readSseEvents(byteReader([bytes.slice(0, 7), bytes.slice(7, 10), bytes.slice(10)])));
+
+    expect(events).toStrictEqual([{ event: "message", data: "é😀", id: "" }]);
+  });
+});
+
+describe("NDJSON Parser Tests", () => {
+  test("should carry partial lines over to the next chunk", () => {
+    const parser = createNdjsonParser();
+
+    expect(parser.push("{\"a\":1}\n{\"b\"")).toStrictEqual([{ a: 1 }]);
+    expect(parser.push(":2}\n\n{\"c\":")).toStrictEqual([{ b: 2 }]);
+    expect(parser.push("3}")).toStrictEqual([]);
+    expect(parser.end()).toStrictEqual([{ c: 3 }]);
+    expect(parser.end()).toStrictEqual([]);
+  });
+
+  test("should name the line which is not JSON", () => {
+    const parser = createNdjsonParser();
+
+    expect(() => parser.push("{\"a\":1}\nnot json\n")).toThrow("Invalid JSON line in stream: not json");
+  });
+
+  test("should read a byte stream split inside a character", async () => {
+    const bytes = Array.from(new TextEncoder().encode("{\"text\":\"ü\"}\r\n{\"done\":true}"));
+    const values = await collect(readNdjson(byteReader([bytes.slice(0, 10), bytes.slice(10)])));
+
+    expect(values).toStrictEqual([{ text: "ü" }, { done: true }]);
+  });
+});
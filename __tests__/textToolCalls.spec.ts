@@ -0,0 +1,96 @@
+import { describe, expect, test } from "@jest/globals";
+import { ReadableStream } from "stream/web";
+import { ToolCall } from "../src/features/chat/messages";
+import {
+  parseTextToolCall,
+  parseTextToolCalls,
+  withTextToolProtocol,
+} from "../src/features/functionCalling/textToolCalls";
+import { Tool } from "../src/features/functionCalling/tools";
+
+Object.assign(global, { ReadableStream });
+
+const tool: Tool = {
+  name: "get_weather",
+  description: "Get the weather.",
+  parameters: { type: "object", properties: { city: { type: "string" } } },
+  execute: async () => "sunny",
+};
+
+function textStream(chunks: string[]): any {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(chunk);
+      }
+      controller.close();
+    },
+  });
+}
+
+async function readAll(stream: any) {
+  const reader = stream.getReader();
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += value;
+  }
+  return text;
+}
+
+describe("Text Tool Calls Tests", () => {
+  test("should parse a tool call", () => {
+    expect(parseTextToolCall('[neutral] {"tool": "get_weather", "arguments": {"city": "Paris"}}', "call_0"))
+      .toEqual({ id: "call_0", name: "get_weather", arguments: '{"city":"Paris"}' });
+    expect(parseTextToolCall('```json\n{"tool": "get_weather"}\n```', "call_0"))
+      .toEqual({ id: "call_0", name: "get_weather", arguments: "{}" });
+    expect(parseTextToolCall('{"weather": "sunny"}', "call_0")).toBeNull();
+    expect(parseTextToolCall("[happy] Hello!", "call_0")).toBeNull();
+  });
+
+  test("should rewrite tool messages", () => {
+    const messages = withTextToolProtocol([
+      { role: "system", content: "You are Amica." },
+      { role: "user", content: "Weather?" },
+      { role: "assistant", content: "", tool_calls: [{ id: "call_0", name: "get_weather", arguments: '{"city":"Paris"}' }] },
+      { role: "tool", content: "sunny", tool_call_id: "call_0" },
+    ], [tool]);
+
+    expect(messages[0].content).toContain("You are Amica.");
+    expect(messages[0].content).toContain("get_weather");
+    expect(messages[2]).toEqual({ role: "assistant", content: '{"tool": "get_weather", "arguments": {"city":"Paris"}}' });
+    expect(messages[3]).toEqual({ role: "user", content: "Tool result: sunny" });
+  });
+
+  test("should pass plain text through", async () => {
+    const calls: ToolCall[] = [];
+    const stream = parseTextToolCalls(textStream(["[hap", "py] Hel", "lo"]), (c) => calls.push(...c));
+    expect(await readAll(stream)).toBe("[happy] Hello");
+    expect(calls).toEqual([]);
+  });
+
+  test("should stream code and json which are not tool calls", async () => {
+    // stays open, only what was released can be read
+    const openStream = (chunks: string[]): any => new ReadableStream({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(chunk));
+      },
+    });
+    const calls: ToolCall[] = [];
+    const code = parseTextToolCalls(openStream(["[happy] ``", "`python\n", "x = 1\n"]), (c) => calls.push(...c)).getReader();
+    expect((await code.read()).value).toBe("[happy] ```python\n");
+    expect((await code.read()).value).toBe("x = 1\n");
+
+    const json = parseTextToolCalls(openStream(["```json\n{ \"to", "tal\": 3}"]), (c) => calls.push(...c)).getReader();
+    expect((await json.read()).value).toBe("```json\n{ \"total\": 3}");
+    expect(calls).toEqual([]);
+  });
+
+  test("should hold back a streamed tool call", async () => {
+    const calls: ToolCall[] = [];
+    const stream = parseTextToolCalls(textStream(["[neutral] {\"to", "ol\": \"get_weather\", ", "\"arguments\": {}}"]), (c) => calls.push(...c));
+    expect(await readAll(stream)).toBe("");
+    expect(calls).toEqual([{ id: "call_0", name: "get_weather", arguments: "{}" }]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test, afterEach } from "@jest/globals";
+import { ReadableStream } from "stream/web";
+import { Talk } from "../src/features/chat/messages";
+import {
+  getTTSBackend,
+  getTTSConcurrency,
+  getTalkProsody,
+  registerAudioPostProcessor,
+  registerTTSBackend,
+  synthesizeSpeech,
+} from "../src/features/tts/ttsBackend";
+import { isAudioStream } from "../src/features/lipSync/lipSync";
+
+Object.assign(global, { ReadableStream });
+
+const talk: Talk = { style: "talk", message: "Hello" };
+
+describe("TTS Backend Tests", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  test("should run enabled post-processing on every backend", async () => {
+    registerTTSBackend({
+      id: "test_tts",
+      label: "Test",
+      configKeys: [],
+      synthesize: async () => new Uint8Array([1, 2]).buffer,
+    });
+    registerAudioPostProcessor({
+      id: "test_reverse",
+      label: "Reverse",
+      configKeys: [],
+      isEnabled: () => localStorage.getItem("test_reverse") === "true",
+      process: async (audio) => new Uint8Array(audio).reverse().buffer,
+    });
+    localStorage.setItem("chatvrm_tts_backend", "test_tts");
+
+    expect(Array.from(new Uint8Array((await synthesizeSpeech(talk)) as ArrayBuffer))).toStrictEqual([1, 2]);
+    localStorage.setItem("test_reverse", "true");
+    expect(Array.from(new Uint8Array((await synthesizeSpeech(talk)) as ArrayBuffer))).toStrictEqual([2, 1]);
+  });
+
+  test("should not speak with none or an unknown backend", async () => {
+    localStorage.setItem("chatvrm_tts_backend", "none");
+    expect(await synthesizeSpeech(talk)).toBeNull();
+    localStorage.setItem("chatvrm_tts_backend", "missing");
+    expect(await synthesizeSpeech(talk)).toBeNull();
+  });
+
+  test("should stream unless a post-processor needs all of the audio", async () => {
+    registerTTSBackend({
+      id: "test_streaming",
+      label: "Streaming",
+      configKeys: [],
+      capabilities: { streaming: true },
+      synthesize: async () => new Uint8Array([1]).buffer,
+      synthesizeStream: async () => ({
+        mimeType: "audio/mpeg",
+        body: new ReadableStream({
+          start(controller) {
+            controller.enqueue(new Uint8Array([1]));
+            controller.close();
+          },
+        }) as any,
+      }),
+    });
+    localStorage.setItem("chatvrm_tts_backend", "test_streaming");
+
+    const streamed = await synthesizeSpeech(talk);
+    expect(streamed && isAudioStream(streamed)).toBe(true);
+    localStorage.setItem("test_reverse", "true");
+    expect(await synthesizeSpeech(talk)).toBeInstanceOf(ArrayBuffer);
+  });
+
+  test("should synthesize with the concurrency set for the backend", () => {
+    const piper = getTTSBackend("piper")!;
+    const elevenlabs = getTTSBackend("elevenlabs")!;
+    expect(getTTSConcurrency(piper)).toBe(1);
+    expect(getTTSConcurrency(elevenlabs)).toBe(3);
+
+    localStorage.setItem("chatvrm_tts_concurrency", JSON.stringify({ elevenlabs: 5, piper: 0 }));
+    expect(getTTSConcurrency(elevenlabs)).toBe(5);
+    expect(getTTSConcurrency(piper)).toBe(1);
+  });
+
+  test("should speak with the prosody of the emotion and the user's changes", async () => {
+    const piper = getTTSBackend("piper")!;
+    const sad: Talk = { style: "sad", message: "Oh", emotion: "sad" };
+    expect(getTalkProsody(talk, piper)).toStrictEqual({ length_scale: 1, noise_scale: 0.667, noise_w: 0.8 });
+    expect(getTalkProsody(sad, piper).length_scale).toBeGreaterThan(1);
+    expect(getTalkProsody(sad, getTTSBackend("coquiLocal")!)).toStrictEqual({});
+
+    localStorage.setItem("chatvrm_tts_prosody", JSON.stringify({ piper: { sad: { length_scale: 2, noise_w: "x" } } }));
+    expect(getTalkProsody(sad, piper)).toMatchObject({ length_scale: 2, noise_w: 0.6 });
+
+    const prosodies: any[] = [];
+    registerTTSBackend({
+      id: "test_prosody",
+      label: "Prosody",
+      configKeys: [],
+      prosody: piper.prosody,
+      synthesize: async (_talk, prosody) => {
+        prosodies.push(prosody);
+        return new Uint8Array([1]).buffer;
+      },
+    });
+    localStorage.setItem("chatvrm_tts_backend", "test_prosody");
+    await synthesizeSpeech(sad);
+    expect(prosodies[0].length_scale).toBe(1.15);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, test } from "@jest/globals";
+import { createWavStreamDecoder } from "../src/features/lipSync/wavStream";
+
+// a streamed wav header, the sizes are unknown and left at their maximum
+function wavHeader(channels: number, sampleRate: number, bitsPerSample: number) {
+  const header = new DataView(new ArrayBuffer(44));
+  const text = (offset: number, value: string) =>
+    value.split("").forEach((c, i) => header.setUint8(offset + i, c.charCodeAt(0)));
+  text(0, "RIFF");
+  header.setUint32(4, 0xffffffff, true);
+  text(8, "WAVE");
+  text(12, "fmt ");
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, channels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * channels * bitsPerSample / 8, true);
+  header.setUint16(32, channels * bitsPerSample / 8, true);
+  header.setUint16(34, bitsPerSample, true);
+  text(36, "data");
+  header.setUint32(40, 0xffffffff, true);
+  return Array.from(new Uint8Array(header.buffer));
+}
+
+function int16(...values: number[]) {
+  return Array.from(new Uint8Array(new Int16Array(values).buffer));
+}
+
+describe("WAV Stream Decoder Tests", () => {
+  test("should wait for the header and decode the samples after it", () => {
+    const decoder = createWavStreamDecoder();
+    const bytes = [...wavHeader(1, 16000, 16), ...int16(16384, -32768)];
+
+    expect(decoder.push(new Uint8Array(bytes.slice(0, 30)))).toBeNull();
+    expect(decoder.format).toBeNull();
+    const samples = decoder.push(new Uint8Array(bytes.slice(30)))!;
+    expect(decoder.format).toStrictEqual({ channels: 1, sampleRate: 16000, bitsPerSample: 16, float: false });
+    expect(Array.from(samples[0])).toStrictEqual([0.5, -1]);
+  });
+
+  test("should keep frames split across chunks together", () => {
+    const decoder = createWavStreamDecoder();
+    const bytes = [...wavHeader(2, 8000, 16), ...int16(8192, -8192, 16384, -16384)];
+
+    const first = decoder.push(new Uint8Array(bytes.slice(0, 44 + 5)))!;
+    const second = decoder.push(new Uint8Array(bytes.slice(44 + 5)))!;
+    expect([Array.from(first[0]), Array.from(first[1])]).toStrictEqual([[0.25], [-0.25]]);
+    expect([Array.from(second[0]), Array.from(second[1])]).toStrictEqual([[0.5], [-0.5]]);
+  });
+
+  test("should reject what is not a wav stream", () => {
+    const decoder = createWavStreamDecoder();
+
+    expect(() => decoder.push(new Uint8Array(Array.from("ID3 not a wav file", (c) => c.charCodeAt(0))))).toThrow("Not a WAV stream");
+  });
+});
@@ -1,14 +1,43 @@
 import { useEffect, useRef, useState } from "react";
 import { clsx } from "clsx";
 import { config } from "@/utils/config";
+import { StreamingReply } from "@/features/chat/streamingReply";
+import { stripMarkupTags } from "@/features/chat/inlineMarkup";
 import { IconButton } from "./iconButton";
 
-export const AssistantText = ({ message }: { message: string }) => {
+// Unspoken text is greyed out and the sentence being spoken highlighted
+function StreamingText({ reply }: { reply: StreamingReply }) {
+  return (
+    <>
+      {reply.sentences.map((sentence, i) => (
+        <span
+          key={i}
+          className={clsx(
+            i >= reply.spoken && "text-gray-400",
+            reply.speaking && i === reply.spoken - 1 && "rounded bg-pink-200/80",
+          )}
+        >
+          {stripMarkupTags(sentence)}
+        </span>
+      ))}
+      <span className="text-gray-400"> {stripMarkupTags(reply.partial)}</span>
+    </>
+  );
+}
+
+export const AssistantText = ({
+  message,
+  reply,
+}: {
+  message: string;
+  // shown in place of message when streaming text is enabled
+  reply?: StreamingReply | null;
+}) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const [unlimited, setUnlimited] = useState(false)
 
-  // Replace all of the emotion tag in message with ""
-  message = message.replace(/\[(.*?)\]/g, "");
+  // Replace all of the emotion and cue tags in message with ""
+  message = stripMarkupTags(message);
 
   useEffect(() => {
     scrollRef.current?.scrollIntoView({
@@ -38,7 +67,7 @@ export const AssistantText = ({ message }: { message: string }) => {
               unlimited ? 'max-h-[calc(75vh)]' : 'max-h-32',
             )}>
               <div className="min-h-8 max-h-full text-gray-700 typography-16 font-bold">
-                {message.replace(/\[([a-zA-Z]*?)\]/g, "")}
+                {reply ? <StreamingText reply={reply} /> : message.replace(/\[([a-zA-Z]*?)\]/g, "")}
                 <div ref={scrollRef} />
               </div>
             </div>
@@ -0,0 +1,40 @@
+import { clsx } from "clsx";
+import { ChevronLeftIcon, ChevronRightIcon } from "@heroicons/react/20/solid";
+import { SiblingPosition } from "@/features/chat/messageTree";
+
+// "< 2/3 >" control to flip between edited or regenerated versions of a message
+export const BranchSwitcher = ({
+  position,
+  onSwitch,
+  className,
+}: {
+  position: SiblingPosition | null;
+  onSwitch: (offset: number) => void;
+  className?: string;
+}) => {
+  if (! position || position.count < 2) {
+    return null;
+  }
+
+  return (
+    <span className={clsx("inline-flex items-center text-xs font-normal tracking-normal", className)}>
+      <button
+        type="button"
+        className="rounded-full p-0.5 hover:bg-white/20 disabled:opacity-30"
+        disabled={position.index === 0}
+        onClick={() => onSwitch(-1)}
+      >
+        <ChevronLeftIcon className="h-4 w-4" aria-hidden="true" />
+      </button>
+      <span className="tabular-nums">{position.index + 1}/{position.count}</span>
+      <button
+        type="button"
+        className="rounded-full p-0.5 hover:bg-white/20 disabled:opacity-30"
+        disabled={position.index === position.count - 1}
+        onClick={() => onSwitch(1)}
+      >
+        <ChevronRightIcon className="h-4 w-4" aria-hidden="true" />
+      </button>
+    </span>
+  );
+};
@@ -2,35 +2,56 @@ import { useTranslation } from 'react-i18next';
 import { clsx } from "clsx";
 import { useCallback, useContext, useEffect, useRef, useState } from "react";
 import FlexTextarea from "@/components/flexTextarea/flexTextarea";
-import { Message } from "@/features/chat/messages";
+import { Message, isChatLogMessage } from "@/features/chat/messages";
+import { stripMarkupTags } from "@/features/chat/inlineMarkup";
 import { IconButton } from "@/components/iconButton";
 import {
   ArrowPathIcon,
 } from '@heroicons/react/20/solid';
 import { config } from "@/utils/config";
 import { ChatContext } from "@/features/chat/chatContext";
+import { AlertContext } from "@/features/alert/alertContext";
+import { AmicaLifeContext } from "@/features/amicaLife/amicaLifeContext";
+import { setStoredPrompts, storedPrompts } from "@/features/amicaLife/eventHandler";
+import {
+  buildChatExport,
+  chatToHtml,
+  chatToMarkdown,
+  parseChatFile,
+} from "@/features/conversations/chatExport";
+import { currentCharacter, titleFromMessages } from "@/features/conversations/conversations";
+import { SiblingPosition, createMessageTree } from "@/features/chat/messageTree";
+import { BranchSwitcher } from "@/components/branchSwitcher";
+import { Markdown } from "@/components/markdown";
 import { saveAs } from 'file-saver';
 
 export const ChatLog = ({
   messages,
+  summary,
 }: {
   messages: Message[];
+  summary: string;
 }) => {
   const { t } = useTranslation();
   const { chat: bot } = useContext(ChatContext);
+  const { alert } = useContext(AlertContext);
+  const { amicaLife } = useContext(AmicaLifeContext);
   const chatScrollRef = useRef<HTMLDivElement>(null);
 
   const handleResumeButtonClick = (num: number, newMessage: string) => {
-    bot.setMessageList(messages.slice(0, num));
-    bot.receiveMessageFromUser(newMessage,false);
+    if (messages[num].role === "assistant") {
+      bot.regenerate(num);
+    } else {
+      bot.editMessage(num, newMessage);
+    }
   };
 
-  const txtFileInputRef = useRef<HTMLInputElement>(null);
-  const handleClickOpenTxtFile = useCallback(() => {
-    txtFileInputRef.current?.click();
+  const chatFileInputRef = useRef<HTMLInputElement>(null);
+  const handleClickOpenChatFile = useCallback(() => {
+    chatFileInputRef.current?.click();
   }, []);
 
-  const handleChangeTxtFile = useCallback(
+  const handleChangeChatFile = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
       const files = event.target.files;
       if (!files) return;
@@ -41,29 +62,24 @@ export const ChatLog = ({
       const fileReader = new FileReader();
       fileReader.onload = (e) => {
         const content = e.target?.result as string;
-        const lines = content.split("\n");
-        const parsedChat = lines.map((line) => {
-          const match = line.match(/^(user|assistant)\s*:\s*(.*)$/);
-          if (match) {
-            return { role: match[1], content: match[2] };
-          }
-          return null;
-        }).filter(Boolean) as Message[];
-
         try {
-          if (parsedChat.length > 0) {
-            const lastMessage = parsedChat[parsedChat.length - 1];
-            bot.setMessageList(parsedChat.slice(0, parsedChat.length - 1));
-
-            if (lastMessage.role === "user") {
-              bot.receiveMessageFromUser(lastMessage.content,false);
-            } else {
-              bot.bubbleMessage(lastMessage.role, lastMessage.content);
-            }
-          } 
-          console.error("Please attach the correct file format.");
+          const chat = parseChatFile(content);
+          // a trailing user message has not been answered yet, ask again
+          const lastMessage = chat.messages[chat.messages.length - 1];
+          const unanswered = lastMessage.role === "user";
+          const history = unanswered ? chat.messages.slice(0, -1) : chat.messages;
+
+          bot.setMessageTree(createMessageTree(history));
+          bot.setConversationSummary(chat.summary, Math.min(chat.summarizedCount, history.length));
+          setStoredPrompts(chat.subconsciousLogs);
+          amicaLife.setSubconciousLogs?.([...chat.subconsciousLogs]);
+
+          if (unanswered) {
+            bot.receiveMessageFromUser(lastMessage.content, false);
+          }
         } catch (e: any) {
           console.error(e.toString());
+          alert.error(t("Could not load chat"), e.message);
         }
       };
 
@@ -71,15 +87,30 @@ export const ChatLog = ({
 
       event.target.value = "";
     },
-    [bot]
+    [bot, amicaLife, alert, t]
   );
 
-  const exportMessagesToTxt = (messages: any[]) => {
-    const blob = new Blob(
-      [messages.map((msg: { role: string; content: string; }) => `${msg.role} : ${msg.content}`).join('\n\n')],
-      { type: 'text/plain' }
-    );
-    saveAs(blob, 'chat_log.txt');
+  const exportChat = (format: "json" | "md" | "html") => {
+    const chat = buildChatExport({
+      title: titleFromMessages(messages),
+      character: currentCharacter(),
+      messages,
+      summary: bot.summary,
+      summarizedCount: bot.summarizedCount,
+      subconsciousLogs: [...storedPrompts],
+    });
+
+    switch (format) {
+      case "json":
+        saveAs(new Blob([JSON.stringify(chat, null, 2)], { type: 'application/json' }), 'chat_log.json');
+        break;
+      case "md":
+        saveAs(new Blob([chatToMarkdown(chat)], { type: 'text/markdown' }), 'chat_log.md');
+        break;
+      case "html":
+        saveAs(new Blob([chatToHtml(chat)], { type: 'text/html' }), 'chat_log.html');
+        break;
+    }
   };
 
   useEffect(() => {
@@ -113,28 +144,54 @@ export const ChatLog = ({
           label={t("Load Chat")}
           isProcessing={false}
           className="bg-slate-600 hover:bg-slate-500 active:bg-slate-500 shadow-xl"
-          onClick={handleClickOpenTxtFile}
+          onClick={handleClickOpenChatFile}
         ></IconButton>
         <IconButton
           iconName="24/Save"
           label={t("Save")}
           isProcessing={false}
           className="bg-slate-600 hover:bg-slate-500 active:bg-slate-500 shadow-xl"
-          onClick={() => exportMessagesToTxt(messages)}
+          onClick={() => exportChat("json")}
+        ></IconButton>
+        <IconButton
+          iconName="24/Description"
+          label={t("Markdown")}
+          isProcessing={false}
+          className="bg-slate-600 hover:bg-slate-500 active:bg-slate-500 shadow-xl"
+          onClick={() => exportChat("md")}
+        ></IconButton>
+        <IconButton
+          iconName="24/Codes"
+          label={t("HTML")}
+          isProcessing={false}
+          className="bg-slate-600 hover:bg-slate-500 active:bg-slate-500 shadow-xl"
+          onClick={() => exportChat("html")}
         ></IconButton>
       </div>
 
       <div className="fixed w-col-span-6 max-w-full h-full pb-16">
 
         <div className="max-h-full px-16 pt-20 pb-4 overflow-y-auto scroll-hidden">
+          { summary !== "" && (
+            <Summary
+              summary={summary}
+              onChange={(value: string) => bot.setConversationSummary(value)}
+            />
+          )}
           {messages.map((msg, i) => {
+            if (! isChatLogMessage(msg)) {
+              return null;
+            }
             return (
               <div key={i} ref={messages.length - 1 === i ? chatScrollRef : null}>
                 <Chat
                   role={msg.role}
-                  message={msg.content.replace(/\[(.*?)\]/g, "")}
+                  message={stripMarkupTags(msg.content)}
+                  interrupted={msg.interrupted}
                   num={i}
+                  branch={bot.branchPosition(i)}
                   onClickResumeButton={handleResumeButtonClick}
+                  onSwitchBranch={(offset: number) => bot.switchBranch(i, offset)}
                 />
 
               </div>
@@ -144,36 +201,75 @@ export const ChatLog = ({
       </div>
       <input
         type="file"
-        accept=".txt"
-        ref={txtFileInputRef}
-        onChange={handleChangeTxtFile}
+        accept=".json,.txt"
+        ref={chatFileInputRef}
+        onChange={handleChangeChatFile}
         className="hidden"
       />
     </>
   );
 };
 
+// The rolling summary of older messages, editing it changes what the chatbot remembers
+function Summary({
+  summary,
+  onChange,
+}: {
+  summary: string;
+  onChange: (summary: string) => void;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="mx-auto max-w-sm my-8">
+      <div className="px-8 py-2 rounded-t-lg font-bold tracking-wider shadow-inner backdrop-blur-lg bg-slate-600/80">
+        <div className="text-bold text-white">
+          {t("Memory")}
+        </div>
+      </div>
+      <div className="px-4 py-2 bg-white/80 backdrop-blur-lg rounded-b-lg shadow-sm">
+        <p className="text-xs text-gray-500">
+          {t("summary_desc", "Summary of the earlier conversation, sent to the chatbot in place of those messages.")}
+        </p>
+        <div className="typography-16 font-M_PLUS_2 text-gray-800">
+          <FlexTextarea
+            value={summary}
+            onChange={onChange}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function Chat({
   role,
   message,
+  interrupted,
   num,
-  onClickResumeButton
+  branch,
+  onClickResumeButton,
+  onSwitchBranch,
 }: {
   role: string;
   message: string;
+  interrupted?: boolean;
   num: number;
+  branch: SiblingPosition | null;
   onClickResumeButton: (num: number, message: string) => void;
+  onSwitchBranch: (offset: number) => void;
 }) {
   const { t } = useTranslation();
-  // const [textAreaValue, setTextAreaValue] = useState(message);
+  const [textAreaValue, setTextAreaValue] = useState(message);
+
+  useEffect(() => {
+    setTextAreaValue(message);
+  }, [message]);
 
   const onClickButton = () => {
-    const newMessage = message
-    onClickResumeButton(num, newMessage);
+    onClickResumeButton(num, textAreaValue);
   };
 
-
-
   return (
     <div className={clsx(
       'mx-auto max-w-sm my-8',
@@ -181,7 +277,7 @@ function Chat({
     )}>
       <div
         className={clsx(
-          'px-8 py-2 rounded-t-lg font-bold tracking-wider flex justify-between shadow-inner backdrop-blur-lg',
+          'px-8 py-2 rounded-t-lg font-bold tracking-wider flex justify-between items-center shadow-inner backdrop-blur-lg',
           role === "assistant" ? "bg-pink-600/80" : "bg-cyan-600/80",
         )}
       >
@@ -189,25 +285,34 @@ function Chat({
           {role === "assistant" && config('name').toUpperCase()}
           {role === "user" && t("YOU")}
         </div>
-        <button
-          className="text-right"
-          onClick={onClickButton}
-        >
-          {role === "user" && (
-            <div className="ml-16 p-1 rounded-full">
-              <ArrowPathIcon className="h-5 w-5 hover:animate-spin text-white" aria-hidden="true" />
-            </div>
-          )}
-        </button>
+        <div className="flex items-center text-white">
+          <BranchSwitcher position={branch} onSwitch={onSwitchBranch} />
+          <button
+            className="text-right"
+            title={role === "assistant" ? t("Regenerate") : t("Send edited message")}
+            onClick={onClickButton}
+          >
+            {(role === "user" || role === "assistant") && (
+              <div className="ml-2 p-1 rounded-full">
+                <ArrowPathIcon className="h-5 w-5 hover:animate-spin text-white" aria-hidden="true" />
+              </div>
+            )}
+          </button>
+        </div>
       </div>
       <div className="px-4 py-2 bg-white/80 backdrop-blur-lg rounded-b-lg shadow-sm">
         <div className='typography-16 font-M_PLUS_2 font-bold text-gray-800'>
           {role === "assistant" ? (
-            <div>{message}</div>
+            <div>
+              <Markdown content={message} />
+              {interrupted && (
+                <span className="text-xs font-normal italic text-gray-500">({t("interrupted")})</span>
+              )}
+            </div>
           ) : (
             <FlexTextarea
-              value={message}
-              // onChange={setTextAreaValue}
+              value={textAreaValue}
+              onChange={setTextAreaValue}
             />
           )}
         </div>
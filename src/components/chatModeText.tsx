@@ -1,11 +1,17 @@
-import { useEffect, useRef, useState } from "react";
+import { useContext, useEffect, useRef, useState } from "react";
 import { clsx } from "clsx";
 import { config } from "@/utils/config";
 import { IconButton } from "./iconButton";
 import { useTranslation } from "react-i18next";
-import { Message } from "@/features/chat/messages";
+import { Message, isChatLogMessage } from "@/features/chat/messages";
+import { stripMarkupTags } from "@/features/chat/inlineMarkup";
+import { ChatContext } from "@/features/chat/chatContext";
+import { SiblingPosition } from "@/features/chat/messageTree";
+import { BranchSwitcher } from "./branchSwitcher";
+import { Markdown } from "./markdown";
 
 export const ChatModeText = ({ messages }: { messages: Message[] }) => {
+    const { chat: bot } = useContext(ChatContext);
     const chatScrollRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
@@ -21,12 +27,17 @@ export const ChatModeText = ({ messages }: { messages: Message[] }) => {
 
                 <div className="w-full max-w-full mx-auto px-4 md:px-16 flex flex-col">
                     {messages.map((msg, i) => {
+                        if (! isChatLogMessage(msg)) {
+                            return null;
+                        }
                         return (
                             <div key={i} ref={messages.length - 1 === i ? chatScrollRef : null}>
                                 <Chat
                                     role={msg.role}
-                                    message={msg.content.replace(/\[(.*?)\]/g, "")}
+                                    message={stripMarkupTags(msg.content)}
                                     num={i}
+                                    branch={bot.branchPosition(i)}
+                                    onSwitchBranch={(offset: number) => bot.switchBranch(i, offset)}
                                 />
                             </div>
                         );
@@ -42,10 +53,14 @@ function Chat({
     role,
     message,
     num,
+    branch,
+    onSwitchBranch,
 }: {
     role: string;
     message: string;
     num: number;
+    branch: SiblingPosition | null;
+    onSwitchBranch: (offset: number) => void;
 }) {
     const { t } = useTranslation();
     const scrollRef = useRef<HTMLDivElement>(null);
@@ -78,6 +93,12 @@ function Chat({
                             {role === "user" && t("YOU")}
                         </span>
 
+                        <BranchSwitcher
+                            position={branch}
+                            onSwitch={onSwitchBranch}
+                            className="ml-4"
+                        />
+
                         {role === "assistant" && (
                             <IconButton
                                 iconName="24/FrameSize"
@@ -94,7 +115,7 @@ function Chat({
                             unlimited ? 'max-h-32' : 'max-h-[calc(75vh)]',
                         )}>
                             <div className="min-h-8 max-h-full typography-16 font-bold text-gray-600">
-                                {message.replace(/\[([a-zA-Z]*?)\]/g, "")}
+                                <Markdown content={message} />
                                 <div ref={scrollRef} />
                             </div>
                         </div>
@@ -102,7 +123,7 @@ function Chat({
                     {role === "user" && (
                         <div className="px-8 py-4 max-h-32 overflow-y-auto">
                             <div className="min-h-8 max-h-full typography-16 font-bold text-gray-600">
-                                {message.replace(/\[([a-zA-Z]*?)\]/g, "")}
+                                {message}
                                 <div ref={scrollRef} />
                             </div>
                         </div>
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useLiveQuery } from "dexie-react-hooks";
+import { clsx } from "clsx";
+import {
+  CheckIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+
+import { Conversation } from "@/features/conversations/conversationDb";
+import {
+  renameConversation,
+  searchConversations,
+} from "@/features/conversations/conversations";
+
+export const ConversationSidebar = ({
+  conversationId,
+  onSelect,
+  onCreate,
+  onDelete,
+  onClose,
+}: {
+  conversationId: number | null;
+  onSelect: (id: number) => void;
+  onCreate: () => void;
+  onDelete: (id: number) => void;
+  onClose: () => void;
+}) => {
+  const { t } = useTranslation();
+  const [search, setSearch] = useState("");
+  const conversations = useLiveQuery(() => searchConversations(search), [search]);
+
+  return (
+    <div className="fixed left-16 top-2 bottom-2 z-20 w-72 max-w-[80vw] flex flex-col rounded-md bg-white/90 shadow-lg backdrop-blur-md">
+      <div className="flex items-center justify-between px-3 pt-3">
+        <h2 className="text-sm font-bold text-gray-800">{t("Conversations")}</h2>
+        <div className="flex items-center space-x-1">
+          <button
+            type="button"
+            title={t("New Conversation")}
+            className="rounded p-1 text-gray-600 hover:bg-gray-100"
+            onClick={onCreate}
+          >
+            <PlusIcon className="h-5 w-5" aria-hidden="true" />
+          </button>
+          <button
+            type="button"
+            title={t("Close")}
+            className="rounded p-1 text-gray-600 hover:bg-gray-100"
+            onClick={onClose}
+          >
+            <XMarkIcon className="h-5 w-5" aria-hidden="true" />
+          </button>
+        </div>
+      </div>
+      <div className="px-3 py-2">
+        <input
+          type="search"
+          className="block w-full rounded-md border-0 py-1.5 px-2 text-sm text-gray-900 ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600"
+          placeholder={t("Search")}
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+        />
+      </div>
+      <ul role="list" className="flex-1 overflow-y-auto divide-y divide-gray-100 px-1 pb-2">
+        {conversations?.map((conversation) => (
+          <ConversationItem
+            key={conversation.id}
+            conversation={conversation}
+            active={conversation.id === conversationId}
+            onSelect={onSelect}
+            onDelete={onDelete}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+function ConversationItem({
+  conversation,
+  active,
+  onSelect,
+  onDelete,
+}: {
+  conversation: Conversation;
+  active: boolean;
+  onSelect: (id: number) => void;
+  onDelete: (id: number) => void;
+}) {
+  const { t } = useTranslation();
+  const [renaming, setRenaming] = useState(false);
+  const [title, setTitle] = useState(conversation.title);
+
+  const submitRename = () => {
+    renameConversation(conversation.id!, title);
+    setRenaming(false);
+  };
+
+  return (
+    <li className={clsx(
+      "group flex items-center justify-between gap-x-2 rounded px-2 py-2",
+      active ? "bg-cyan-100/80" : "hover:bg-gray-100",
+    )}>
+      { renaming ? (
+        <input
+          autoFocus
+          className="min-w-0 flex-1 rounded border-0 px-1 py-0.5 text-sm text-gray-900 ring-1 ring-inset ring-gray-300"
+          value={title}
+          onChange={(event) => setTitle(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") submitRename();
+            if (event.key === "Escape") setRenaming(false);
+          }}
+        />
+      ) : (
+        <button
+          type="button"
+          className="min-w-0 flex-1 text-left"
+          onClick={() => onSelect(conversation.id!)}
+        >
+          <p className="truncate text-sm text-gray-800">{conversation.title}</p>
+          <p className="text-xs text-gray-500">
+            {conversation.character.name} · {new Date(conversation.updatedAt).toLocaleString()}
+          </p>
+        </button>
+      )}
+      <div className="flex flex-none items-center">
+        { renaming ? (
+          <button
+            type="button"
+            title={t("Save")}
+            className="rounded p-1 text-gray-500 hover:text-gray-800"
+            onClick={submitRename}
+          >
+            <CheckIcon className="h-4 w-4" aria-hidden="true" />
+          </button>
+        ) : (
+          <button
+            type="button"
+            title={t("Rename")}
+            className="rounded p-1 text-gray-500 hover:text-gray-800"
+            onClick={() => {
+              setTitle(conversation.title);
+              setRenaming(true);
+            }}
+          >
+            <PencilIcon className="h-4 w-4" aria-hidden="true" />
+          </button>
+        )}
+        <button
+          type="button"
+          title={t("Delete")}
+          className="rounded p-1 text-gray-500 hover:text-rose-600"
+          onClick={() => {
+            if (window.confirm(t("Delete this conversation?"))) {
+              onDelete(conversation.id!);
+            }
+          }}
+        >
+          <TrashIcon className="h-4 w-4" aria-hidden="true" />
+        </button>
+      </div>
+    </li>
+  );
+}
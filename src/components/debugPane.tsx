@@ -3,7 +3,9 @@ import { Switch } from '@headlessui/react'
 import { IconButton } from "@/components/iconButton";
 import { useKeyboardShortcut } from "@/hooks/useKeyboardShortcut";
 import { clsx } from "clsx";
+import { useLiveQuery } from "dexie-react-hooks";
 import { config } from "@/utils/config";
+import { getAudioCacheStats } from "@/features/tts/audioCache";
 
 const TOTAL_ITEMS_TO_SHOW = 100;
 
@@ -45,6 +47,8 @@ export function DebugPane({ onClickClose }: {
   const [typeWarnEnabled, setTypeWarnEnabled] = useState(true);
   const [typeErrorEnabled, setTypeErrorEnabled] = useState(true);
 
+  const audioCacheStats = useLiveQuery(() => getAudioCacheStats(), []);
+
   const scrollRef = useRef<HTMLDivElement>(null);
 
   useKeyboardShortcut("Escape", onClickClose);
@@ -78,6 +82,9 @@ export function DebugPane({ onClickClose }: {
           <div className="inline-block ml-2 items-center">
             <span className="px-1"><span className="text-xs text-gray-500">llm: </span><span className="text-xs text-gray-400">{config("chatbot_backend")}</span></span>
             <span className="px-1"><span className="text-xs text-gray-500">tts: </span><span className="text-xs text-gray-400">{config("tts_backend")}</span></span>
+            { audioCacheStats && (
+              <span className="px-1"><span className="text-xs text-gray-500">tts cache: </span><span className="text-xs text-gray-400">{audioCacheStats.entries} lines, {(audioCacheStats.size / 1024 / 1024).toFixed(1)} MB, {audioCacheStats.hits} hits, {audioCacheStats.misses} misses</span></span>
+            )}
             <span className="px-1"><span className="text-xs text-gray-500">stt: </span><span className="text-xs text-gray-400">{config("stt_backend")}</span></span>
             <span className="px-1"><span className="text-xs text-gray-500">bid: </span><span className="text-xs text-gray-400">{process.env.NEXT_PUBLIC_CONFIG_BUILD_ID}</span></span>
           </div>
@@ -0,0 +1,69 @@
+import { ComponentProps, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { clsx } from "clsx";
+import ReactMarkdown, { ExtraProps } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import { CheckIcon, ClipboardDocumentIcon } from "@heroicons/react/24/outline";
+
+function CodeBlock({ node, children, ...props }: ComponentProps<"pre"> & ExtraProps) {
+  const { t } = useTranslation();
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? "");
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error("copy failed", e);
+    }
+  }
+
+  return (
+    <div className="relative group">
+      <pre ref={preRef} {...props}>{children}</pre>
+      <button
+        type="button"
+        className="absolute right-2 top-2 rounded p-1 text-gray-300 bg-gray-700/80 opacity-0 group-hover:opacity-100 hover:text-white"
+        title={t("Copy")}
+        onClick={copy}
+      >
+        {copied ? (
+          <CheckIcon className="h-4 w-4" aria-hidden="true" />
+        ) : (
+          <ClipboardDocumentIcon className="h-4 w-4" aria-hidden="true" />
+        )}
+      </button>
+    </div>
+  );
+}
+
+function Link({ node, ...props }: ComponentProps<"a"> & ExtraProps) {
+  return <a {...props} target="_blank" rel="noopener noreferrer" />;
+}
+
+// Renders a chat message as Markdown with tables, highlighted code and KaTeX
+// math. Raw HTML is shown as text and unsafe link protocols are dropped.
+export function Markdown({
+  content,
+  className,
+}: {
+  content: string;
+  className?: string;
+}) {
+  return (
+    <div className={clsx("markdown", className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeKatex, [rehypeHighlight, { detect: true }]]}
+        components={{ pre: CodeBlock, a: Link }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
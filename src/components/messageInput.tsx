@@ -40,6 +40,8 @@ export default function MessageInput({
     onSpeechStart: () => {
       console.debug('vad', 'on_speech_start');
       console.time('performance_speech');
+      // talking over the character stops it
+      bot.bargeIn();
     },
     onSpeechEnd: (audio: Float32Array) => {
       console.debug('vad', 'on_speech_end');
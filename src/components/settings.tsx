@@ -22,7 +22,8 @@ import { ViewerContext } from "@/features/vrmViewer/viewerContext";
 import { config, updateConfig } from "@/utils/config";
 
 
-import { Link } from "./settings/common";
+import { Link, chatBackendFromPage, ttsBackendFromPage } from "./settings/common";
+import { backendSettingsPage } from "./settings/backendSettingsPages";
 
 import { MenuPage } from './settings/MenuPage';
 import { ResetSettingsPage } from './settings/ResetSettingsPage';
@@ -35,20 +36,11 @@ import { CharacterModelPage } from './settings/CharacterModelPage';
 import { CharacterAnimationPage } from './settings/CharacterAnimationPage';
 
 import { ChatbotBackendPage } from './settings/ChatbotBackendPage';
-import { ChatGPTSettingsPage } from './settings/ChatGPTSettingsPage';
-import { LlamaCppSettingsPage } from './settings/LlamaCppSettingsPage';
-import { OllamaSettingsPage } from './settings/OllamaSettingsPage';
-import { KoboldAiSettingsPage } from './settings/KoboldAiSettingsPage';
 
 import { TTSBackendPage } from './settings/TTSBackendPage';
-import { ElevenLabsSettingsPage } from './settings/ElevenLabsSettingsPage';
-import { SpeechT5SettingsPage } from './settings/SpeechT5SettingsPage';
-import { OpenAITTSSettingsPage } from './settings/OpenAITTSSettingsPage';
-import { PiperSettingsPage } from './settings/PiperSettingsPage';
-import { CoquiLocalSettingsPage } from './settings/CoquiLocalSettingsPage';
-import { LocalXTTSSettingsPage } from "./settings/LocalXTTSSettingsPage";
 
 import { RVCSettingsPage } from './settings/RVCSettingsPage';
+import { TTSProsodyPage } from './settings/TTSProsodyPage';
 
 import { STTBackendPage } from './settings/STTBackendPage';
 import { STTWakeWordSettingsPage } from './settings/STTWakeWordSettingsPage';
@@ -61,10 +53,13 @@ import { VisionLlamaCppSettingsPage } from './settings/VisionLlamaCppSettingsPag
 import { VisionOllamaSettingsPage } from './settings/VisionOllamaSettingsPage';
 import { VisionSystemPromptPage } from './settings/VisionSystemPromptPage';
 
+import { MemoryPage } from './settings/MemoryPage';
 import { NamePage } from './settings/NamePage';
 import { SystemPromptPage } from './settings/SystemPromptPage';
 import { AmicaLifePage } from "./settings/AmicaLifePage";
 import { useVrmStoreContext } from "@/features/vrmStore/vrmStoreContext";
+import { getChatBackends } from "@/features/chat/chatBackend";
+import { getTTSBackends } from "@/features/tts/ttsBackend";
 
 export const Settings = ({
   onClickClose,
@@ -81,29 +76,10 @@ export const Settings = ({
   const [settingsUpdated, setSettingsUpdated] = useState(false);
 
   const [chatbotBackend, setChatbotBackend] = useState(config("chatbot_backend"));
-  const [openAIApiKey, setOpenAIApiKey] = useState(config("openai_apikey"));
-  const [openAIUrl, setOpenAIUrl] = useState(config("openai_url"));
-  const [openAIModel, setOpenAIModel] = useState(config("openai_model"));
-  const [llamaCppUrl, setLlamaCppUrl] = useState(config("llamacpp_url"));
-  const [llamaCppStopSequence, setLlamaCppStopSequence] = useState(config("llamacpp_stop_sequence"));
-  const [ollamaUrl, setOllamaUrl] = useState(config("ollama_url"));
-  const [ollamaModel, setOllamaModel] = useState(config("ollama_model"));
-  const [koboldAiUrl, setKoboldAiUrl] = useState(config("koboldai_url"));
-  const [koboldAiUseExtra, setKoboldAiUseExtra] = useState<boolean>(config("koboldai_use_extra") === 'true' ? true : false);
-  const [koboldAiStopSequence, setKoboldAiStopSequence] = useState(config("koboldai_stop_sequence"));
+  // chatbot and tts backend settings pages keep their own state, this is bumped when they save
+  const [backendSettingsRevision, setBackendSettingsRevision] = useState(0);
 
   const [ttsBackend, setTTSBackend] = useState(config("tts_backend"));
-  const [elevenlabsApiKey, setElevenlabsApiKey] = useState(config("elevenlabs_apikey"));
-  const [elevenlabsVoiceId, setElevenlabsVoiceId] = useState(config("elevenlabs_voiceid"));
-
-  const [speechT5SpeakerEmbeddingsUrl, setSpeechT5SpeakerEmbeddingsUrl] = useState(config("speecht5_speaker_embedding_url"));
-
-  const [openAITTSApiKey, setOpenAITTSApiKey] = useState(config("openai_tts_apikey"));
-  const [openAITTSUrl, setOpenAITTSUrl] = useState(config("openai_tts_url"));
-  const [openAITTSModel, setOpenAITTSModel] = useState(config("openai_tts_model"));
-  const [openAITTSVoice, setOpenAITTSVoice] = useState(config("openai_tts_voice"));
-
-  const [piperUrl, setPiperUrl] = useState(config("piper_url"));
 
   const [rvcUrl, setRvcUrl] = useState(config("rvc_url"));
   const [rvcEnabled, setRvcEnabled] = useState<boolean>(config("rvc_enabled") === 'true' ? true : false);
@@ -117,11 +93,6 @@ export const Settings = ({
   const [rvcRmsMixRate, setRvcRmsMixRate] = useState<number>(parseInt(config("rvc_rms_mix_rate")));
   const [rvcProtect, setRvcProtect] = useState<number>(parseInt(config("rvc_protect")));
 
-  const [coquiLocalUrl, setCoquiLocalUrl] = useState(config("coquiLocal_url"));
-  const [coquiLocalVoiceId, setCoquiLocalVoiceId] = useState(config("coquiLocal_voiceid"));
-
-  const [localXTTSUrl, setLocalXTTSUrl] = useState(config("localXTTS_url"));
-
   const [visionBackend, setVisionBackend] = useState(config("vision_backend"));
   const [visionLlamaCppUrl, setVisionLlamaCppUrl] = useState(config("vision_llamacpp_url"));
   const [visionOllamaUrl, setVisionOllamaUrl] = useState(config("vision_ollama_url"));
@@ -236,19 +207,9 @@ export const Settings = ({
     }, 1000);
     return () => clearTimeout(timeOutId);
   }, [
-    chatbotBackend,
-    openAIApiKey, openAIUrl, openAIModel,
-    llamaCppUrl, llamaCppStopSequence,
-    ollamaUrl, ollamaModel,
-    koboldAiUrl, koboldAiUseExtra, koboldAiStopSequence,
+    chatbotBackend, backendSettingsRevision,
     ttsBackend,
-    elevenlabsApiKey, elevenlabsVoiceId,
-    speechT5SpeakerEmbeddingsUrl,
-    openAITTSApiKey, openAITTSUrl, openAITTSModel, openAITTSVoice,
-    piperUrl,
     rvcUrl,rvcEnabled,rvcModelName,rvcIndexPath,rvcF0upKey,rvcF0Method,rvcIndexRate,rvcFilterRadius,,rvcResampleSr,rvcRmsMixRate,rvcProtect,
-    coquiLocalUrl,coquiLocalVoiceId,
-    localXTTSUrl,
     visionBackend,
     visionLlamaCppUrl,
     visionOllamaUrl, visionOllamaModel,
@@ -265,6 +226,11 @@ export const Settings = ({
   ]);
 
 
+  function handleBackendSettingsUpdated(updated: boolean) {
+    setSettingsUpdated(updated);
+    setBackendSettingsRevision((revision) => revision + 1);
+  }
+
   function handleMenuClick(link: Link) {
     setPage(link.key)
     setBreadcrumbs([...breadcrumbs, link]);
@@ -284,12 +250,24 @@ export const Settings = ({
 
     case 'chatbot':
       return <MenuPage
-        keys={["chatbot_backend", "name", "system_prompt", "chatgpt_settings", "llamacpp_settings", "ollama_settings", "koboldai_settings"]}
+        keys={[
+          "chatbot_backend", "name", "system_prompt", "memory",
+          ...getChatBackends()
+            .filter((backend) => backend.settingsPage)
+            .map((backend) => `${backend.id}_settings`),
+        ]}
         menuClick={handleMenuClick} />;
 
     case 'tts':
       return <MenuPage
-        keys={["tts_backend", "elevenlabs_settings", "speecht5_settings", "coquiLocal_settings", "openai_tts_settings", "piper_settings", "localXTTS_settings", "rvc_settings"]}
+        keys={[
+          "tts_backend",
+          "tts_prosody",
+          ...getTTSBackends()
+            .filter((backend) => backend.settingsPage)
+            .map((backend) => `${backend.id}_settings`),
+          "rvc_settings",
+        ]}
         menuClick={handleMenuClick} />;
 
     case 'stt':
@@ -362,46 +340,6 @@ export const Settings = ({
         setBreadcrumbs={setBreadcrumbs}
         />
 
-    case 'chatgpt_settings':
-      return <ChatGPTSettingsPage
-        openAIApiKey={openAIApiKey}
-        setOpenAIApiKey={setOpenAIApiKey}
-        openAIUrl={openAIUrl}
-        setOpenAIUrl={setOpenAIUrl}
-        openAIModel={openAIModel}
-        setOpenAIModel={setOpenAIModel}
-        setSettingsUpdated={setSettingsUpdated}
-        />
-
-    case 'llamacpp_settings':
-      return <LlamaCppSettingsPage
-        llamaCppUrl={llamaCppUrl}
-        setLlamaCppUrl={setLlamaCppUrl}
-        llamaCppStopSequence={llamaCppStopSequence}
-        setLlamaCppStopSequence={setLlamaCppStopSequence}
-        setSettingsUpdated={setSettingsUpdated}
-        />
-
-    case 'ollama_settings':
-      return <OllamaSettingsPage
-        ollamaUrl={ollamaUrl}
-        setOllamaUrl={setOllamaUrl}
-        ollamaModel={ollamaModel}
-        setOllamaModel={setOllamaModel}
-        setSettingsUpdated={setSettingsUpdated}
-        />
-
-    case 'koboldai_settings':
-      return <KoboldAiSettingsPage
-        koboldAiUrl={koboldAiUrl}
-        setKoboldAiUrl={setKoboldAiUrl}
-        koboldAiUseExtra={koboldAiUseExtra}
-        setKoboldAiUseExtra={setKoboldAiUseExtra}
-        koboldAiStopSequence={koboldAiStopSequence}
-        setKoboldAiStopSequence={setKoboldAiStopSequence}
-        setSettingsUpdated={setSettingsUpdated}
-        />
-
     case 'tts_backend':
       return <TTSBackendPage
         ttsBackend={ttsBackend}
@@ -412,55 +350,9 @@ export const Settings = ({
         setBreadcrumbs={setBreadcrumbs}
         />
 
-    case 'elevenlabs_settings':
-      return <ElevenLabsSettingsPage
-        elevenlabsApiKey={elevenlabsApiKey}
-        setElevenlabsApiKey={setElevenlabsApiKey}
-        elevenlabsVoiceId={elevenlabsVoiceId}
-        setElevenlabsVoiceId={setElevenlabsVoiceId}
-        setSettingsUpdated={setSettingsUpdated}
-        />
-
-    case 'speecht5_settings':
-      return <SpeechT5SettingsPage
-        speechT5SpeakerEmbeddingsUrl={speechT5SpeakerEmbeddingsUrl}
-        setSpeechT5SpeakerEmbeddingsUrl={setSpeechT5SpeakerEmbeddingsUrl}
-        setSettingsUpdated={setSettingsUpdated}
-        />
-
-    case 'openai_tts_settings':
-      return <OpenAITTSSettingsPage
-        openAITTSApiKey={openAITTSApiKey}
-        setOpenAITTSApiKey={setOpenAITTSApiKey}
-        openAITTSUrl={openAITTSUrl}
-        setOpenAITTSUrl={setOpenAITTSUrl}
-        openAITTSModel={openAITTSModel}
-        setOpenAITTSModel={setOpenAITTSModel}
-        openAITTSVoice={openAITTSVoice}
-        setOpenAITTSVoice={setOpenAITTSVoice}
-        setSettingsUpdated={setSettingsUpdated}
-        />
-
-    case 'piper_settings':
-      return <PiperSettingsPage
-        piperUrl={piperUrl}
-        setPiperUrl={setPiperUrl}
-        setSettingsUpdated={setSettingsUpdated}
-        />
-    
-    case 'coquiLocal_settings':
-      return <CoquiLocalSettingsPage
-        coquiLocalUrl={coquiLocalUrl}
-        coquiLocalVoiceId={coquiLocalVoiceId}
-        setCoquiLocalVoiceId={setCoquiLocalVoiceId}
-        setCoquiLocalUrl={setCoquiLocalUrl}
-        setSettingsUpdated={setSettingsUpdated}
-        />
-
-    case 'localXTTS_settings':
-      return <LocalXTTSSettingsPage
-        localXTTSUrl={localXTTSUrl}
-        setLocalXTTSUrl={setLocalXTTSUrl}
+    case 'tts_prosody':
+      return <TTSProsodyPage
+        ttsBackend={ttsBackend}
         setSettingsUpdated={setSettingsUpdated}
         />
 
@@ -570,6 +462,11 @@ export const Settings = ({
         setSettingsUpdated={setSettingsUpdated}
         />
 
+    case 'memory':
+      return <MemoryPage
+        setSettingsUpdated={setSettingsUpdated}
+        />
+
     case 'name':
       return <NamePage
         name={name}
@@ -594,9 +491,18 @@ export const Settings = ({
         setSettingsUpdated={setSettingsUpdated}
         />
 
-    default:
+    default: {
+      const loadSettingsPage = (chatBackendFromPage(page) ?? ttsBackendFromPage(page))?.settingsPage;
+      const BackendSettingsPage = loadSettingsPage && backendSettingsPage(loadSettingsPage);
+      if (BackendSettingsPage) {
+        return <BackendSettingsPage
+          setSettingsUpdated={handleBackendSettingsUpdated}
+          />
+      }
+
       throw new Error('page not found');
     }
+    }
   }
 
   return (
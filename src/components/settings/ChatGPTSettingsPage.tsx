@@ -1,26 +1,22 @@
+import { useState } from 'react';
+
 import { BasicPage, FormRow, NotUsingAlert } from './common';
+import type { ChatBackendSettingsPageProps } from "@/features/chat/chatBackend";
+import { ConnectionTest } from "./ConnectionTest";
 import { TextInput } from '@/components/textInput';
 import { SecretTextInput } from '@/components/secretTextInput';
 import { config, updateConfig } from "@/utils/config";
+import { openAiGenerationParams, probeOpenAi } from "@/features/chat/openAiChat";
+import { GenerationParamsSettings } from "./GenerationParamsSettings";
 
 
 export function ChatGPTSettingsPage({
-  openAIApiKey,
-  setOpenAIApiKey,
-  openAIUrl,
-  setOpenAIUrl,
-  openAIModel,
-  setOpenAIModel,
   setSettingsUpdated,
-}: {
-  openAIApiKey: string;
-  setOpenAIApiKey: (key: string) => void;
-  openAIUrl: string;
-  setOpenAIUrl: (url: string) => void;
-  openAIModel: string;
-  setOpenAIModel: (model: string) => void;
-  setSettingsUpdated: (updated: boolean) => void;
-}) {
+}: ChatBackendSettingsPageProps) {
+  const [openAIApiKey, setOpenAIApiKey] = useState(config("openai_apikey"));
+  const [openAIUrl, setOpenAIUrl] = useState(config("openai_url"));
+  const [openAIModel, setOpenAIModel] = useState(config("openai_model"));
+
   const description = <>Configure ChatGPT settings. You can get an API key from <a href="https://platform.openai.com">platform.openai.com</a>. You can generally use other OpenAI compatible URLs and models here too, such as <a href="https://openrouter.ai/">OpenRouter</a> or <a href="https://lmstudio.ai/">LM Studio</a>.</>;
 
   return (
@@ -70,6 +66,20 @@ export function ChatGPTSettingsPage({
             />
           </FormRow>
         </li>
+        <ConnectionTest
+          probe={probeOpenAi}
+          model={openAIModel}
+          onSelectModel={(model: string) => {
+            setOpenAIModel(model);
+            updateConfig("openai_model", model);
+            setSettingsUpdated(true);
+          }}
+        />
+        <GenerationParamsSettings
+          prefix="openai"
+          params={openAiGenerationParams}
+          setSettingsUpdated={setSettingsUpdated}
+        />
       </ul>
     </BasicPage>
   );
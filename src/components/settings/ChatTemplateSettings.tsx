@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { FormRow } from "./common";
+import { config, updateConfig } from "@/utils/config";
+import { Message } from "@/features/chat/messages";
+import {
+  buildPrompt,
+  chatTemplates,
+  getChatTemplate,
+  templateStopSequences,
+} from "@/utils/buildPrompt";
+
+const previewMessages: Message[] = [
+  { role: "system", content: "You are a friendly assistant." },
+  { role: "user", content: "Hello!" },
+  { role: "assistant", content: "[happy] Hi, nice to meet you." },
+  { role: "user", content: "How are you?" },
+];
+
+function renderPreview(prefix: string) {
+  try {
+    const template = getChatTemplate(prefix);
+    return {
+      prompt: buildPrompt(previewMessages, template),
+      stop: templateStopSequences(template),
+    };
+  } catch (e: any) {
+    return { error: e.message };
+  }
+}
+
+// Prompt format selection with a preview, for completion style backends
+export function ChatTemplateSettings({
+  prefix,
+  setSettingsUpdated,
+}: {
+  prefix: string;
+  setSettingsUpdated: (updated: boolean) => void;
+}) {
+  const { t } = useTranslation();
+  const [templateId, setTemplateId] = useState(config(`${prefix}_chat_template`));
+  const [customTemplate, setCustomTemplate] = useState(config(`${prefix}_custom_template`));
+
+  // recomputed on each render, the template state above triggers it
+  const preview = renderPreview(prefix);
+
+  return (
+    <>
+      <li className="py-4">
+        <FormRow label={t("Chat Template")}>
+          <select
+            className="mt-2 block w-full rounded-md border-0 py-1.5 pl-3 pr-10 text-gray-900 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-indigo-600 sm:text-sm sm:leading-6"
+            value={templateId}
+            onChange={(event: React.ChangeEvent<any>) => {
+              setTemplateId(event.target.value);
+              updateConfig(`${prefix}_chat_template`, event.target.value);
+              setSettingsUpdated(true);
+            }}
+          >
+            {Object.entries(chatTemplates).map(([id, template]) => (
+              <option key={id} value={id}>{template.label}</option>
+            ))}
+            <option value="custom">{t("Custom")}</option>
+          </select>
+        </FormRow>
+      </li>
+      { templateId === "custom" && (
+        <li className="py-4">
+          <FormRow label={t("Custom Template")}>
+            <textarea
+              value={customTemplate}
+              rows={8}
+              className="block w-full rounded-md border-0 py-1.5 font-mono text-xs text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600"
+              placeholder={chatTemplates.chatml.template}
+              onChange={(event: React.ChangeEvent<any>) => {
+                setCustomTemplate(event.target.value);
+                updateConfig(`${prefix}_custom_template`, event.target.value);
+                setSettingsUpdated(true);
+              }}
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              {t("custom_template_desc", "Jinja-like syntax. Available are system, messages (with role and content), name, loop.first and loop.last. Add the stop sequences below.")}
+            </p>
+          </FormRow>
+        </li>
+      )}
+      <li className="py-4">
+        <FormRow label={t("Prompt Preview")}>
+          { preview.error ? (
+            <p className="text-xs text-rose-600 break-words">{preview.error}</p>
+          ) : (
+            <>
+              <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words rounded-md bg-gray-50 p-2 text-xs text-gray-800 ring-1 ring-inset ring-gray-200">{preview.prompt}</pre>
+              { preview.stop!.length > 0 && (
+                <p className="text-xs text-gray-500 mt-2 break-words">
+                  {t("Stop sequences")}: {preview.stop!.map((stop) => JSON.stringify(stop)).join(", ")}
+                </p>
+              )}
+            </>
+          )}
+        </FormRow>
+      </li>
+    </>
+  );
+}
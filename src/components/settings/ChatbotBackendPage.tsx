@@ -2,21 +2,10 @@ import { useTranslation } from 'react-i18next';
 import { useEffect, useState } from 'react';
 import { getWindowAI } from "window.ai";
 import { BasicPage, Link, FormRow, getLinkFromPage } from './common';
-import { updateConfig } from "@/utils/config";
-import { isTauri } from "@/utils/isTauri";
-
-const chatbotBackends = [
-  {key: "echo",       label: "Echo"},
-  {key: "chatgpt",    label: "ChatGPT"},
-  {key: "llamacpp",   label: "LLama.cpp"},
-  ...isTauri() ? [] : [{key: "windowai", label: "Window.ai"}], // Hides Window.ai when using the desktop app
-  {key: "ollama",     label: "Ollama"},
-  {key: "koboldai",   label: "KoboldAI"},
-];
-
-function idToTitle(id: string): string {
-  return chatbotBackends[chatbotBackends.findIndex((engine) => engine.key === id)].label;
-}
+import { TextInput } from "@/components/textInput";
+import { SwitchBox } from "@/components/switchBox";
+import { config, updateConfig } from "@/utils/config";
+import { getChatBackend, getChatBackends } from "@/features/chat/chatBackend";
 
 export function ChatbotBackendPage({
   chatbotBackend,
@@ -34,7 +23,16 @@ export function ChatbotBackendPage({
   setBreadcrumbs: (breadcrumbs: Link[]) => void;
 }) {
   const { t } = useTranslation();
+  const currentBackend = getChatBackend(chatbotBackend);
   const [windowAiDetected, setWindowAiDetected] = useState(false);
+  const [fallbackBackends, setFallbackBackends] = useState(config("chatbot_fallback_backends"));
+  const [firstTokenTimeout, setFirstTokenTimeout] = useState(config("chatbot_first_token_timeout"));
+  const [contextTokenBudget, setContextTokenBudget] = useState(config("context_token_budget"));
+  const [contextKeepTurns, setContextKeepTurns] = useState(config("context_keep_turns"));
+  const [summarizationEnabled, setSummarizationEnabled] = useState(config("summarization_enabled") === 'true');
+  const [summarizationThreshold, setSummarizationThreshold] = useState(config("summarization_threshold"));
+  const [toolCallingEnabled, setToolCallingEnabled] = useState(config("tool_calling_enabled") === 'true');
+  const [streamingTextEnabled, setStreamingTextEnabled] = useState(config("streaming_text_enabled") === 'true');
 
   useEffect(() => {
     (async () => {
@@ -66,15 +64,15 @@ export function ChatbotBackendPage({
                 setSettingsUpdated(true);
               }}
             >
-              {chatbotBackends.map((engine) => (
-                <option key={engine.key} value={engine.key}>{t(engine.label)}</option>
+              {getChatBackends().map((backend) => (
+                <option key={backend.id} value={backend.id}>{t(backend.label)}</option>
               ))}
             </select>
           </FormRow>
         </li>
-        { ["chatgpt", "llamacpp", "ollama", "koboldai"].includes(chatbotBackend) && (
+        { currentBackend?.settingsPage && (
           <li className="py-4">
-            <FormRow label={`${t("Configure")} ${t(idToTitle(chatbotBackend))}`}>
+            <FormRow label={`${t("Configure")} ${t(currentBackend.label)}`}>
               <button
                 type="button"
                 className="rounded bg-indigo-600 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
@@ -83,11 +81,121 @@ export function ChatbotBackendPage({
                   setBreadcrumbs(breadcrumbs.concat([getLinkFromPage(`${chatbotBackend}_settings`)]));
                 }}
               >
-                {t("Click here to configure")} {t(idToTitle(chatbotBackend))}
+                {t("Click here to configure")} {t(currentBackend.label)}
               </button>
             </FormRow>
           </li>
         )}
+        <li className="py-4">
+          <FormRow label={t("Fallback Backends")}>
+            <TextInput
+              value={fallbackBackends}
+              onChange={(event: React.ChangeEvent<any>) => {
+                setFallbackBackends(event.target.value);
+                updateConfig("chatbot_fallback_backends", event.target.value);
+                setSettingsUpdated(true);
+              }}
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              {t("fallback_backends_desc", "Comma separated backends tried in order when the chatbot backend fails, for example: ollama,chatgpt")}
+            </p>
+          </FormRow>
+        </li>
+        <li className="py-4">
+          <FormRow label={t("First Token Timeout (ms)")}>
+            <TextInput
+              value={firstTokenTimeout}
+              onChange={(event: React.ChangeEvent<any>) => {
+                setFirstTokenTimeout(event.target.value);
+                updateConfig("chatbot_first_token_timeout", event.target.value);
+                setSettingsUpdated(true);
+              }}
+            />
+          </FormRow>
+        </li>
+        <li className="py-4">
+          <FormRow label={t("Context Token Budget")}>
+            <TextInput
+              value={contextTokenBudget}
+              onChange={(event: React.ChangeEvent<any>) => {
+                setContextTokenBudget(event.target.value);
+                updateConfig("context_token_budget", event.target.value);
+                setSettingsUpdated(true);
+              }}
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              {t("context_token_budget_desc", "Oldest messages are left out once the conversation exceeds this many tokens. Leave empty to use the default for the chatbot backend ({{tokens}}).", {tokens: currentBackend?.contextWindow ?? 4096})}
+            </p>
+          </FormRow>
+        </li>
+        <li className="py-4">
+          <FormRow label={t("Always Keep Last Turns")}>
+            <TextInput
+              value={contextKeepTurns}
+              onChange={(event: React.ChangeEvent<any>) => {
+                setContextKeepTurns(event.target.value);
+                updateConfig("context_keep_turns", event.target.value);
+                setSettingsUpdated(true);
+              }}
+            />
+          </FormRow>
+        </li>
+        <li className="py-4">
+          <FormRow label={t("Summarize Old Messages")}>
+            <SwitchBox
+              value={summarizationEnabled}
+              label={t("Keep a summary of the conversation as memory")}
+              onChange={(value: boolean) => {
+                setSummarizationEnabled(value);
+                updateConfig("summarization_enabled", value.toString());
+                setSettingsUpdated(true);
+              }}
+            />
+          </FormRow>
+        </li>
+        { summarizationEnabled && (
+          <li className="py-4">
+            <FormRow label={t("Summarize After Messages")}>
+              <TextInput
+                value={summarizationThreshold}
+                onChange={(event: React.ChangeEvent<any>) => {
+                  setSummarizationThreshold(event.target.value);
+                  updateConfig("summarization_threshold", event.target.value);
+                  setSettingsUpdated(true);
+                }}
+              />
+            </FormRow>
+          </li>
+        )}
+        <li className="py-4">
+          <FormRow label={t("Tool Calling")}>
+            <SwitchBox
+              value={toolCallingEnabled}
+              label={t("Let the chatbot use plugins such as news")}
+              onChange={(value: boolean) => {
+                setToolCallingEnabled(value);
+                updateConfig("tool_calling_enabled", value.toString());
+                setSettingsUpdated(true);
+              }}
+            />
+          </FormRow>
+        </li>
+        <li className="py-4">
+          <FormRow label={t("Stream Text")}>
+            <SwitchBox
+              value={streamingTextEnabled}
+              label={t("Show replies as they are generated")}
+              onChange={(value: boolean) => {
+                setStreamingTextEnabled(value);
+                updateConfig("streaming_text_enabled", value.toString());
+                setSettingsUpdated(true);
+              }}
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              {t("streaming_text_desc", "Text appears before it is spoken, the sentence being spoken is highlighted.")}
+            </p>
+          </FormRow>
+        </li>
         { chatbotBackend === 'windowai' && ! windowAiDetected && (
           <li className="py-4">
             <FormRow label="Window.ai not found">
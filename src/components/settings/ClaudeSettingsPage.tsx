@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { BasicPage, FormRow, NotUsingAlert } from './common';
+import type { ChatBackendSettingsPageProps } from "@/features/chat/chatBackend";
+import { ConnectionTest } from "./ConnectionTest";
+import { TextInput } from '@/components/textInput';
+import { SecretTextInput } from '@/components/secretTextInput';
+import { config, updateConfig } from "@/utils/config";
+import { claudeGenerationParams, probeClaude } from "@/features/chat/claudeChat";
+import { GenerationParamsSettings } from "./GenerationParamsSettings";
+
+export function ClaudeSettingsPage({
+  setSettingsUpdated,
+}: ChatBackendSettingsPageProps) {
+  const { t } = useTranslation();
+  const [claudeApiKey, setClaudeApiKey] = useState(config("claude_apikey"));
+  const [claudeUrl, setClaudeUrl] = useState(config("claude_url"));
+  const [claudeModel, setClaudeModel] = useState(config("claude_model"));
+
+  const description = <>{t("claude_desc", "Configure Claude settings. You can get an API key from")} <a href="https://console.anthropic.com">console.anthropic.com</a>. {t("claude_compatible_desc", "Any gateway that speaks the Anthropic Messages API can be used by changing the URL.")}</>;
+
+  return (
+    <BasicPage
+      title={t("Claude") + " " + t("Settings")}
+      description={description}
+    >
+      { config("chatbot_backend") !== "claude" && (
+        <NotUsingAlert>
+          {t("not_using_alert", "You are not currently using {{name}} as your {{what}} backend. These settings will not be used.", {name: t("Claude"), what: t("ChatBot")})}
+        </NotUsingAlert>
+      ) }
+      <ul role="list" className="divide-y divide-gray-100 max-w-xs">
+        <li className="py-4">
+          <FormRow label={t("API Key")}>
+            <SecretTextInput
+              value={claudeApiKey}
+              onChange={(event: React.ChangeEvent<any>) => {
+                setClaudeApiKey(event.target.value);
+                updateConfig("claude_apikey", event.target.value);
+                setSettingsUpdated(true);
+              }}
+            />
+          </FormRow>
+        </li>
+        <li className="py-4">
+          <FormRow label={t("API URL")}>
+            <TextInput
+              value={claudeUrl}
+              onChange={(event: React.ChangeEvent<any>) => {
+                setClaudeUrl(event.target.value);
+                updateConfig("claude_url", event.target.value);
+                setSettingsUpdated(true);
+              }}
+            />
+          </FormRow>
+        </li>
+        <li className="py-4">
+          <FormRow label={t("Model")}>
+            <TextInput
+              value={claudeModel}
+              onChange={(event: React.ChangeEvent<any>) => {
+                setClaudeModel(event.target.value);
+                updateConfig("claude_model", event.target.value);
+                setSettingsUpdated(true);
+              }}
+            />
+          </FormRow>
+        </li>
+        <ConnectionTest
+          probe={probeClaude}
+          model={claudeModel}
+          onSelectModel={(model: string) => {
+            setClaudeModel(model);
+            updateConfig("claude_model", model);
+            setSettingsUpdated(true);
+          }}
+        />
+        <GenerationParamsSettings
+          prefix="claude"
+          params={claudeGenerationParams}
+          setSettingsUpdated={setSettingsUpdated}
+        />
+      </ul>
+    </BasicPage>
+  );
+}
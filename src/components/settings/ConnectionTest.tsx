@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { FormRow } from "./common";
+import { ProbeInfo, ProbeResult, probeBackend } from "@/utils/probeBackend";
+
+// "Test connection" row, with a dropdown of the models the server lists when
+// onSelectModel is given
+export function ConnectionTest({
+  probe,
+  model,
+  onSelectModel,
+  modelLabel,
+}: {
+  probe: () => Promise<ProbeInfo>;
+  model?: string;
+  onSelectModel?: (model: string) => void;
+  modelLabel?: string;
+}) {
+  const { t } = useTranslation();
+  const [testing, setTesting] = useState(false);
+  const [result, setResult] = useState<ProbeResult | null>(null);
+
+  async function testConnection() {
+    setTesting(true);
+    setResult(await probeBackend(probe));
+    setTesting(false);
+  }
+
+  const models = result?.models ?? [];
+
+  return (
+    <>
+      <li className="py-4">
+        <FormRow label={t("Connection")}>
+          <button
+            className="rounded bg-indigo-600 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600 disabled:opacity-50"
+            disabled={testing}
+            onClick={testConnection}
+          >
+            {testing ? t("Testing...") : t("Test connection")}
+          </button>
+          { result && result.ok && (
+            <p className="text-xs text-green-700 mt-2">
+              {t("Connected")} ({result.latency} ms)
+              {result.capabilities.length > 0 && ` · ${result.capabilities.join(" · ")}`}
+            </p>
+          )}
+          { result && ! result.ok && (
+            <p className="text-xs text-rose-600 mt-2 break-words">
+              {t("Connection failed")} ({result.latency} ms): {result.error}
+            </p>
+          )}
+        </FormRow>
+      </li>
+      { onSelectModel && models.length > 0 && (
+        <li className="py-4">
+          <FormRow label={modelLabel ?? t("Available Models")}>
+            <select
+              className="mt-2 block w-full rounded-md border-0 py-1.5 pl-3 pr-10 text-gray-900 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-indigo-600 sm:text-sm sm:leading-6"
+              value={models.includes(model ?? "") ? model : ""}
+              onChange={(event: React.ChangeEvent<any>) => onSelectModel(event.target.value)}
+            >
+              { ! models.includes(model ?? "") && (
+                <option value="" disabled>{t("Select")}</option>
+              )}
+              {models.map((id) => (
+                <option key={id} value={id}>{result?.modelNames[id] ?? id}</option>
+              ))}
+            </select>
+          </FormRow>
+        </li>
+      )}
+    </>
+  );
+}
@@ -1,39 +1,20 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { BasicPage, FormRow, NotUsingAlert } from './common';
+import type { TTSBackendSettingsPageProps } from "@/features/tts/ttsBackend";
+import { ConnectionTest } from "./ConnectionTest";
 import { TextInput } from "@/components/textInput";
 import { config, updateConfig } from "@/utils/config";
-import { coquiLocalVoiceIdList } from '@/features/coquiLocal/coquiLocal';
+import { probeCoquiLocal } from '@/features/coquiLocal/coquiLocal';
+import { useTTSVoices } from '@/hooks/useTTSVoices';
 
 export function CoquiLocalSettingsPage({
-  coquiLocalUrl,
-  setCoquiLocalUrl,
   setSettingsUpdated,
-  coquiLocalVoiceId,
-  setCoquiLocalVoiceId
-}: {
-  coquiLocalUrl: string;
-  coquiLocalVoiceId: string;
-  setCoquiLocalUrl: (key: string) => void;
-  setSettingsUpdated: (updated: boolean) => void;
-  setCoquiLocalVoiceId: (key: string) => void;
-}) {
+}: TTSBackendSettingsPageProps) {
   const { t } = useTranslation();
-  const [voiceList, setVoiceList] = useState<string[]>([]);
-
-  useEffect(() => {
-    async function fetchVoiceList() {
-      try {
-        const data = await coquiLocalVoiceIdList();
-        if (data && data.list) {
-          setVoiceList(data.list);
-        }
-      } catch (error) {
-        console.error('Error fetching voice list:', error);
-      }
-    }
-    fetchVoiceList();
-  }, []);
+  const [coquiLocalUrl, setCoquiLocalUrl] = useState(config("coquiLocal_url"));
+  const [coquiLocalVoiceId, setCoquiLocalVoiceId] = useState(config("coquiLocal_voiceid"));
+  const voiceList = useTTSVoices("coquiLocal");
 
   return (
     <BasicPage
@@ -80,6 +61,9 @@ export function CoquiLocalSettingsPage({
             </select>
           </FormRow>
         </li>
+        <ConnectionTest
+          probe={probeCoquiLocal}
+        />
       </ul>
     </BasicPage>
   );
@@ -1,24 +1,20 @@
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { BasicPage, FormRow, NotUsingAlert } from './common';
+import type { TTSBackendSettingsPageProps } from "@/features/tts/ttsBackend";
+import { ConnectionTest } from "./ConnectionTest";
+import { probeElevenLabs } from "@/features/elevenlabs/elevenlabs";
 import { TextInput } from "@/components/textInput";
 import { SecretTextInput } from "@/components/secretTextInput";
 import { config, updateConfig } from "@/utils/config";
 
 export function ElevenLabsSettingsPage({
-  elevenlabsApiKey,
-  setElevenlabsApiKey,
-  elevenlabsVoiceId,
-  setElevenlabsVoiceId,
   setSettingsUpdated,
-}: {
-  elevenlabsApiKey: string;
-  setElevenlabsApiKey: (key: string) => void;
-  elevenlabsVoiceId: string;
-  setElevenlabsVoiceId: (id: string) => void;
-  setSettingsUpdated: (updated: boolean) => void;
-}) {
+}: TTSBackendSettingsPageProps) {
   const { t } = useTranslation();
+  const [elevenlabsApiKey, setElevenlabsApiKey] = useState(config("elevenlabs_apikey"));
+  const [elevenlabsVoiceId, setElevenlabsVoiceId] = useState(config("elevenlabs_voiceid"));
 
   return (
     <BasicPage
@@ -55,6 +51,16 @@ export function ElevenLabsSettingsPage({
             />
           </FormRow>
         </li>
+        <ConnectionTest
+          probe={probeElevenLabs}
+          model={elevenlabsVoiceId}
+          onSelectModel={(model: string) => {
+            setElevenlabsVoiceId(model);
+            updateConfig("elevenlabs_voiceid", model);
+            setSettingsUpdated(true);
+          }}
+          modelLabel={t("Available Voices")}
+        />
       </ul>
     </BasicPage>
   );
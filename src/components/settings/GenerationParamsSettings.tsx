@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { FormRow } from "./common";
+import { TextInput } from "@/components/textInput";
+import { config, updateConfig } from "@/utils/config";
+import { GenerationParam } from "@/features/chat/generationParams";
+
+const paramLabels: Record<GenerationParam, string> = {
+  temperature: "Temperature",
+  top_p: "Top P",
+  max_tokens: "Max Tokens",
+  repetition_penalty: "Repetition Penalty",
+  seed: "Seed",
+  stop_sequence: "STOP SEQUENCE",
+};
+
+function GenerationParamRow({
+  prefix,
+  param,
+  setSettingsUpdated,
+}: {
+  prefix: string;
+  param: GenerationParam;
+  setSettingsUpdated: (updated: boolean) => void;
+}) {
+  const { t } = useTranslation();
+  const key = `${prefix}_${param}`;
+  const [value, setValue] = useState(config(key));
+
+  return (
+    <li className="py-4">
+      <FormRow label={t(paramLabels[param])}>
+        <TextInput
+          value={value}
+          onChange={(event: React.ChangeEvent<any>) => {
+            setValue(event.target.value);
+            updateConfig(key, event.target.value);
+            setSettingsUpdated(true);
+          }}
+        />
+      </FormRow>
+    </li>
+  );
+}
+
+// Rows for the generation params a backend supports, leave a field empty to use the server default
+export function GenerationParamsSettings({
+  prefix,
+  params,
+  setSettingsUpdated,
+}: {
+  prefix: string;
+  params: readonly GenerationParam[];
+  setSettingsUpdated: (updated: boolean) => void;
+}) {
+  return (
+    <>
+      {params.map((param) => (
+        <GenerationParamRow
+          key={param}
+          prefix={prefix}
+          param={param}
+          setSettingsUpdated={setSettingsUpdated}
+        />
+      ))}
+    </>
+  );
+}
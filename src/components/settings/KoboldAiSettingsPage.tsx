@@ -1,28 +1,22 @@
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { BasicPage, FormRow, NotUsingAlert } from './common';
+import type { ChatBackendSettingsPageProps } from "@/features/chat/chatBackend";
+import { ConnectionTest } from "./ConnectionTest";
 import { TextInput } from '@/components/textInput';
 import { SwitchBox } from '@/components/switchBox';
 import { config, updateConfig } from "@/utils/config";
+import { koboldAiGenerationParams, probeKoboldAi } from "@/features/chat/koboldAiChat";
+import { GenerationParamsSettings } from "./GenerationParamsSettings";
+import { ChatTemplateSettings } from "./ChatTemplateSettings";
 
 export function KoboldAiSettingsPage({
-  koboldAiUrl,
-  setKoboldAiUrl,
-  koboldAiUseExtra,
-  setKoboldAiUseExtra,
-  koboldAiStopSequence,
-  setKoboldAiStopSequence,
   setSettingsUpdated,
-}: {
-  koboldAiUrl: string;
-  setKoboldAiUrl: (url: string) => void;
-  koboldAiUseExtra: boolean;
-  setKoboldAiUseExtra: (value: boolean) => void;
-  koboldAiStopSequence: string;
-  setKoboldAiStopSequence: (value: string) => void;
-  setSettingsUpdated: (updated: boolean) => void;
-}) {
+}: ChatBackendSettingsPageProps) {
   const { t } = useTranslation();
+  const [koboldAiUrl, setKoboldAiUrl] = useState(config("koboldai_url"));
+  const [koboldAiUseExtra, setKoboldAiUseExtra] = useState<boolean>(config("koboldai_use_extra") === 'true' ? true : false);
 
   return (
     <BasicPage
@@ -47,18 +41,6 @@ export function KoboldAiSettingsPage({
             />
           </FormRow>
         </li>
-        <li className="py-4">
-          <FormRow label={t("STOP SEQUENCE")}>
-            <TextInput
-              value={koboldAiStopSequence}
-              onChange={(event: React.ChangeEvent<any>) => {
-                setKoboldAiStopSequence(event.target.value);
-                updateConfig("koboldai_stop_sequence", event.target.value);
-                setSettingsUpdated(true);
-              }}
-            />
-          </FormRow>
-        </li>
         <li className="py-4">
           <FormRow label="Use Koboldcpp">
             <SwitchBox
@@ -72,6 +54,18 @@ export function KoboldAiSettingsPage({
             />
           </FormRow>
         </li>
+        <ConnectionTest
+          probe={probeKoboldAi}
+        />
+        <ChatTemplateSettings
+          prefix="koboldai"
+          setSettingsUpdated={setSettingsUpdated}
+        />
+        <GenerationParamsSettings
+          prefix="koboldai"
+          params={koboldAiGenerationParams}
+          setSettingsUpdated={setSettingsUpdated}
+        />
       </ul>
     </BasicPage>
   );
@@ -1,23 +1,20 @@
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { BasicPage, FormRow, NotUsingAlert } from "./common";
+import type { ChatBackendSettingsPageProps } from "@/features/chat/chatBackend";
+import { ConnectionTest } from "./ConnectionTest";
 import { TextInput } from "@/components/textInput";
 import { config, updateConfig } from "@/utils/config";
+import { llamaCppGenerationParams, probeLlamaCpp } from "@/features/chat/llamaCppChat";
+import { GenerationParamsSettings } from "./GenerationParamsSettings";
+import { ChatTemplateSettings } from "./ChatTemplateSettings";
 
 export function LlamaCppSettingsPage({
-  llamaCppUrl,
-  setLlamaCppUrl,
-  llamaCppStopSequence,
-  setLlamaCppStopSequence,
   setSettingsUpdated,
-}: {
-  llamaCppUrl: string;
-  setLlamaCppUrl: (url: string) => void;
-  llamaCppStopSequence: string;
-  setLlamaCppStopSequence: (value: string) => void;
-  setSettingsUpdated: (updated: boolean) => void;
-}) {
+}: ChatBackendSettingsPageProps) {
   const { t } = useTranslation();
+  const [llamaCppUrl, setLlamaCppUrl] = useState(config("llamacpp_url"));
 
   const description = <>{t("llama_cpp_desc", "LLama.cpp is a free and open source chatbot backend. You should build the server from source and run it on your own computer. You can get the source code from")} <a href="https://github.com/ggerganov/llama.cpp">{t("GitHub")}</a></>;
 
@@ -44,18 +41,18 @@ export function LlamaCppSettingsPage({
             />
           </FormRow>
         </li>
-        <li className="py-4">
-          <FormRow label={t("STOP SEQUENCE")}>
-            <TextInput
-              value={llamaCppStopSequence}
-              onChange={(event: React.ChangeEvent<any>) => {
-                setLlamaCppStopSequence(event.target.value);
-                updateConfig("llamacpp_stop_sequence", event.target.value);
-                setSettingsUpdated(true);
-              }}
-            />
-          </FormRow>
-        </li>
+        <ConnectionTest
+          probe={() => probeLlamaCpp(config("llamacpp_url"))}
+        />
+        <ChatTemplateSettings
+          prefix="llamacpp"
+          setSettingsUpdated={setSettingsUpdated}
+        />
+        <GenerationParamsSettings
+          prefix="llamacpp"
+          params={llamaCppGenerationParams}
+          setSettingsUpdated={setSettingsUpdated}
+        />
       </ul>
     </BasicPage>
   );
@@ -1,19 +1,18 @@
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { BasicPage, FormRow, NotUsingAlert } from './common';
+import type { TTSBackendSettingsPageProps } from "@/features/tts/ttsBackend";
+import { ConnectionTest } from "./ConnectionTest";
+import { probeLocalXTTS } from "@/features/localXTTS/localXTTS";
 import { TextInput } from "@/components/textInput";
 import { config, updateConfig } from "@/utils/config";
 
 export function LocalXTTSSettingsPage({
-    localXTTSUrl,
-    setLocalXTTSUrl,
     setSettingsUpdated,
-}: {
-    localXTTSUrl: string;
-    setLocalXTTSUrl: (key: string) => void;
-    setSettingsUpdated: (updated: boolean) => void;
-}) {
+}: TTSBackendSettingsPageProps) {
     const { t } = useTranslation();
+    const [localXTTSUrl, setLocalXTTSUrl] = useState(config("localXTTS_url"));
 
     return (
         <BasicPage
@@ -38,6 +37,9 @@ export function LocalXTTSSettingsPage({
                         />
                     </FormRow>
                 </li>
+              <ConnectionTest
+                probe={probeLocalXTTS}
+              />
             </ul>
         </BasicPage>
     );
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { TrashIcon } from '@heroicons/react/24/outline';
+
+import { BasicPage, FormRow } from "./common";
+import { TextInput } from "@/components/textInput";
+import { SwitchBox } from "@/components/switchBox";
+import { config, updateConfig } from "@/utils/config";
+import { memoryDb } from "@/features/memory/memoryDb";
+
+export function MemoryPage({
+  setSettingsUpdated,
+}: {
+  setSettingsUpdated: (updated: boolean) => void;
+}) {
+  const { t } = useTranslation();
+  const [memoryEnabled, setMemoryEnabled] = useState(config("memory_enabled") === 'true');
+  const [memoryTopK, setMemoryTopK] = useState(config("memory_top_k"));
+  const memories = useLiveQuery(() => memoryDb.memories.orderBy("createdAt").reverse().toArray(), []);
+
+  return (
+    <BasicPage
+      title={t("Memory")}
+      description={t("memory_desc", "Amica can remember what you told her across sessions. Memories are embedded and stored in your browser, the most relevant ones are sent along with each message. The embedding model is downloaded the first time it is used.")}
+    >
+      <ul role="list" className="divide-y divide-gray-100 max-w-xs">
+        <li className="py-4">
+          <FormRow label={t("Long-term Memory")}>
+            <SwitchBox
+              value={memoryEnabled}
+              label={t("Remember across sessions")}
+              onChange={(value: boolean) => {
+                setMemoryEnabled(value);
+                updateConfig("memory_enabled", value.toString());
+                setSettingsUpdated(true);
+              }}
+            />
+          </FormRow>
+        </li>
+        <li className="py-4">
+          <FormRow label={t("Memories per Message")}>
+            <TextInput
+              value={memoryTopK}
+              onChange={(event: React.ChangeEvent<any>) => {
+                setMemoryTopK(event.target.value);
+                updateConfig("memory_top_k", event.target.value);
+                setSettingsUpdated(true);
+              }}
+            />
+          </FormRow>
+        </li>
+        <li className="py-4">
+          <FormRow label={`${t("Stored Memories")} (${memories?.length ?? 0})`}>
+            <button
+              type="button"
+              className="rounded bg-rose-600 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-rose-500 disabled:opacity-50"
+              disabled={! memories || memories.length === 0}
+              onClick={() => {
+                if (window.confirm(t("Delete all memories?"))) {
+                  memoryDb.memories.clear();
+                }
+              }}
+            >
+              {t("Delete All")}
+            </button>
+          </FormRow>
+        </li>
+        {memories?.map((memory) => (
+          <li key={memory.id} className="flex items-start justify-between gap-x-4 py-2">
+            <div className="min-w-0">
+              <p className="text-sm text-gray-800 break-words">{memory.text}</p>
+              <p className="text-xs text-gray-500">{new Date(memory.createdAt).toLocaleString()}</p>
+            </div>
+            <button
+              type="button"
+              className="flex-none rounded p-1 text-gray-500 hover:bg-gray-100 hover:text-rose-600"
+              onClick={() => memoryDb.memories.delete(memory.id!)}
+            >
+              <TrashIcon className="h-4 w-4" aria-hidden="true" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </BasicPage>
+  );
+}
@@ -1,23 +1,20 @@
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { BasicPage, FormRow, NotUsingAlert } from "./common";
+import type { ChatBackendSettingsPageProps } from "@/features/chat/chatBackend";
+import { ConnectionTest } from "./ConnectionTest";
 import { TextInput } from "@/components/textInput";
 import { config, updateConfig } from "@/utils/config";
+import { ollamaGenerationParams, probeOllama } from "@/features/chat/ollamaChat";
+import { GenerationParamsSettings } from "./GenerationParamsSettings";
 
 export function OllamaSettingsPage({
-  ollamaUrl,
-  setOllamaUrl,
-  ollamaModel,
-  setOllamaModel,
   setSettingsUpdated,
-}: {
-  ollamaUrl: string;
-  setOllamaUrl: (url: string) => void;
-  ollamaModel: string;
-  setOllamaModel: (url: string) => void;
-  setSettingsUpdated: (updated: boolean) => void;
-}) {
+}: ChatBackendSettingsPageProps) {
   const { t } = useTranslation();
+  const [ollamaUrl, setOllamaUrl] = useState(config("ollama_url"));
+  const [ollamaModel, setOllamaModel] = useState(config("ollama_model"));
 
   const description = <>{t("ollama_desc", "Ollama lets you get up and running with large language models locally. Download from")} <a href="https://ollama.ai/">{t("ollama.ai")}</a></>;
 
@@ -56,6 +53,20 @@ export function OllamaSettingsPage({
             />
           </FormRow>
         </li>
+        <ConnectionTest
+          probe={() => probeOllama(config("ollama_url"))}
+          model={ollamaModel}
+          onSelectModel={(model: string) => {
+            setOllamaModel(model);
+            updateConfig("ollama_model", model);
+            setSettingsUpdated(true);
+          }}
+        />
+        <GenerationParamsSettings
+          prefix="ollama"
+          params={ollamaGenerationParams}
+          setSettingsUpdated={setSettingsUpdated}
+        />
       </ul>
     </BasicPage>
   );
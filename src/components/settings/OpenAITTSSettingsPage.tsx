@@ -1,32 +1,24 @@
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { BasicPage, FormRow, NotUsingAlert } from './common';
+import type { TTSBackendSettingsPageProps } from "@/features/tts/ttsBackend";
+import { ConnectionTest } from "./ConnectionTest";
+import { probeOpenAiTTS } from "@/features/openaiTTS/openaiTTS";
 import { TextInput } from "@/components/textInput";
 import { SecretTextInput } from "@/components/secretTextInput";
 import { config, updateConfig } from "@/utils/config";
+import { useTTSVoices } from "@/hooks/useTTSVoices";
 
 export function OpenAITTSSettingsPage({
-  openAITTSApiKey,
-  setOpenAITTSApiKey,
-  openAITTSUrl,
-  setOpenAITTSUrl,
-  openAITTSModel,
-  setOpenAITTSModel,
-  openAITTSVoice,
-  setOpenAITTSVoice,
   setSettingsUpdated,
-}: {
-  openAITTSApiKey: string;
-  setOpenAITTSApiKey: (key: string) => void;
-  openAITTSUrl: string;
-  setOpenAITTSUrl: (url: string) => void;
-  openAITTSModel: string;
-  setOpenAITTSModel: (model: string) => void;
-  openAITTSVoice: string;
-  setOpenAITTSVoice: (voice: string) => void;
-  setSettingsUpdated: (updated: boolean) => void;
-}) {
+}: TTSBackendSettingsPageProps) {
   const { t } = useTranslation();
+  const [openAITTSApiKey, setOpenAITTSApiKey] = useState(config("openai_tts_apikey"));
+  const [openAITTSUrl, setOpenAITTSUrl] = useState(config("openai_tts_url"));
+  const [openAITTSModel, setOpenAITTSModel] = useState(config("openai_tts_model"));
+  const [openAITTSVoice, setOpenAITTSVoice] = useState(config("openai_tts_voice"));
+  const voices = useTTSVoices("openai_tts");
 
   return (
     <BasicPage
@@ -82,6 +74,7 @@ export function OpenAITTSSettingsPage({
           <FormRow label={t("Voice")}>
             <TextInput
               value={openAITTSVoice}
+              list="openai_tts_voices"
               onChange={(event: React.ChangeEvent<any>) => {
                 event.preventDefault();
                 setOpenAITTSVoice(event.target.value);
@@ -89,8 +82,21 @@ export function OpenAITTSSettingsPage({
                 setSettingsUpdated(true);
               }}
             />
+            {/* servers compatible with the openai api may offer other voices */}
+            <datalist id="openai_tts_voices">
+              {voices.map((voice) => <option key={voice} value={voice} />)}
+            </datalist>
           </FormRow>
         </li>
+        <ConnectionTest
+          probe={probeOpenAiTTS}
+          model={openAITTSModel}
+          onSelectModel={(model: string) => {
+            setOpenAITTSModel(model);
+            updateConfig("openai_tts_model", model);
+            setSettingsUpdated(true);
+          }}
+        />
       </ul>
     </BasicPage>
   );
@@ -1,19 +1,18 @@
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { BasicPage, FormRow, NotUsingAlert } from './common';
+import type { TTSBackendSettingsPageProps } from "@/features/tts/ttsBackend";
+import { ConnectionTest } from "./ConnectionTest";
+import { probePiper } from "@/features/piper/piper";
 import { TextInput } from "@/components/textInput";
 import { config, updateConfig } from "@/utils/config";
 
 export function PiperSettingsPage({
-    piperUrl,
-    setPiperUrl,
     setSettingsUpdated,
-}: {
-    piperUrl: string;
-    setPiperUrl: (key: string) => void;
-    setSettingsUpdated: (updated: boolean) => void;
-}) {
+}: TTSBackendSettingsPageProps) {
     const { t } = useTranslation();
+    const [piperUrl, setPiperUrl] = useState(config("piper_url"));
 
     return (
         <BasicPage
@@ -38,6 +37,9 @@ export function PiperSettingsPage({
                         />
                     </FormRow>
                 </li>
+              <ConnectionTest
+                probe={probePiper}
+              />
             </ul>
         </BasicPage>
     );
@@ -1,19 +1,17 @@
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { BasicPage, FormRow, basename, NotUsingAlert } from './common';
+import type { TTSBackendSettingsPageProps } from "@/features/tts/ttsBackend";
 import { config, updateConfig } from "@/utils/config";
-import { speechT5SpeakerEmbeddingsList } from "@/paths";
+import { useTTSVoices } from "@/hooks/useTTSVoices";
 
 export function SpeechT5SettingsPage({
-  speechT5SpeakerEmbeddingsUrl,
-  setSpeechT5SpeakerEmbeddingsUrl,
   setSettingsUpdated,
-}: {
-  speechT5SpeakerEmbeddingsUrl: string;
-  setSpeechT5SpeakerEmbeddingsUrl: (url: string) => void;
-  setSettingsUpdated: (updated: boolean) => void;
-}) {
+}: TTSBackendSettingsPageProps) {
   const { t } = useTranslation();
+  const [speechT5SpeakerEmbeddingsUrl, setSpeechT5SpeakerEmbeddingsUrl] = useState(config("speecht5_speaker_embedding_url"));
+  const speakerEmbeddingsList = useTTSVoices("speecht5");
 
   return (
     <BasicPage
@@ -37,7 +35,7 @@ export function SpeechT5SettingsPage({
                 setSettingsUpdated(true);
               }}
             >
-              {speechT5SpeakerEmbeddingsList.map((url) =>
+              {speakerEmbeddingsList.map((url) =>
                 <option
                   key={url}
                   value={url}
@@ -1,21 +1,13 @@
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useLiveQuery } from 'dexie-react-hooks';
 
 import { BasicPage, FormRow, Link, getLinkFromPage } from './common';
-import { updateConfig } from "@/utils/config";
-
-const ttsEngines = [
-  {key: "none",       label: "None"},
-  {key: "elevenlabs", label: "ElevenLabs"},
-  {key: "speecht5",   label: "SpeechT5"},
-  {key: "openai_tts", label: "OpenAI TTS"},
-  {key: "localXTTS",  label: "Alltalk TTS"}, // Our local TTS endpoint (XTTS based)
-  {key: "piper",      label: "Piper"},
-  {key: "coquiLocal", label: "Coqui Local"},
-];
-
-function idToTitle(id: string): string {
-  return ttsEngines[ttsEngines.findIndex((engine) => engine.key === id)].label;
-}
+import { SwitchBox } from "@/components/switchBox";
+import { TextInput } from "@/components/textInput";
+import { config, updateConfig } from "@/utils/config";
+import { getTTSBackend, getTTSBackends, getTTSConcurrency } from "@/features/tts/ttsBackend";
+import { clearAudioCache, evictAudio, getAudioCacheStats } from "@/features/tts/audioCache";
 
 export function TTSBackendPage({
   ttsBackend,
@@ -33,6 +25,30 @@ export function TTSBackendPage({
   setBreadcrumbs: (breadcrumbs: Link[]) => void;
 }) {
   const { t } = useTranslation();
+  const currentBackend = getTTSBackend(ttsBackend);
+  const languages = currentBackend?.capabilities?.languages;
+  const language = config("language");
+  const [streamingEnabled, setStreamingEnabled] = useState(config("tts_streaming_enabled") === 'true');
+  const [cacheEnabled, setCacheEnabled] = useState(config("tts_cache_enabled") === 'true');
+  const [cacheMaxMb, setCacheMaxMb] = useState(config("tts_cache_max_mb"));
+  const cacheStats = useLiveQuery(() => getAudioCacheStats(), []);
+  const [concurrency, setConcurrency] = useState(currentBackend ? getTTSConcurrency(currentBackend).toString() : "1");
+
+  function updateConcurrency(value: string) {
+    setConcurrency(value);
+    const parsed = parseInt(value);
+    let overrides: { [id: string]: number } = {};
+    try {
+      overrides = JSON.parse(config("tts_concurrency"));
+    } catch (e) {}
+    if (isNaN(parsed)) {
+      delete overrides[ttsBackend];
+    } else {
+      overrides[ttsBackend] = parsed;
+    }
+    updateConfig("tts_concurrency", JSON.stringify(overrides));
+    setSettingsUpdated(true);
+  }
 
   return (
     <BasicPage
@@ -48,18 +64,56 @@ export function TTSBackendPage({
               onChange={(event: React.ChangeEvent<any>) => {
                 setTTSBackend(event.target.value);
                 updateConfig("tts_backend", event.target.value);
+                const backend = getTTSBackend(event.target.value);
+                setConcurrency(backend ? getTTSConcurrency(backend).toString() : "1");
                 setSettingsUpdated(true);
               }}
             >
-              {ttsEngines.map((engine) => (
-                <option key={engine.key} value={engine.key}>{engine.label}</option>
+              {getTTSBackends().map((backend) => (
+                <option key={backend.id} value={backend.id}>{t(backend.label)}</option>
               ))}
             </select>
+            { languages && ! languages.includes(language) && (
+              <p className="text-xs text-gray-500 mt-2">
+                {t("tts_language_unsupported", "{{name}} does not speak the selected language, it speaks: {{languages}}", { name: t(currentBackend!.label), languages: languages.join(", ") })}
+              </p>
+            )}
           </FormRow>
         </li>
-        { ["elevenlabs", "speecht5", "openai_tts", "piper", "coquiLocal", "localXTTS"].includes(ttsBackend) && (
+        { currentBackend?.capabilities?.streaming && (
           <li className="py-4">
-            <FormRow label={`${t("Configure")} ${t(idToTitle(ttsBackend))}`}>
+            <FormRow label={t("Stream Audio")}>
+              <SwitchBox
+                value={streamingEnabled}
+                label={t("Start speaking on the first audio received")}
+                onChange={(value: boolean) => {
+                  setStreamingEnabled(value);
+                  updateConfig("tts_streaming_enabled", value.toString());
+                  setSettingsUpdated(true);
+                }}
+              />
+              <p className="text-xs text-gray-500 mt-2">
+                {t("tts_streaming_desc", "Audio is played while it is synthesized. It is not streamed while voice conversion is enabled.")}
+              </p>
+            </FormRow>
+          </li>
+        )}
+        { currentBackend && currentBackend.id !== "none" && (
+          <li className="py-4">
+            <FormRow label={t("Parallel Requests")}>
+              <TextInput
+                value={concurrency}
+                onChange={(event: React.ChangeEvent<any>) => updateConcurrency(event.target.value)}
+              />
+              <p className="text-xs text-gray-500 mt-2">
+                {t("tts_concurrency_desc", "Sentences synthesized ahead at the same time. Online services answer sooner with a few, local servers which synthesize one sentence at a time are best left at 1.")}
+              </p>
+            </FormRow>
+          </li>
+        )}
+        { currentBackend?.settingsPage && (
+          <li className="py-4">
+            <FormRow label={`${t("Configure")} ${t(currentBackend.label)}`}>
               <button
                 type="button"
                 className="rounded bg-indigo-600 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
@@ -68,11 +122,56 @@ export function TTSBackendPage({
                   setBreadcrumbs(breadcrumbs.concat([getLinkFromPage(`${ttsBackend}_settings`)]));
                 }}
               >
-                {t("Click here to configure")} {t(idToTitle(ttsBackend))}
+                {t("Click here to configure")} {t(currentBackend.label)}
               </button>
             </FormRow>
           </li>
         )}
+        <li className="py-4">
+          <FormRow label={t("Audio Cache")}>
+            <SwitchBox
+              value={cacheEnabled}
+              label={t("Replay repeated lines from the cache")}
+              onChange={(value: boolean) => {
+                setCacheEnabled(value);
+                updateConfig("tts_cache_enabled", value.toString());
+                setSettingsUpdated(true);
+              }}
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              {t("tts_cache_desc", "Synthesized audio is stored in your browser, lines spoken again with the same voice are played from it, even offline.")}
+            </p>
+          </FormRow>
+        </li>
+        <li className="py-4">
+          <FormRow label={t("Cache Size Limit (MB)")}>
+            <TextInput
+              value={cacheMaxMb}
+              onChange={(event: React.ChangeEvent<any>) => {
+                setCacheMaxMb(event.target.value);
+                updateConfig("tts_cache_max_mb", event.target.value);
+                evictAudio().catch((e) => console.error("audio cache eviction failed", e));
+                setSettingsUpdated(true);
+              }}
+            />
+          </FormRow>
+        </li>
+        <li className="py-4">
+          <FormRow label={`${t("Cached Lines")} (${cacheStats?.entries ?? 0}, ${((cacheStats?.size ?? 0) / 1024 / 1024).toFixed(1)} MB)`}>
+            <button
+              type="button"
+              className="rounded bg-rose-600 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-rose-500 disabled:opacity-50"
+              disabled={! cacheStats || cacheStats.entries === 0}
+              onClick={() => {
+                if (window.confirm(t("Clear the audio cache?"))) {
+                  clearAudioCache();
+                }
+              }}
+            >
+              {t("Clear Cache")}
+            </button>
+          </FormRow>
+        </li>
       </ul>
     </BasicPage>
   );
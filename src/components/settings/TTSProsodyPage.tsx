@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { BasicPage } from './common';
+import { EmotionType, emotions } from "@/features/chat/messages";
+import { getTTSBackend } from "@/features/tts/ttsBackend";
+import { getProsody, getProsodyOverrides, updateProsody } from "@/features/tts/prosody";
+import { updateConfig } from "@/utils/config";
+
+export function TTSProsodyPage({
+  ttsBackend,
+  setSettingsUpdated,
+}: {
+  ttsBackend: string;
+  setSettingsUpdated: (updated: boolean) => void;
+}) {
+  const { t } = useTranslation();
+  const backend = getTTSBackend(ttsBackend);
+  const table = backend?.prosody;
+  const params = table ? Object.keys(table.neutral) : [];
+  // what is typed in each cell by `${emotion}.${param}`, the config only
+  // holds the values which are numbers
+  const [typed, setTyped] = useState<{ [cell: string]: string }>({});
+
+  function update(emotion: EmotionType, param: string, value: string) {
+    const parsed = parseFloat(value);
+    updateProsody(ttsBackend, emotion, param, isNaN(parsed) ? null : parsed);
+    setTyped({ ...typed, [`${emotion}.${param}`]: value });
+    setSettingsUpdated(true);
+  }
+
+  function reset() {
+    const overrides = getProsodyOverrides();
+    delete overrides[ttsBackend];
+    updateConfig("tts_prosody", JSON.stringify(overrides));
+    setTyped({});
+    setSettingsUpdated(true);
+  }
+
+  return (
+    <BasicPage
+      title={t("Voice Emotion")}
+      description={t("tts_prosody_desc", "How the voice changes with the emotion of each line. Clear a value to restore its default.")}
+    >
+      { ! table && (
+        <p className="text-sm text-gray-500">
+          {t("tts_prosody_unsupported", "{{name}} speaks every emotion the same way.", { name: t(backend?.label ?? ttsBackend) })}
+        </p>
+      )}
+      { table && (
+        <>
+          <table className="text-sm text-gray-900">
+            <thead>
+              <tr>
+                <th className="py-2 pr-4 text-left font-semibold">{t("Emotion")}</th>
+                {params.map((param) => (
+                  <th key={param} className="py-2 pr-4 text-left font-semibold">{param}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {emotions.map((emotion) => {
+                const prosody = getProsody(ttsBackend, table, emotion);
+                return (
+                  <tr key={emotion}>
+                    <td className="py-1 pr-4">{t(emotion)}</td>
+                    {params.map((param) => (
+                      <td key={param} className="py-1 pr-4">
+                        <input
+                          className="block w-24 rounded-md border-0 py-1 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-1 focus:ring-inset focus:ring-gray-400 sm:text-sm"
+                          type="number"
+                          step="0.05"
+                          value={typed[`${emotion}.${param}`] ?? prosody[param]}
+                          onChange={(event: React.ChangeEvent<HTMLInputElement>) => update(emotion, param, event.target.value)}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <button
+            type="button"
+            className="mt-4 rounded bg-indigo-600 px-2 py-1 text-xs font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+            onClick={reset}
+          >
+            {t("Restore Defaults")}
+          </button>
+        </>
+      )}
+    </BasicPage>
+  );
+}
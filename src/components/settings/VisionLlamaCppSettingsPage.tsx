@@ -1,6 +1,8 @@
 import { useTranslation } from 'react-i18next';
 
 import { BasicPage, FormRow, NotUsingAlert } from './common';
+import { ConnectionTest } from "./ConnectionTest";
+import { probeLlamaCpp } from "@/features/chat/llamaCppChat";
 import { TextInput } from "@/components/textInput";
 import { config, updateConfig } from "@/utils/config";
 
@@ -40,6 +42,9 @@ export function VisionLlamaCppSettingsPage({
             />
           </FormRow>
         </li>
+        <ConnectionTest
+          probe={() => probeLlamaCpp(config("vision_llamacpp_url"))}
+        />
       </ul>
     </BasicPage>
   );
@@ -1,6 +1,8 @@
 import { useTranslation } from 'react-i18next';
 
 import { BasicPage, FormRow, NotUsingAlert } from "./common";
+import { ConnectionTest } from "./ConnectionTest";
+import { probeOllama } from "@/features/chat/ollamaChat";
 import { TextInput } from "@/components/textInput";
 import { config, updateConfig } from "@/utils/config";
 
@@ -56,6 +58,15 @@ export function VisionOllamaSettingsPage({
             />
           </FormRow>
         </li>
+        <ConnectionTest
+          probe={() => probeOllama(config("vision_ollama_url"))}
+          model={visionOllamaModel}
+          onSelectModel={(model: string) => {
+            setVisionOllamaModel(model);
+            updateConfig("vision_ollama_model", model);
+            setSettingsUpdated(true);
+          }}
+        />
       </ul>
     </BasicPage>
   );
@@ -1,6 +1,8 @@
 import { useTranslation } from 'react-i18next';
 
 import { BasicPage, FormRow, NotUsingAlert } from './common';
+import { ConnectionTest } from "./ConnectionTest";
+import { probeWhisperCpp } from "@/features/whispercpp/whispercpp";
 import { TextInput } from "@/components/textInput";
 import { SecretTextInput } from "@/components/secretTextInput";
 import { config, updateConfig } from "@/utils/config";
@@ -39,6 +41,9 @@ export function WhisperCppSettingsPage({
             />
           </FormRow>
         </li>
+        <ConnectionTest
+          probe={probeWhisperCpp}
+        />
       </ul>
     </BasicPage>
   );
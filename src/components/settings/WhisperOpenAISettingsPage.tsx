@@ -1,6 +1,8 @@
 import { useTranslation } from 'react-i18next';
 
 import { BasicPage, FormRow, NotUsingAlert } from './common';
+import { ConnectionTest } from "./ConnectionTest";
+import { probeOpenAiWhisper } from "@/features/openaiWhisper/openaiWhisper";
 import { TextInput } from "@/components/textInput";
 import { SecretTextInput } from "@/components/secretTextInput";
 import { config, updateConfig } from "@/utils/config";
@@ -71,6 +73,15 @@ export function WhisperOpenAISettingsPage({
             />
           </FormRow>
         </li>
+        <ConnectionTest
+          probe={probeOpenAiWhisper}
+          model={whisperOpenAIModel}
+          onSelectModel={(model: string) => {
+            setWhisperOpenAIModel(model);
+            updateConfig("openai_whisper_model", model);
+            setSettingsUpdated(true);
+          }}
+        />
       </ul>
     </BasicPage>
   );
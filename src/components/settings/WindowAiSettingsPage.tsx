@@ -0,0 +1,35 @@
+import { useTranslation } from 'react-i18next';
+
+import { BasicPage, NotUsingAlert } from "./common";
+import type { ChatBackendSettingsPageProps } from "@/features/chat/chatBackend";
+import { config } from "@/utils/config";
+import { windowAiGenerationParams } from "@/features/chat/windowAiChat";
+import { GenerationParamsSettings } from "./GenerationParamsSettings";
+
+export function WindowAiSettingsPage({
+  setSettingsUpdated,
+}: ChatBackendSettingsPageProps) {
+  const { t } = useTranslation();
+
+  const description = <>{t("windowai_desc", "Window.ai lets you use the model selected in the browser extension. You can get the extension from")} <a href="https://windowai.io">windowai.io</a>.</>;
+
+  return (
+    <BasicPage
+      title={t("Window.ai") + " " + t("Settings")}
+      description={description}
+    >
+      { config("chatbot_backend") !== "windowai" && (
+        <NotUsingAlert>
+          {t("not_using_alert", "You are not currently using {{name}} as your {{what}} backend. These settings will not be used.", {name: t("Window.ai"), what: t("ChatBot")})}
+        </NotUsingAlert>
+      ) }
+      <ul role="list" className="divide-y divide-gray-100 max-w-xs">
+        <GenerationParamsSettings
+          prefix="windowai"
+          params={windowAiGenerationParams}
+          setSettingsUpdated={setSettingsUpdated}
+        />
+      </ul>
+    </BasicPage>
+  );
+}
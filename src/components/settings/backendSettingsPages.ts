@@ -0,0 +1,15 @@
+import dynamic from "next/dynamic";
+import { ComponentType } from "react";
+
+const loadedPages = new Map<() => Promise<ComponentType<any>>, ComponentType<any>>();
+
+// The settings page a backend registered, created once per backend so it is
+// not mounted again on every render
+export function backendSettingsPage<P>(load: () => Promise<ComponentType<P>>): ComponentType<P> {
+  let page = loadedPages.get(load);
+  if (! page) {
+    page = dynamic(load, { ssr: false });
+    loadedPages.set(load, page);
+  }
+  return page;
+}
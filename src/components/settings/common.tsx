@@ -1,4 +1,6 @@
 import { t } from '@/i18n';
+import { getChatBackend } from '@/features/chat/chatBackend';
+import { getTTSBackend } from '@/features/tts/ttsBackend';
 
 import {
   AdjustmentsHorizontalIcon,
@@ -22,6 +24,8 @@ import {
   MoonIcon,
   SunIcon,
   CogIcon,
+  CircleStackIcon,
+  FaceFrownIcon,
 } from '@heroicons/react/24/outline';
 
 import logo from '/public/logo.png';
@@ -151,21 +155,13 @@ export function getIconFromPage(page: string): JSX.Element {
     case 'character_animation': return <AdjustmentsHorizontalIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
 
     case 'chatbot_backend':     return <Cog6ToothIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
-    case 'chatgpt_settings':    return <AdjustmentsHorizontalIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
-    case 'llamacpp_settings':   return <AdjustmentsHorizontalIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
-    case 'ollama_settings':     return <AdjustmentsHorizontalIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
-    case 'koboldai_settings':   return <AdjustmentsHorizontalIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
     case 'name':                return <IdentificationIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
     case 'system_prompt':       return <DocumentTextIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
+    case 'memory':              return <CircleStackIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
 
     case 'tts_backend':         return <SpeakerWaveIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
-    case 'elevenlabs_settings': return <AdjustmentsHorizontalIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
-    case 'speecht5_settings':   return <AdjustmentsHorizontalIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
-    case 'openai_tts_settings': return <AdjustmentsHorizontalIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
-    case 'piper_settings': return <AdjustmentsHorizontalIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
+    case 'tts_prosody':         return <FaceFrownIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
     case 'rvc_settings': return <CogIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
-    case 'coquiLocal_settings': return <AdjustmentsHorizontalIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
-    case 'localXTTS_settings': return <AdjustmentsHorizontalIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
 
     case 'stt_backend':         return <PencilSquareIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
     case 'stt_wake_word':  return <MoonIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
@@ -178,6 +174,10 @@ export function getIconFromPage(page: string): JSX.Element {
     case 'vision_system_prompt':     return <DocumentTextIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
   }
 
+  if (chatBackendFromPage(page) || ttsBackendFromPage(page)) {
+    return <AdjustmentsHorizontalIcon className="h-5 w-5 flex-none text-gray-800" aria-hidden="true" />;
+  }
+
   return <></>;
 }
 
@@ -200,21 +200,13 @@ function getLabelFromPage(page: string): string {
     case 'character_animation': return t('Character Animation');
 
     case 'chatbot_backend':     return t('ChatBot Backend');
-    case 'chatgpt_settings':    return t('ChatGPT');
-    case 'llamacpp_settings':   return t('LLama.cpp');
-    case 'ollama_settings':     return t('Ollama');
-    case 'koboldai_settings':   return t('KoboldAI');
     case 'name'         :       return t('Name');
     case 'system_prompt':       return t('System Prompt');
+    case 'memory':              return t('Memory');
 
     case 'tts_backend':         return t('TTS Backend');
-    case 'elevenlabs_settings': return t('ElevenLabs');
-    case 'speecht5_settings':   return t('SpeechT5');
-    case 'openai_tts_settings': return t('OpenAI');
-    case 'piper_settings':      return t('Piper');
+    case 'tts_prosody':         return t('Voice Emotion');
     case 'rvc_settings':        return t('RVC');
-    case 'coquiLocal_settings': return t('Coqui Local');
-    case 'localXTTS_settings':  return t('Alltalk');
 
     case 'vision_backend':           return t('Vision Backend');
     case 'vision_llamacpp_settings': return t('LLama.cpp');
@@ -227,9 +219,32 @@ function getLabelFromPage(page: string): string {
     case 'whispercpp_settings':     return t("Whisper.cpp");
   }
 
+  const backend = chatBackendFromPage(page) ?? ttsBackendFromPage(page);
+  if (backend) {
+    return t(backend.label);
+  }
+
   throw new Error(`unknown page label encountered ${page}`);
 }
 
+// chatbot backend settings pages are named `${backend.id}_settings`
+export function chatBackendFromPage(page: string) {
+  if (! page.endsWith('_settings')) {
+    return undefined;
+  }
+  const backend = getChatBackend(page.slice(0, -'_settings'.length));
+  return backend?.settingsPage ? backend : undefined;
+}
+
+// tts backend settings pages are named `${backend.id}_settings` as well
+export function ttsBackendFromPage(page: string) {
+  if (! page.endsWith('_settings')) {
+    return undefined;
+  }
+  const backend = getTTSBackend(page.slice(0, -'_settings'.length));
+  return backend?.settingsPage ? backend : undefined;
+}
+
 function getClassNameFromPage(page: string) {
   switch(page) {
     case 'reset_settings': return 'text-red-500';
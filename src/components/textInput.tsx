@@ -2,6 +2,8 @@ type Props = {
   value: string;
   onChange?: (event: React.ChangeEvent<HTMLInputElement>) => void;
   readOnly?: boolean;
+  // id of a datalist with suggested values
+  list?: string;
 }
 
 export const TextInput = ({
@@ -127,11 +127,6 @@ export class AmicaLife {
 
   // Function to check message from user
   public receiveMessageFromUser(message: string) {
-    if (message.toLowerCase().includes('news')) {
-      console.log("Triggering news function call.");
-      this.insertFront({events: "News"});
-    }
-
     // Re-enqueue subconcious event after get the user input (1 Subconcious events per idle cycle)
     (!this.containsEvent("Subconcious")) ? this.mainEvents.enqueue({ events: "Subconcious" }) : null;
 
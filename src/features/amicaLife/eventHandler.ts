@@ -7,7 +7,6 @@ import { emotions } from "@/features/chat/messages";
 import { basename } from "@/components/settings/common";
 import { askLLM } from "@/utils/askLlm";
 
-import { functionCalling } from "@/features/functionCalling/functionCalling";
 import { AmicaLife } from "./amicaLife";
 import { Viewer } from "../vrmViewer/viewer";
 import { config } from "@/utils/config";
@@ -48,6 +47,11 @@ export type TimestampedPrompt = {
 // Placeholder for storing compressed subconscious prompts
 export let storedPrompts: TimestampedPrompt[] = [];
 
+// Replaces the stored prompts, used when switching conversations
+export function setStoredPrompts(prompts: TimestampedPrompt[]) {
+  storedPrompts.splice(0, storedPrompts.length, ...prompts);
+}
+
 let previousAnimation = "";
 
 // Handles the VRM animation event.
@@ -217,27 +221,6 @@ export async function handleSubconsciousEvent(
   }
 }
 
-// Handles news event
-
-export async function handleNewsEvent(chat: Chat, amicaLife: AmicaLife) {
-  console.log("Function Calling: News");
-
-  try {
-    const news = await functionCalling("news");
-    if (!news) {
-      throw new Error("Loading news failed");
-    }
-    await chat.receiveMessageFromUser?.(news, true);
-    amicaLife.eventProcessing = false;
-    console.timeEnd("processing_event News");
-  } catch (error) {
-    console.error(
-      "Error occurred while sending a message through chat instance:",
-      error,
-    );
-  }
-}
-
 // Main handler for idle events.
 
 export async function handleIdleEvent(
@@ -258,9 +241,6 @@ export async function handleIdleEvent(
     case "Subconcious":
       await handleSubconsciousEvent(chat, amicaLife);
       break;
-    case "News":
-      await handleNewsEvent(chat, amicaLife);
-      break;
     case "Sleep":
       await handleSleepEvent(chat, amicaLife);
       break;
@@ -1,34 +1,61 @@
 import { Queue } from 'typescript-collections';
-import { Message, Role, Screenplay, Talk, textsToScreenplay } from "./messages";
+import { Message, Role, Screenplay, Talk, ToolCall, isChatLogMessage, tagToEmotion, textsToScreenplay } from "./messages";
+import { MarkupEvent, planCues } from "./inlineMarkup";
 import { Viewer } from "@/features/vrmViewer/viewer";
 import { Alert } from "@/features/alert/alert";
 
-import { getEchoChatResponseStream } from './echoChat';
-import { getOpenAiChatResponseStream } from './openAiChat';
-import { getLlamaCppChatResponseStream, getLlavaCppChatResponse } from './llamaCppChat';
-import { getWindowAiChatResponseStream } from './windowAiChat';
-import { getOllamaChatResponseStream, getOllamaVisionChatResponse } from './ollamaChat';
-import { getKoboldAiChatResponseStream } from './koboldAiChat';
-
-import { rvc } from "@/features/rvc/rvc";
-import { coquiLocal } from "@/features/coquiLocal/coquiLocal";
-import { piper } from "@/features/piper/piper";
-import { elevenlabs } from "@/features/elevenlabs/elevenlabs";
-import { speecht5 } from "@/features/speecht5/speecht5";
-import { openaiTTS } from "@/features/openaiTTS/openaiTTS";
-import { localXTTSTTS} from "@/features/localXTTS/localXTTS";
+import {
+  ChatBackend,
+  ChatStreamOptions,
+  getChatBackendChain,
+  getChatResponse,
+  getCurrentChatBackend,
+} from './chatBackend';
+import { fitContextWindow } from './contextWindow';
+import {
+  MessageTree,
+  SiblingPosition,
+  activeMessages,
+  activePath,
+  appendMessage,
+  children,
+  cloneMessageTree,
+  createMessageTree,
+  setActiveMessages,
+  siblingPosition,
+  switchSibling,
+} from './messageTree';
+import { StreamingReply, createStreamingReply } from './streamingReply';
+import { summarizeMessages, summaryMessage } from './summarizer';
+import { recallAndRemember } from '@/features/memory/memory';
+import { MAX_TOOL_ROUNDS, executeToolCalls, getTools } from '@/features/functionCalling/tools';
+import { getLlavaCppChatResponse } from './llamaCppChat';
+import { getOllamaVisionChatResponse } from './ollamaChat';
+
+import { getTTSConcurrency, synthesizeSpeech } from "@/features/tts/ttsBackend";
+import { audioCacheKey, cacheAudio, getCachedAudio } from "@/features/tts/audioCache";
+import { SpeechAudio, discardSpeechAudio } from "@/features/lipSync/lipSync";
 
 import { AmicaLife } from '@/features/amicaLife/amicaLife';
+import { loadVRMAnimation } from "@/lib/VRMAnimation/loadVRMAnimation";
+import { basename } from "@/components/settings/common";
 
 import { config } from "@/utils/config";
 import { cleanTalk } from "@/utils/cleanTalk";
+import { toSpeakableText } from "@/utils/speakableText";
 import { processResponse } from "@/utils/processResponse";
-import { wait } from "@/utils/wait";
+import { wait, waitUntil } from "@/utils/wait";
 import { isCharacterIdle, characterIdleTime, resetIdleTimer } from "@/utils/isIdle";
 
 
+// prompt token budgets used when a backend does not define one
+const DEFAULT_CONTEXT_WINDOW = 4096;
+const VISION_CONTEXT_WINDOW = 2048;
+// how long the voice fades out when the character is interrupted
+const SPEECH_FADE_OUT_MS = 150;
+
 type Speak = {
-  audioBuffer: ArrayBuffer|null;
+  audio: SpeechAudio|null;
   screenplay: Screenplay;
   streamIdx: number;
 }
@@ -38,6 +65,12 @@ type TTSJob = {
   streamIdx: number;
 }
 
+type SynthesizingJob = {
+  job: TTSJob;
+  audio: Promise<SpeechAudio|null>;
+  done: boolean;
+}
+
 export class Chat {
   public initialized: boolean;
 
@@ -51,6 +84,8 @@ export class Chat {
   public setShownMessage?: (role: Role) => void;
   public setChatProcessing?: (processing: boolean) => void;
   public setChatSpeaking?: (speaking: boolean) => void;
+  public setSummary?: (summary: string) => void;
+  public setStreamingReply?: (reply: StreamingReply | null) => void;
 
   // the message from the user that is currently being processed
   // it can be reset
@@ -70,11 +105,34 @@ export class Chat {
   private currentUserMessage: string;
 
   private lastAwake: number;
+  // true while the character plays the voice of a sentence
+  private speaking: boolean;
+  // the stream of the line being played, pauses included, null between lines
+  private playingStreamIdx: number | null;
+  // the lines of the tts pool being synthesized
+  private synthesizing: SynthesizingJob[];
+  // the reply shown ahead of its voice, and the stream it comes from
+  private streamingReply: StreamingReply | null;
+  private streamingReplyIdx: number;
+  // when the animation played for a cue ends
+  private animationCueEnd: number;
 
   public messageList: Message[];
+  // every branch of the conversation, messageList is its active path
+  public messageTree: MessageTree;
+
+  // rolling summary of messageList.slice(0, summarizedCount), sent in place of those messages
+  public summary: string;
+  public summarizedCount: number;
+  private summarizing: boolean;
 
   public currentStreamIdx: number;
 
+  // aborts the request of the response being generated
+  private abortController: AbortController | null;
+  // the backend generating it, asked to stop its server on interrupt
+  private generatingBackend: ChatBackend | null;
+
   constructor() {
     this.initialized = false;
 
@@ -90,9 +148,21 @@ export class Chat {
     this.currentUserMessage = "";
 
     this.messageList = [];
+    this.messageTree = createMessageTree();
+    this.summary = "";
+    this.summarizedCount = 0;
+    this.summarizing = false;
     this.currentStreamIdx = 0;
+    this.abortController = null;
+    this.generatingBackend = null;
 
     this.lastAwake = 0;
+    this.speaking = false;
+    this.playingStreamIdx = null;
+    this.synthesizing = [];
+    this.streamingReply = null;
+    this.streamingReplyIdx = 0;
+    this.animationCueEnd = 0;
   }
 
   public initialize(
@@ -105,6 +175,8 @@ export class Chat {
     setShownMessage: (role: Role) => void,
     setChatProcessing: (processing: boolean) => void,
     setChatSpeaking: (speaking: boolean) => void,
+    setSummary: (summary: string) => void,
+    setStreamingReply: (reply: StreamingReply | null) => void,
   ) {
     this.amicaLife = amicaLife;
     this.viewer = viewer;
@@ -115,6 +187,8 @@ export class Chat {
     this.setShownMessage = setShownMessage;
     this.setChatProcessing = setChatProcessing;
     this.setChatSpeaking = setChatSpeaking;
+    this.setSummary = setSummary;
+    this.setStreamingReply = setStreamingReply;
 
     // these will run forever
     this.processTtsJobs();
@@ -124,42 +198,118 @@ export class Chat {
     this.initialized = true;
   }
 
+  // Makes the messages the active path of the conversation, earlier branches are kept
   public setMessageList(messages: Message[]) {
-    this.messageList = messages;
+    this.commitPendingMessages();
+    setActiveMessages(this.messageTree, messages);
+    this.showMessageTree();
+  }
+
+  // Replaces the whole conversation, e.g. when switching to another one
+  public setMessageTree(tree: MessageTree) {
+    this.messageTree = tree;
+    this.currentAssistantMessage = '';
+    this.currentUserMessage = '';
+    this.showMessageTree();
+  }
+
+  // The tree including the message which is still being shown or streamed
+  public messageTreeSnapshot(): MessageTree {
+    const tree = cloneMessageTree(this.messageTree);
+    this.pendingMessages().forEach((message) => appendMessage(tree, message));
+    return tree;
+  }
+
+  // Position among its alternatives of the message at index in the chat log
+  public branchPosition(index: number): SiblingPosition | null {
+    const path = activePath(this.messageTree);
+    if (index < path.length) {
+      return siblingPosition(this.messageTree, path[index].id);
+    }
+    if (index === path.length && this.pendingMessages().length > 0) {
+      const count = children(this.messageTree, this.messageTree.current).length + 1;
+      return { index: count - 1, count };
+    }
+    return null;
+  }
+
+  public switchBranch(index: number, offset: number) {
+    this.commitPendingMessages();
+    const node = activePath(this.messageTree)[index];
+    if (node) {
+      switchSibling(this.messageTree, node.id, offset);
+    }
+    this.showMessageTree();
+  }
+
+  // Sends an edited version of the user message at index as a new branch
+  public editMessage(index: number, content: string) {
+    this.setMessageList(this.chatLog().slice(0, index));
+    this.receiveMessageFromUser(content, false);
+  }
+
+  // Asks again for the assistant reply at index, keeping the old reply as a branch
+  public regenerate(index: number) {
+    const log = this.chatLog();
+    // tool calls and their results may come between the question and the reply
+    let questionIndex = index - 1;
+    while (questionIndex >= 0 && log[questionIndex].role !== "user" && ! isChatLogMessage(log[questionIndex])) {
+      questionIndex--;
+    }
+    const question = log[questionIndex];
+    if (! question || question.role !== "user") {
+      return;
+    }
+    this.editMessage(questionIndex, question.content);
+  }
+
+  // messageList followed by the message currently shown, as in the chat log
+  private chatLog(): Message[] {
+    return [...this.messageList, ...this.pendingMessages()];
+  }
+
+  private pendingMessages(): Message[] {
+    const pending: Message[] = [];
+    if (this.currentUserMessage !== '') {
+      pending.push({ role: "user", content: this.currentUserMessage });
+    }
+    if (this.currentAssistantMessage !== '') {
+      pending.push({ role: "assistant", content: this.currentAssistantMessage });
+    }
+    return pending;
+  }
+
+  private commitPendingMessages() {
+    const timestamp = new Date().toISOString();
+    this.pendingMessages().forEach((message) => appendMessage(this.messageTree, { ...message, timestamp }));
     this.currentAssistantMessage = '';
     this.currentUserMessage = '';
+  }
+
+  private pushMessage(message: Message) {
+    this.messageList.push(message);
+    appendMessage(this.messageTree, message);
+  }
+
+  private showMessageTree() {
+    const messages = activeMessages(this.messageTree);
+    // the summary no longer matches when the messages it covers changed
+    let shared = 0;
+    while (shared < Math.min(messages.length, this.messageList.length) && messages[shared] === this.messageList[shared]) {
+      shared++;
+    }
+    if (shared < this.summarizedCount) {
+      this.setConversationSummary("", 0);
+    }
+
+    this.messageList = messages;
+    this.clearStreamingReply();
     this.setChatLog!(this.messageList!);
     this.setAssistantMessage!(this.currentAssistantMessage);
-    this.setUserMessage!(this.currentAssistantMessage);
+    this.setUserMessage!(this.currentUserMessage);
     this.currentStreamIdx++;
   }
 
-  public async handleRvc(audio: any) {
-    const rvcModelName = config("rvc_model_name");
-    const rvcIndexPath = config("rvc_index_path");
-    const rvcF0upKey = parseInt(config("rvc_f0_upkey"));
-    const rvcF0Method = config("rvc_f0_method");
-    const rvcIndexRate = config("rvc_index_rate");
-    const rvcFilterRadius = parseInt(config("rvc_filter_radius"));
-    const rvcResampleSr = parseInt(config("rvc_resample_sr"));
-    const rvcRmsMixRate = parseInt(config("rvc_rms_mix_rate"));
-    const rvcProtect = parseInt(config("rvc_protect"));
-
-    const voice = await rvc(
-      audio,
-      rvcModelName,
-      rvcIndexPath,
-      rvcF0upKey,
-      rvcF0Method,
-      rvcIndexRate,
-      rvcFilterRadius,
-      rvcResampleSr,
-      rvcRmsMixRate,
-      rvcProtect);
-
-    return voice.audio;
-  }
-
   public idleTime(): number {
     return characterIdleTime(this.lastAwake);
   }
@@ -173,30 +323,50 @@ export class Chat {
     resetIdleTimer();
   }
 
+  // Synthesizes up to getTTSConcurrency() sentences at the same time, the
+  // speak jobs are still enqueued in the order of the tts jobs
   public async processTtsJobs() {
     while (true) {
-      do {
-        const ttsJob = this.ttsJobs.dequeue();
-        if (! ttsJob) {
-          break;
-        }
+      // audio of an interrupted reply is dropped without waiting for it
+      const stale = this.synthesizing.filter(({ job }) => job.streamIdx !== this.currentStreamIdx);
+      if (stale.length > 0) {
+        console.log('skipping tts for streamIdx');
+        stale.forEach(({ audio }) => audio.then(discardSpeechAudio));
+        this.synthesizing = this.synthesizing.filter((synthesizing) => ! stale.includes(synthesizing));
+      }
 
+      const concurrency = getTTSConcurrency();
+      while (this.synthesizing.length < concurrency && this.ttsJobs.size() > 0) {
+        const ttsJob = this.ttsJobs.dequeue()!;
         console.debug('processing tts');
         if (ttsJob.streamIdx !== this.currentStreamIdx) {
           console.log('skipping tts for streamIdx');
           continue;
         }
 
-        console.time('performance_tts');
-        const audioBuffer = await this.fetchAudio(ttsJob.screenplay.talk);
-        console.timeEnd('performance_tts');
+        const start = performance.now();
+        // a sentence which can not be synthesized is skipped, not the whole loop
+        const audio = this.fetchAudio(ttsJob.screenplay.talk).catch(() => null);
+        const synthesizing: SynthesizingJob = { job: ttsJob, audio, done: false };
+        audio.then(() => {
+          // for streamed audio this is the time until the first chunk arrived
+          console.log('performance_tts', Math.round(performance.now() - start));
+          synthesizing.done = true;
+        });
+        this.synthesizing.push(synthesizing);
+      }
+
+      while (this.synthesizing.length > 0 && this.synthesizing[0].done) {
+        const { job, audio } = this.synthesizing.shift()!;
         this.speakJobs.enqueue({
-          audioBuffer,
-          screenplay: ttsJob.screenplay,
-          streamIdx: ttsJob.streamIdx,
+          audio: await audio,
+          screenplay: job.screenplay,
+          streamIdx: job.streamIdx,
         });
-      } while (this.ttsJobs.size() > 0);
-      await wait(50);
+      }
+
+      // wakes up as soon as the next sentence in order is synthesized
+      await Promise.race([wait(50), ...this.synthesizing.slice(0, 1).map(({ audio }) => audio)]);
     }
   }
 
@@ -204,11 +374,13 @@ export class Chat {
     while (true) {
       do {
         const speak = this.speakJobs.dequeue();
+        this.playingStreamIdx = speak?.streamIdx ?? null;
         if (! speak) {
           break;
         }
         if (speak.streamIdx !== this.currentStreamIdx) {
           console.log('skipping speak for streamIdx');
+          discardSpeechAudio(speak.audio);
           continue;
         }
         console.debug('processing speak');
@@ -221,23 +393,140 @@ export class Chat {
           };
         }
 
-        this.bubbleMessage("assistant",speak.screenplay.text);
+        const cues = planCues(speak.screenplay.events);
+        await this.playCues(cues.before, speak.streamIdx);
+        if (speak.streamIdx !== this.currentStreamIdx) {
+          discardSpeechAudio(speak.audio);
+          continue;
+        }
+
+        this.startSpeakingStreamingReply(speak.streamIdx, !! speak.audio);
+        this.bubbleMessage("assistant", speak.screenplay.shown ?? speak.screenplay.text);
 
-        if (speak.audioBuffer) {
+        if (speak.audio) {
+          this.speaking = true;
           this.setChatSpeaking!(true);
-          await this.viewer!.model?.speak(speak.audioBuffer, speak.screenplay);
+          await this.viewer!.model?.speak(speak.audio, speak.screenplay, ({ duration, played }) => {
+            // cues within the text play at the matching point of the audio
+            for (const { at, event } of cues.during) {
+              setTimeout(() => {
+                if (speak.streamIdx === this.currentStreamIdx) {
+                  this.playCue(event);
+                }
+              }, Math.max(0, at * duration - played) * 1000);
+            }
+          });
+          this.speaking = false;
           this.setChatSpeaking!(false);
+          if (this.streamingReply) {
+            this.streamingReply.speaking = false;
+            this.showStreamingReply();
+          }
           this.isAwake() ? this.updateAwake() : null;
+        } else {
+          await this.playCues(cues.during.map(({ event }) => event), speak.streamIdx);
         }
+        await this.playCues(cues.after, speak.streamIdx);
+        this.playingStreamIdx = null;
       } while (this.speakJobs.size() > 0);
       await wait(50);
     }
   }
 
+  // Plays cues one after another, a pause holds up those after it until it
+  // is over or the reply is interrupted
+  private async playCues(events: MarkupEvent[], streamIdx: number) {
+    for (const event of events) {
+      if (streamIdx !== this.currentStreamIdx) {
+        return;
+      }
+      if (event.type === "pause") {
+        await waitUntil(async () => streamIdx !== this.currentStreamIdx, event.ms, 50);
+      } else {
+        this.playCue(event);
+      }
+    }
+  }
+
+  private playCue(event: MarkupEvent) {
+    const model = this.viewer?.model;
+    switch (event.type) {
+      case "emotion": {
+        const emotion = tagToEmotion(event.name);
+        if (emotion) {
+          model?.playEmotion(emotion);
+        }
+        break;
+      }
+      case "gesture":
+      case "animation":
+        if (event.url) {
+          this.playAnimationCue(event.url);
+        }
+        break;
+      case "look":
+        model?.lookAt(event.at);
+        break;
+    }
+  }
+
+  private async playAnimationCue(url: string) {
+    const model = this.viewer?.model;
+    // an animation started while another one plays would return to it
+    if (! model || Date.now() < this.animationCueEnd) {
+      return;
+    }
+    this.animationCueEnd = Infinity;
+    try {
+      const animation = await loadVRMAnimation(url);
+      if (! animation) {
+        throw new Error("Loading animation failed");
+      }
+      const duration = await model.playAnimation(animation, basename(url));
+      requestAnimationFrame(() => { this.viewer!.resetCameraLerp(); });
+      this.animationCueEnd = Date.now() + duration * 1000;
+    } catch (e) {
+      console.error("Error playing animation cue:", e);
+      this.animationCueEnd = 0;
+    }
+  }
+
+  private showStreamingReply() {
+    const reply = this.streamingReply;
+    if (reply && (reply.sentences.length > 0 || reply.partial !== '')) {
+      this.setShownMessage!('assistant');
+    }
+    this.setStreamingReply?.(reply ? { ...reply, sentences: [...reply.sentences] } : null);
+  }
+
+  private clearStreamingReply() {
+    if (this.streamingReply) {
+      this.streamingReply = null;
+      this.showStreamingReply();
+    }
+  }
+
+  // The next sentence of the reply started playing
+  private startSpeakingStreamingReply(streamIdx: number, speaking: boolean) {
+    const reply = this.streamingReply;
+    if (! reply) {
+      return;
+    }
+    // something else is spoken, e.g. by amica life
+    if (streamIdx !== this.streamingReplyIdx || reply.spoken >= reply.sentences.length) {
+      this.clearStreamingReply();
+      return;
+    }
+    reply.spoken++;
+    reply.speaking = speaking;
+    this.showStreamingReply();
+  }
+
   public bubbleMessage(role: Role, text: string) {
     // TODO: currentUser & Assistant message should be contain the message with emotion in it
 
     if (role === 'user') {
+      this.clearStreamingReply();
       // add space if there is already a partial message
       if (this.currentUserMessage !== '') {
         this.currentUserMessage += ' ';
@@ -247,9 +536,10 @@ export class Chat {
       this.setAssistantMessage!("");
 
       if (this.currentAssistantMessage !== '') {
-        this.messageList!.push({
+        this.pushMessage({
           role: "assistant",
           content: this.currentAssistantMessage,
+          timestamp: new Date().toISOString(),
         });
 
         this.currentAssistantMessage = '';
@@ -263,9 +553,10 @@ export class Chat {
 
     if (role === 'assistant') {
       if (this.currentAssistantMessage != '' && !this.isAwake() && config("amica_life_enabled") === 'true') {
-        this.messageList!.push({
+        this.pushMessage({
           role: "assistant",
           content: this.currentAssistantMessage,
+          timestamp: new Date().toISOString(),
         });
 
         this.currentAssistantMessage = text;
@@ -277,9 +568,10 @@ export class Chat {
       }
 
       if (this.currentUserMessage !== '') {
-        this.messageList!.push({
+        this.pushMessage({
           role: "user",
           content: this.currentUserMessage,
+          timestamp: new Date().toISOString(),
         });
 
         this.currentUserMessage = '';
@@ -297,6 +589,21 @@ export class Chat {
 
   public async interrupt() {
     this.currentStreamIdx++;
+    if (this.abortController) {
+      // while still connecting any backend of the chain may be generating,
+      // the abort of those which are not is a no-op
+      const backends = this.generatingBackend ? [this.generatingBackend] : getChatBackendChain();
+      console.debug('aborting generation');
+      this.abortController.abort();
+      this.generationFinished(this.abortController);
+      try {
+        // resolves once the servers stopped generating
+        await Promise.all(backends.map((backend) => backend.abort?.()));
+      } catch(e: any) {
+        console.error(e.toString());
+      }
+    }
+
     try {
       if (this.reader) {
         console.debug('cancelling')
@@ -311,10 +618,52 @@ export class Chat {
       console.error(e.toString());
     }
 
-    // TODO if llm type is llama.cpp, we can send /stop message here
     this.ttsJobs.clear();
     this.speakJobs.clear();
-    // TODO stop viewer from speaking
+    this.viewer?.model?.stopSpeaking(SPEECH_FADE_OUT_MS);
+    this.clearStreamingReply();
+  }
+
+  // true while the current reply is spoken or has lines left to speak, so also
+  // in its pauses and while the next line is synthesized
+  private isReplyPending() {
+    const current = ({ streamIdx }: { streamIdx: number }) => streamIdx === this.currentStreamIdx;
+    let queued = false;
+    const findCurrent = (job: TTSJob | Speak) => {
+      if (current(job)) {
+        queued = true;
+        return false;
+      }
+    };
+    this.ttsJobs.forEach(findCurrent);
+    this.speakJobs.forEach(findCurrent);
+
+    return this.speaking
+      || this.playingStreamIdx === this.currentStreamIdx
+      || this.synthesizing.some(({ job }) => current(job))
+      || queued;
+  }
+
+  // The user started talking while the character speaks. What it said so far
+  // is kept, marked as interrupted, and the rest of the reply is dropped.
+  public async bargeIn() {
+    if (! this.isReplyPending()) {
+      return;
+    }
+
+    console.debug('barge in');
+    if (this.currentAssistantMessage !== '') {
+      this.pushMessage({
+        role: "assistant",
+        content: this.currentAssistantMessage,
+        timestamp: new Date().toISOString(),
+        interrupted: true,
+      });
+      this.currentAssistantMessage = '';
+      this.setAssistantMessage!('');
+      this.setChatLog!([...this.messageList]);
+    }
+    await this.interrupt();
   }
 
   // this happens either from text or from voice / whisper completion
@@ -343,48 +692,187 @@ export class Chat {
       this.bubbleMessage("user",message);
     } 
 
+    const memories: Message[] = [];
+    if (!amicaLife && config("memory_enabled") === "true") {
+      try {
+        const memory = await recallAndRemember(message);
+        if (memory) {
+          memories.push(memory);
+        }
+      } catch (e: any) {
+        console.error('memory recall failed', e.toString());
+      }
+    }
+
     // make new stream
-    const messages: Message[] = [
+    const messages = this.fitContextWindow([
       { role: "system", content: config("system_prompt") },
-      ...this.messageList!,
+      ...memories,
+      ...this.historyMessages(),
       { role: "user", content: amicaLife ? message : this.currentUserMessage},
-    ];
+    ], getCurrentChatBackend().contextWindow);
     // console.debug('messages', messages);
 
     await this.makeAndHandleStream(messages);
+    this.summarizeIfNeeded();
   }
 
+  public setConversationSummary(summary: string, summarizedCount = this.summarizedCount) {
+    this.summary = summary;
+    this.summarizedCount = summarizedCount;
+    this.setSummary?.(summary);
+  }
 
-  public async makeAndHandleStream(messages: Message[]) {
+  // The summary memory block followed by the messages it does not cover yet
+  private historyMessages(): Message[] {
+    return [
+      ...(this.summary !== "" ? [summaryMessage(this.summary)] : []),
+      ...this.messageList.slice(this.summarizedCount),
+    ];
+  }
+
+  // Folds the oldest unsummarized turns into the summary once there are more
+  // than summarization_threshold of them, the last context_keep_turns stay as is
+  private async summarizeIfNeeded() {
+    const threshold = parseInt(config("summarization_threshold"));
+    if (config("summarization_enabled") !== "true" || this.summarizing || isNaN(threshold)) {
+      return;
+    }
+    if (this.messageList.length - this.summarizedCount <= threshold) {
+      return;
+    }
+
+    const keepTurns = parseInt(config("context_keep_turns"));
+    const messageList = this.messageList;
+    const end = messageList.length - (isNaN(keepTurns) ? 4 : keepTurns) * 2;
+    if (end <= this.summarizedCount) {
+      return;
+    }
+
+    this.summarizing = true;
     try {
-      this.streams.push(await this.getChatResponseStream(messages));
-    } catch(e: any) {
-      const errMsg = e.toString();
-      console.error(errMsg);
-      this.alert?.error("Failed to get chat response", errMsg);
-      return errMsg;
+      console.time('summarization');
+      const summary = await summarizeMessages(this.summary, messageList.slice(this.summarizedCount, end));
+      console.timeEnd('summarization');
+
+      // skip if the conversation was reset or rewound in the meantime
+      if (summary !== null && this.messageList === messageList) {
+        console.info(`summarized ${end - this.summarizedCount} messages`, summary);
+        this.setConversationSummary(summary, end);
+      }
+    } catch (e: any) {
+      console.error('summarization failed', e.toString());
+    } finally {
+      this.summarizing = false;
     }
+  }
 
-    if (this.streams[this.streams.length-1] == null) {
-      const errMsg = "Error: Null stream encountered.";
-      console.error(errMsg);
-      this.alert?.error("Null stream encountered", errMsg);
-      return errMsg;
+
+  // Tool calls made by the model are executed and their results sent back,
+  // after MAX_TOOL_ROUNDS rounds no more tools are offered so it has to answer
+  public async makeAndHandleStream(messages: Message[]) {
+    // every round continues the same reply, so what is said before a tool
+    // call is still spoken and shown
+    let streamIdx: number | undefined;
+    let replyText = "";
+    for (let round = 0; ; round++) {
+      const toolCalls: ToolCall[] = [];
+      const abortController = new AbortController();
+      this.abortController = abortController;
+      const options: ChatStreamOptions = {
+        tools: round < MAX_TOOL_ROUNDS ? getTools() : [],
+        onToolCalls: (calls) => toolCalls.push(...calls),
+        signal: abortController.signal,
+      };
+
+      try {
+        this.streams.push(await this.getChatResponseStream(messages, options));
+      } catch(e: any) {
+        this.generationFinished(abortController);
+        if (abortController.signal.aborted) {
+          return;
+        }
+        const errMsg = e.toString();
+        console.error(errMsg);
+        this.alert?.error("Failed to get chat response", errMsg);
+        return errMsg;
+      }
+
+      if (this.streams[this.streams.length-1] == null) {
+        const errMsg = "Error: Null stream encountered.";
+        console.error(errMsg);
+        this.alert?.error("Null stream encountered", errMsg);
+        return errMsg;
+      }
+
+      const continued = streamIdx;
+      streamIdx = streamIdx ?? this.currentStreamIdx + 1;
+      const aiTextLog = await this.handleChatResponseStream(continued) ?? "";
+      replyText += aiTextLog;
+      this.generationFinished(abortController);
+      if (toolCalls.length === 0 || streamIdx !== this.currentStreamIdx) {
+        return replyText;
+      }
+
+      console.debug('tool calls', toolCalls);
+      const results = await executeToolCalls(toolCalls);
+      if (streamIdx !== this.currentStreamIdx) {
+        return replyText;
+      }
+      messages = [
+        ...messages,
+        { role: "assistant", content: aiTextLog, tool_calls: toolCalls },
+        ...results,
+      ];
+      this.pushToolMessages([{ role: "assistant", content: "", tool_calls: toolCalls }, ...results]);
+    }
+  }
+
+  // The tool calls and their results are kept in the conversation after the
+  // user message. The text said along with the calls is part of the reply
+  // which is still being spoken, so it is kept in that one.
+  private pushToolMessages(toolMessages: Message[]) {
+    const timestamp = new Date().toISOString();
+    if (this.currentUserMessage !== '') {
+      this.pushMessage({ role: "user", content: this.currentUserMessage, timestamp });
+      this.currentUserMessage = '';
     }
+    toolMessages.forEach((message) => this.pushMessage({ ...message, timestamp }));
+  }
 
-    return await this.handleChatResponseStream();
+  // the response is complete or abandoned, so there is nothing left to abort
+  private generationFinished(abortController: AbortController) {
+    if (this.abortController === abortController) {
+      this.abortController = null;
+      this.generatingBackend = null;
+    }
   }
 
-  public async handleChatResponseStream() {
+  // continuedStreamIdx is given when the stream continues a reply, e.g. after
+  // a tool call, its sentences are spoken after those already received
+  public async handleChatResponseStream(continuedStreamIdx?: number) {
     if (this.streams.length === 0) {
       console.log('no stream!');
       return;
     }
+    if (continuedStreamIdx !== undefined && continuedStreamIdx !== this.currentStreamIdx) {
+      return;
+    }
 
-    this.currentStreamIdx++;
+    if (continuedStreamIdx === undefined) {
+      this.currentStreamIdx++;
+    }
     const streamIdx = this.currentStreamIdx;
     this.setChatProcessing!(true);
 
+    const continuesReply = continuedStreamIdx !== undefined && this.streamingReplyIdx === streamIdx;
+    const streamingReply = config("streaming_text_enabled") !== 'true' ? null
+      : continuesReply && this.streamingReply ? this.streamingReply : createStreamingReply();
+    if (streamingReply) {
+      this.streamingReply = streamingReply;
+      this.streamingReplyIdx = streamIdx;
+    }
+
     console.time('chat stream processing');
     let reader = this.streams[this.streams.length - 1].getReader();
     this.readers.push(reader);
@@ -392,7 +880,6 @@ export class Chat {
 
     let aiTextLog = "";
     let tag = "";
-    let rolePlay = "";
     let receivedMessage = "";
 
     let firstTokenEncountered = false;
@@ -400,6 +887,30 @@ export class Chat {
     console.time('performance_time_to_first_token');
     console.time('performance_time_to_first_sentence');
 
+    const enqueueTalks = (aiTalks: Screenplay[]): boolean => {
+      // Generate & play audio for each sentence, display responses
+      console.debug('enqueue tts', aiTalks);
+      console.debug('streamIdx', streamIdx, 'currentStreamIdx', this.currentStreamIdx)
+      if (streamIdx !== this.currentStreamIdx) {
+        console.log('wrong stream idx');
+        return true; // should break
+      }
+      for (const screenplay of aiTalks) {
+        this.ttsJobs.enqueue({
+          screenplay,
+          streamIdx: streamIdx,
+        });
+        streamingReply?.sentences.push(screenplay.shown ?? screenplay.text);
+      }
+
+      if (! firstSentenceEncountered) {
+        console.timeEnd('performance_time_to_first_sentence');
+        firstSentenceEncountered = true;
+      }
+
+      return false; // normal processing
+    };
+
     try {
       while (true) {
         if (this.currentStreamIdx !== streamIdx) {
@@ -414,55 +925,58 @@ export class Chat {
         if (done) break;
 
         receivedMessage += value;
-        receivedMessage = receivedMessage.trimStart();
 
         const proc = processResponse({
           sentences,
           aiTextLog,
           receivedMessage,
           tag,
-          rolePlay,
-          callback: (aiTalks: Screenplay[]): boolean => {
-            // Generate & play audio for each sentence, display responses
-            console.debug('enqueue tts', aiTalks);
-            console.debug('streamIdx', streamIdx, 'currentStreamIdx', this.currentStreamIdx)
-            if (streamIdx !== this.currentStreamIdx) {
-              console.log('wrong stream idx');
-              return true; // should break
-            }
-            this.ttsJobs.enqueue({
-              screenplay: aiTalks[0],
-              streamIdx: streamIdx,
-            });
-
-            if (! firstSentenceEncountered) {
-              console.timeEnd('performance_time_to_first_sentence');
-              firstSentenceEncountered = true;
-            }
-
-            return false; // normal processing
-          }
+          callback: enqueueTalks,
         });
 
         sentences = proc.sentences;
         aiTextLog = proc.aiTextLog;
         receivedMessage = proc.receivedMessage;
         tag = proc.tag;
-        rolePlay = proc.rolePlay;
+        if (streamingReply && this.streamingReply === streamingReply) {
+          streamingReply.partial = proc.partialText;
+          this.showStreamingReply();
+        }
         if (proc.shouldBreak) {
           break;
         }
         
       }
+
+      // what is left once the stream ended is the last sentence, which
+      // may have no punctuation or only be a gesture
+      if (streamIdx === this.currentStreamIdx) {
+        aiTextLog = processResponse({
+          sentences,
+          aiTextLog,
+          receivedMessage,
+          tag,
+          final: true,
+          callback: enqueueTalks,
+        }).aiTextLog;
+      }
     } catch (e: any) {
       const errMsg = e.toString();
-      this.bubbleMessage!('assistant', errMsg);
+      // reading an interrupted stream fails as its request was aborted
+      if (streamIdx === this.currentStreamIdx) {
+        this.bubbleMessage!('assistant', errMsg);
+      }
       console.error(errMsg);
     } finally {
       if (! reader.closed) {
         reader.releaseLock();
       }
       console.timeEnd('chat stream processing');
+      // nothing is left to be received
+      if (streamingReply && this.streamingReply === streamingReply) {
+        streamingReply.partial = '';
+        this.showStreamingReply();
+      }
       if (streamIdx === this.currentStreamIdx) {
         this.setChatProcessing!(false);
       }
@@ -471,55 +985,23 @@ export class Chat {
     return aiTextLog;
   }
 
-  async fetchAudio(talk: Talk): Promise<ArrayBuffer|null> {
-    // TODO we should remove non-speakable characters
-    // since this depends on the tts backend, we should do it
-    // in their respective functions
-    // this is just a simple solution for now
-    talk = cleanTalk(talk);
-    if (talk.message.trim() === '' || config("tts_muted") === 'true') {
-      return null;
-    }
-
-    const rvcEnabled = config("rvc_enabled") === 'true';
-
+  async fetchAudio(talk: Talk): Promise<SpeechAudio|null> {
     try {
-      switch (config("tts_backend")) {
-        case 'none': {
-          return null;
-        }
-        case 'elevenlabs': {
-          const voiceId = config("elevenlabs_voiceid");
-          const voice = await elevenlabs(talk.message, voiceId, talk.style);
-          if (rvcEnabled) { return await this.handleRvc(voice.audio) }
-          return voice.audio;
-        }
-        case 'speecht5': {
-          const speakerEmbeddingUrl = config('speecht5_speaker_embedding_url');
-          const voice = await speecht5(talk.message, speakerEmbeddingUrl);
-          if (rvcEnabled) { return await this.handleRvc(voice.audio) }
-          return voice.audio;
-        }
-        case 'openai_tts': {
-          const voice = await openaiTTS(talk.message);
-          if (rvcEnabled) { return await this.handleRvc(voice.audio) }
-          return voice.audio;
-        }
-        case 'localXTTS': {
-          const voice = await localXTTSTTS(talk.message);
-          if (rvcEnabled) { return await this.handleRvc(voice.audio) }
-          return voice.audio;
-        }
-        case 'piper': {
-          const voice = await piper(talk.message);
-          if (rvcEnabled) { return await this.handleRvc(voice.audio) }
-          return voice.audio;
-        }
-        case 'coquiLocal': {
-          const voice = await coquiLocal(talk.message);
-          return voice.audio;
-        }
+      // spell out numbers, symbols and markup for every backend
+      talk = cleanTalk({ ...talk, message: toSpeakableText(talk.message, config("language")) });
+      if (talk.message.trim() === '' || config("tts_muted") === 'true') {
+        return null;
+      }
+
+      // cached lines replay without asking the backend, even offline
+      const cacheKey = audioCacheKey(talk);
+      const cached = await getCachedAudio(cacheKey);
+      if (cached) {
+        return cached;
       }
+
+      const audio = await synthesizeSpeech(talk);
+      return audio && cacheAudio(cacheKey, talk, audio);
     } catch (e: any) {
       console.error(e.toString());
       this.alert?.error("Failed to get TTS response", e.toString());
@@ -528,24 +1010,34 @@ export class Chat {
     return null;
   }
 
-  public async getChatResponseStream(messages: Message[]) {
-    console.debug('getChatResponseStream', messages);
-    const chatbotBackend = config("chatbot_backend");
+  public async getChatResponseStream(messages: Message[], options?: ChatStreamOptions) {
+    const { backend, stream, failures } = await getChatResponse(messages, options);
+    this.generatingBackend = backend;
+    if (failures.length > 0) {
+      const failed = failures.map((f) => `${f.backend.label}: ${f.error}`).join("\n");
+      this.alert?.error(`Answered by ${backend.label}`, `Fell back after:\n${failed}`);
+    }
+    return stream;
+  }
 
-    switch (chatbotBackend) {
-      case 'chatgpt':
-        return getOpenAiChatResponseStream(messages);
-      case 'llamacpp':
-        return getLlamaCppChatResponseStream(messages);
-      case 'windowai':
-        return getWindowAiChatResponseStream(messages);
-      case 'ollama':
-        return getOllamaChatResponseStream(messages);
-      case 'koboldai':
-        return getKoboldAiChatResponseStream(messages);
+  // Leaves out the oldest turns which do not fit the token budget, what was
+  // dropped is logged so it shows up in the debug pane
+  private fitContextWindow(messages: Message[], defaultBudget = DEFAULT_CONTEXT_WINDOW): Message[] {
+    const budget = parseInt(config("context_token_budget"));
+    const keepTurns = parseInt(config("context_keep_turns"));
+    const res = fitContextWindow(messages, {
+      budget: isNaN(budget) ? defaultBudget : budget,
+      keepTurns: isNaN(keepTurns) ? 4 : keepTurns,
+    });
+
+    if (res.dropped.length > 0) {
+      const dropped = res.dropped
+        .map((m) => `${m.role}: ${m.content.length > 80 ? m.content.substring(0, 80) + '...' : m.content}`)
+        .join('\n');
+      console.info(`context window: dropped ${res.dropped.length} oldest messages, sending ~${res.tokens} tokens\n${dropped}`);
     }
 
-    return getEchoChatResponseStream(messages);
+    return res.messages;
   }
 
   public async getVisionResponse(imageData: string) {
@@ -554,33 +1046,44 @@ export class Chat {
 
       console.debug('vision_backend', visionBackend);
 
-      const messages: Message[] = [
+      const messages = this.fitContextWindow([
         { role: "system", content: config("vision_system_prompt") },
-        ...this.messageList!,
+        ...this.historyMessages(),
         {
           role: 'user',
           content: "Describe the image as accurately as possible"
         },
-      ];
+      ], VISION_CONTEXT_WINDOW);
 
+      const abortController = new AbortController();
+      this.abortController = abortController;
       let res = '';
-      if (visionBackend === 'vision_llamacpp') {
-        res = await getLlavaCppChatResponse(messages, imageData);
-      } else if (visionBackend === 'vision_ollama') {
-        res = await getOllamaVisionChatResponse(messages, imageData);
-      } else {
-        console.warn('vision_backend not supported', visionBackend);
-        return;
+      try {
+        if (visionBackend === 'vision_llamacpp') {
+          res = await getLlavaCppChatResponse(messages, imageData, abortController.signal);
+        } else if (visionBackend === 'vision_ollama') {
+          res = await getOllamaVisionChatResponse(messages, imageData, abortController.signal);
+        } else {
+          console.warn('vision_backend not supported', visionBackend);
+          return;
+        }
+      } catch (e: any) {
+        if (abortController.signal.aborted) {
+          return;
+        }
+        throw e;
+      } finally {
+        this.generationFinished(abortController);
       }
 
-      await this.makeAndHandleStream([
+      await this.makeAndHandleStream(this.fitContextWindow([
         { role: "system", content: config("system_prompt") },
-        ...this.messageList!,
+        ...this.historyMessages(),
         {
           role: "user",
           content: `This is a picture I just took from my webcam (described between [[ and ]] ): [[${res}]] Please respond accordingly and as if it were just sent and as though you can see it.`,
         },
-      ]);
+      ], getCurrentChatBackend().contextWindow));
     } catch (e: any) {
       console.error("getVisionResponse", e.toString());
       this.alert?.error("Failed to get vision response", e.toString());
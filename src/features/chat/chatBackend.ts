@@ -0,0 +1,285 @@
+import type { ComponentType } from "react";
+import { Message, ToolCall } from "./messages";
+import { Tool } from "@/features/functionCalling/tools";
+import { parseTextToolCalls, withTextToolProtocol } from "@/features/functionCalling/textToolCalls";
+import { config } from "@/utils/config";
+import { isTauri } from "@/utils/isTauri";
+import { waitForFirstChunk } from "@/utils/waitForFirstChunk";
+
+import { generationConfigKeys } from "./generationParams";
+import { getEchoChatResponseStream } from "./echoChat";
+import { getOpenAiChatResponseStream, openAiGenerationParams } from "./openAiChat";
+import { getClaudeChatResponseStream, claudeGenerationParams } from "./claudeChat";
+import { abortLlamaCppGeneration, getLlamaCppChatResponseStream, llamaCppGenerationParams } from "./llamaCppChat";
+import { getWindowAiChatResponseStream, windowAiGenerationParams } from "./windowAiChat";
+import { getOllamaChatResponseStream, ollamaGenerationParams } from "./ollamaChat";
+import { abortKoboldAiGeneration, getKoboldAiChatResponseStream, koboldAiGenerationParams } from "./koboldAiChat";
+
+export type ChatBackendCapabilities = {
+  // accepts images alongside messages
+  vision?: boolean;
+  // supports native tool / function calling
+  tools?: boolean;
+  // honours stop sequences
+  stop?: boolean;
+};
+
+export type ChatStreamOptions = {
+  // tools the model may call, empty when it has to answer directly
+  tools?: Tool[];
+  // called with the tool calls the model made, before the stream closes
+  onToolCalls?: (calls: ToolCall[]) => void;
+  // aborts the request, and with it the stream, when signalled
+  signal?: AbortSignal;
+};
+
+export type ChatBackendSettingsPageProps = {
+  setSettingsUpdated: (updated: boolean) => void;
+};
+
+export interface ChatBackend {
+  // value stored in config("chatbot_backend")
+  id: string;
+  label: string;
+  // config keys read by this backend, used by its settings page
+  configKeys: string[];
+  capabilities?: ChatBackendCapabilities;
+  // default prompt token budget, used unless context_token_budget is set
+  contextWindow?: number;
+  // loads the page rendered as `${id}_settings` in the chatbot settings menu,
+  // imported when it is opened so the registry does not load any UI
+  settingsPage?: () => Promise<ComponentType<ChatBackendSettingsPageProps>>;
+  // return false to hide the backend from the settings menu
+  isAvailable?: () => boolean;
+  // tools and onToolCalls are only passed to backends with the tools capability
+  streamChat: (messages: Message[], options?: ChatStreamOptions) => Promise<ReadableStream<Uint8Array>>;
+  // called after the signal of the last request was aborted, for servers which
+  // keep generating otherwise. Resolves once the server stopped generating.
+  abort?: () => Promise<void>;
+}
+
+const FALLBACK_BACKEND_ID = "echo";
+
+const chatBackends = new Map<string, ChatBackend>();
+
+// Register a chat backend, replacing any previously registered backend with the same id.
+export function registerChatBackend(backend: ChatBackend) {
+  chatBackends.set(backend.id, backend);
+}
+
+export function getChatBackend(id: string): ChatBackend | undefined {
+  return chatBackends.get(id);
+}
+
+// All registered backends in registration order, hiding the unavailable ones
+export function getChatBackends(): ChatBackend[] {
+  return Array.from(chatBackends.values()).filter((backend) =>
+    backend.isAvailable ? backend.isAvailable() : true,
+  );
+}
+
+// The configured backend, or echo if the configured one is not registered
+export function getCurrentChatBackend(): ChatBackend {
+  return getChatBackend(config("chatbot_backend")) ?? getChatBackend(FALLBACK_BACKEND_ID)!;
+}
+
+// The configured backend followed by the fallback backends, in order and without duplicates
+export function getChatBackendChain(): ChatBackend[] {
+  const chain = [getCurrentChatBackend()];
+  for (const id of config("chatbot_fallback_backends").split(",")) {
+    const backend = getChatBackend(id.trim());
+    if (backend && ! chain.includes(backend)) {
+      chain.push(backend);
+    }
+  }
+
+  return chain;
+}
+
+export type ChatBackendFailure = {
+  backend: ChatBackend;
+  error: string;
+};
+
+export type ChatResponse = {
+  // the backend which actually answered
+  backend: ChatBackend;
+  stream: ReadableStream<Uint8Array>;
+  // backends tried before the one which answered
+  failures: ChatBackendFailure[];
+};
+
+// Backends without native tool calling get the tools described in the prompt
+// and their text replies checked for JSON tool calls
+async function streamChatWithTools(backend: ChatBackend, messages: Message[], options?: ChatStreamOptions) {
+  if (backend.capabilities?.tools) {
+    return backend.streamChat(messages, options);
+  }
+
+  const tools = options?.tools ?? [];
+  const signal = options?.signal;
+  if (tools.length === 0 && ! messages.some((m) => m.role === "tool")) {
+    return backend.streamChat(messages, { signal });
+  }
+
+  const stream = await backend.streamChat(withTextToolProtocol(messages, tools), { signal });
+  if (tools.length === 0 || ! options?.onToolCalls) {
+    return stream;
+  }
+  return parseTextToolCalls(stream, options.onToolCalls);
+}
+
+// Tries each backend of the chain in turn until one starts answering. A backend
+// fails over on a connection error, a non 200 status or when no token arrives
+// within chatbot_first_token_timeout ms, counted from the request so a server
+// which holds back its headers fails over as well. The last backend is never
+// timed out. A backend failed over is aborted so it stops generating.
+export async function getChatResponse(messages: Message[], options?: ChatStreamOptions): Promise<ChatResponse> {
+  const chain = getChatBackendChain();
+  const timeoutMs = parseInt(config("chatbot_first_token_timeout"));
+  const failures: ChatBackendFailure[] = [];
+
+  for (const [i, backend] of chain.entries()) {
+    const isLast = i === chain.length - 1;
+    // aborted on failover, and with the request
+    const attempt = new AbortController();
+    const abortAttempt = () => attempt.abort();
+    options?.signal?.addEventListener("abort", abortAttempt);
+    if (options?.signal?.aborted) {
+      attempt.abort();
+    }
+
+    const firstChunk = (async () => {
+      console.debug('getChatResponseStream', backend.id, messages);
+      const stream = await streamChatWithTools(backend, messages, { ...options, signal: attempt.signal });
+      return chain.length > 1 ? waitForFirstChunk(stream, 0) : stream;
+    })();
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const stream = isLast || isNaN(timeoutMs) || timeoutMs <= 0 ? await firstChunk : await Promise.race([
+        firstChunk,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`No response within ${timeoutMs}ms`)), timeoutMs);
+        }),
+      ]);
+      if (failures.length > 0) {
+        console.debug(`chat backend ${backend.id} answered after ${failures.map((f) => f.backend.id).join(", ")} failed`);
+      }
+      return { backend, stream, failures };
+    } catch (e: any) {
+      options?.signal?.removeEventListener("abort", abortAttempt);
+      // interrupted, the caller aborts the backends
+      if (options?.signal?.aborted) {
+        throw e;
+      }
+
+      const error = e.toString();
+      console.error(`chat backend ${backend.id} failed`, error);
+      failures.push({ backend, error });
+
+      attempt.abort();
+      // a stream which still arrived is not read
+      firstChunk.then((stream) => stream.cancel()).catch(() => {});
+      try {
+        await backend.abort?.();
+      } catch (abortError: any) {
+        console.error(`chat backend ${backend.id} did not stop`, abortError.toString());
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw new Error(failures.map((f) => `${f.backend.label}: ${f.error}`).join("\n"));
+}
+
+export async function getChatResponseStream(messages: Message[]) {
+  const { stream } = await getChatResponse(messages);
+  return stream;
+}
+
+registerChatBackend({
+  id: "echo",
+  label: "Echo",
+  configKeys: [],
+  streamChat: getEchoChatResponseStream,
+});
+
+registerChatBackend({
+  id: "chatgpt",
+  label: "ChatGPT",
+  configKeys: [
+    "openai_apikey", "openai_url", "openai_model",
+    ...generationConfigKeys("openai", openAiGenerationParams),
+  ],
+  capabilities: { tools: true, stop: true },
+  contextWindow: 16000,
+  settingsPage: () => import("@/components/settings/ChatGPTSettingsPage").then((m) => m.ChatGPTSettingsPage),
+  streamChat: getOpenAiChatResponseStream,
+});
+
+registerChatBackend({
+  id: "claude",
+  label: "Claude",
+  configKeys: [
+    "claude_apikey", "claude_url", "claude_model",
+    ...generationConfigKeys("claude", claudeGenerationParams),
+  ],
+  contextWindow: 100000,
+  settingsPage: () => import("@/components/settings/ClaudeSettingsPage").then((m) => m.ClaudeSettingsPage),
+  streamChat: getClaudeChatResponseStream,
+});
+
+registerChatBackend({
+  id: "llamacpp",
+  label: "LLama.cpp",
+  configKeys: [
+    "llamacpp_url", "llamacpp_chat_template", "llamacpp_custom_template",
+    ...generationConfigKeys("llamacpp", llamaCppGenerationParams),
+  ],
+  capabilities: { stop: true },
+  contextWindow: 4096,
+  settingsPage: () => import("@/components/settings/LlamaCppSettingsPage").then((m) => m.LlamaCppSettingsPage),
+  streamChat: getLlamaCppChatResponseStream,
+  abort: abortLlamaCppGeneration,
+});
+
+registerChatBackend({
+  id: "windowai",
+  label: "Window.ai",
+  configKeys: generationConfigKeys("windowai", windowAiGenerationParams),
+  capabilities: { stop: true },
+  contextWindow: 4096,
+  // Hides Window.ai when using the desktop app
+  isAvailable: () => !isTauri(),
+  settingsPage: () => import("@/components/settings/WindowAiSettingsPage").then((m) => m.WindowAiSettingsPage),
+  streamChat: getWindowAiChatResponseStream,
+});
+
+registerChatBackend({
+  id: "ollama",
+  label: "Ollama",
+  configKeys: [
+    "ollama_url", "ollama_model",
+    ...generationConfigKeys("ollama", ollamaGenerationParams),
+  ],
+  capabilities: { tools: true, stop: true },
+  contextWindow: 2048,
+  settingsPage: () => import("@/components/settings/OllamaSettingsPage").then((m) => m.OllamaSettingsPage),
+  streamChat: getOllamaChatResponseStream,
+});
+
+registerChatBackend({
+  id: "koboldai",
+  label: "KoboldAI",
+  configKeys: [
+    "koboldai_url", "koboldai_use_extra", "koboldai_chat_template", "koboldai_custom_template",
+    ...generationConfigKeys("koboldai", koboldAiGenerationParams),
+  ],
+  capabilities: { stop: true },
+  contextWindow: 2048,
+  settingsPage: () => import("@/components/settings/KoboldAiSettingsPage").then((m) => m.KoboldAiSettingsPage),
+  streamChat: getKoboldAiChatResponseStream,
+  abort: abortKoboldAiGeneration,
+});
@@ -0,0 +1,140 @@
+import { Message } from "./messages";
+import { GenerationParam, getGenerationParams } from "./generationParams";
+import { ChatStreamOptions } from "./chatBackend";
+import { config } from '@/utils/config';
+import { ProbeInfo, fetchProbe } from '@/utils/probeBackend';
+import { readSseEvents } from '@/utils/streamParsers';
+
+export const claudeGenerationParams: GenerationParam[] = [
+  "temperature", "top_p", "max_tokens", "stop_sequence",
+];
+
+type ClaudeMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+// The Messages API takes the system prompt as a top level field and expects
+// the conversation to alternate between user and assistant, starting with user
+export function buildClaudeMessages(messages: Message[]) {
+  const system = messages
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n\n");
+
+  const claudeMessages: ClaudeMessage[] = [];
+  for (const m of messages) {
+    if (m.role === "system") {
+      continue;
+    }
+
+    const role = m.role === "assistant" ? "assistant" : "user";
+    const last = claudeMessages[claudeMessages.length - 1];
+    if (last && last.role === role) {
+      last.content += "\n\n" + m.content;
+    } else {
+      claudeMessages.push({ role, content: m.content });
+    }
+  }
+
+  if (claudeMessages.length > 0 && claudeMessages[0].role !== "user") {
+    claudeMessages.unshift({ role: "user", content: "..." });
+  }
+
+  return { system, messages: claudeMessages };
+}
+
+export async function getClaudeChatResponseStream(messages: Message[], options?: ChatStreamOptions) {
+  const apiKey = config("claude_apikey");
+  if (!apiKey) {
+    throw new Error("Invalid Claude API Key");
+  }
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "Accept": "text/event-stream",
+    "x-api-key": apiKey,
+    "anthropic-version": "2023-06-01",
+    "anthropic-dangerous-direct-browser-access": "true",
+  };
+  const { system, messages: claudeMessages } = buildClaudeMessages(messages);
+  const params = getGenerationParams("claude", claudeGenerationParams);
+  const res = await fetch(`${config("claude_url")}/v1/messages`, {
+    headers: headers,
+    method: "POST",
+    body: JSON.stringify({
+      model: config("claude_model"),
+      ...(system ? { system } : {}),
+      messages: claudeMessages,
+      stream: true,
+      // max_tokens is required by the Messages API
+      max_tokens: params.maxTokens ?? 400,
+      temperature: params.temperature,
+      top_p: params.topP,
+      stop_sequences: params.stop.length > 0 ? params.stop : undefined,
+    }),
+    signal: options?.signal,
+  });
+
+  const reader = res.body?.getReader();
+  if (res.status !== 200 || ! reader) {
+    if (res.status === 401) {
+      throw new Error('Invalid Claude authentication');
+    }
+    if (res.status === 529) {
+      throw new Error('Claude API overloaded');
+    }
+
+    throw new Error(`Claude chat error (${res.status})`);
+  }
+
+  const stream = new ReadableStream({
+    async start(controller: ReadableStreamDefaultController) {
+      try {
+        for await (const event of readSseEvents(reader)) {
+          const json = JSON.parse(event.data);
+          if (json.type === "message_stop") {
+            break;
+          }
+          switch (json.type) {
+            case "content_block_delta":
+              if (json.delta?.type === "text_delta" && !!json.delta.text) {
+                controller.enqueue(json.delta.text);
+              }
+              break;
+            case "error":
+              throw new Error(`Claude stream error (${json.error?.type}): ${json.error?.message}`);
+          }
+        }
+      } catch (error) {
+        console.error(error);
+        controller.error(error);
+      } finally {
+        reader.releaseLock();
+        controller.close();
+      }
+    },
+    async cancel() {
+      await reader?.cancel();
+      reader.releaseLock();
+    }
+  });
+
+  return stream;
+}
+
+export async function probeClaude(): Promise<ProbeInfo> {
+  const res = await fetchProbe(`${config("claude_url")}/v1/models`, {
+    headers: {
+      "x-api-key": config("claude_apikey"),
+      "anthropic-version": "2023-06-01",
+      "anthropic-dangerous-direct-browser-access": "true",
+    },
+  });
+  const json = await res.json();
+  const models: string[] = (json.data ?? []).map((model: any) => model.id);
+
+  return {
+    models,
+    capabilities: [`${models.length} models`],
+  };
+}
@@ -0,0 +1,60 @@
+import { Message } from "./messages";
+
+export type ContextWindowOptions = {
+  // estimated tokens the prompt may use
+  budget: number;
+  // number of most recent user / assistant turns which are always kept
+  keepTurns: number;
+};
+
+export type ContextWindow = {
+  messages: Message[];
+  // oldest messages left out to fit the budget
+  dropped: Message[];
+  tokens: number;
+};
+
+// Rough estimate, most tokenizers average about 4 characters per token for
+// English. Each message also costs a few tokens for its role and separators.
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateMessageTokens(message: Message) {
+  return estimateTokens(message.content) + 4;
+}
+
+// Keeps the leading system messages and the last keepTurns turns, then fills
+// the remaining budget with as many of the newer messages as fit. Older
+// messages are dropped whole, starting from the oldest.
+export function fitContextWindow(messages: Message[], options: ContextWindowOptions): ContextWindow {
+  let systemEnd = 0;
+  while (systemEnd < messages.length && messages[systemEnd].role === "system") {
+    systemEnd++;
+  }
+
+  const system = messages.slice(0, systemEnd);
+  const history = messages.slice(systemEnd);
+  const keepCount = Math.min(history.length, Math.max(1, options.keepTurns * 2));
+  const kept = history.slice(history.length - keepCount);
+  const older = history.slice(0, history.length - keepCount);
+
+  const sum = (list: Message[]) => list.reduce((total, m) => total + estimateMessageTokens(m), 0);
+  let tokens = sum(system) + sum(kept);
+
+  let firstIncluded = older.length;
+  while (firstIncluded > 0) {
+    const cost = estimateMessageTokens(older[firstIncluded - 1]);
+    if (tokens + cost > options.budget) {
+      break;
+    }
+    tokens += cost;
+    firstIncluded--;
+  }
+
+  return {
+    messages: [...system, ...older.slice(firstIncluded), ...kept],
+    dropped: older.slice(0, firstIncluded),
+    tokens,
+  };
+}
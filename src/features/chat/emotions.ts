@@ -0,0 +1,9 @@
+// Expressions of the character, kept apart from messages.ts so that the
+// inline markup parser can match them without a circular import
+export const emotions = [
+  "neutral", "happy", "angry", "sad", "relaxed", "Surprised",
+  "Shy", "Jealous", "Bored", "Serious", "Suspicious", "Victory",
+  "Sleep", "Love",
+] as const;
+
+export type EmotionType = (typeof emotions)[number];
@@ -0,0 +1,55 @@
+import { config } from "@/utils/config";
+
+// Generation parameters are stored per backend as `${prefix}_${param}`,
+// an empty value means the parameter is not sent and the server default is used
+export const generationParamNames = [
+  "temperature",
+  "top_p",
+  "max_tokens",
+  "repetition_penalty",
+  "seed",
+  "stop_sequence",
+] as const;
+export type GenerationParam = (typeof generationParamNames)[number];
+
+export type GenerationParams = {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  repetitionPenalty?: number;
+  seed?: number;
+  stop: string[];
+};
+
+export function generationConfigKeys(prefix: string, params: readonly GenerationParam[]) {
+  return params.map((param) => `${prefix}_${param}`);
+}
+
+// stop sequences are stored as a single string separated by ||
+export function parseStopSequence(value: string): string[] {
+  return value.split("||").filter((s) => s !== "");
+}
+
+function numberParam(key: string, parse: (value: string) => number): number | undefined {
+  const value = config(key).trim();
+  if (value === "") {
+    return undefined;
+  }
+
+  const num = parse(value);
+  return isNaN(num) ? undefined : num;
+}
+
+// Reads the params listed for a backend, the ones not listed are left undefined
+export function getGenerationParams(prefix: string, params: readonly GenerationParam[]): GenerationParams {
+  const has = (param: GenerationParam) => params.includes(param);
+
+  return {
+    temperature: has("temperature") ? numberParam(`${prefix}_temperature`, parseFloat) : undefined,
+    topP: has("top_p") ? numberParam(`${prefix}_top_p`, parseFloat) : undefined,
+    maxTokens: has("max_tokens") ? numberParam(`${prefix}_max_tokens`, parseInt) : undefined,
+    repetitionPenalty: has("repetition_penalty") ? numberParam(`${prefix}_repetition_penalty`, parseFloat) : undefined,
+    seed: has("seed") ? numberParam(`${prefix}_seed`, parseInt) : undefined,
+    stop: has("stop_sequence") ? parseStopSequence(config(`${prefix}_stop_sequence`)) : [],
+  };
+}
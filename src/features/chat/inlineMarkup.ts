@@ -0,0 +1,272 @@
+import { animationList } from "@/paths";
+import { emotions } from "./emotions";
+
+// Inline markup the assistant uses to act while it talks:
+//   [happy]                 switch emotion, anywhere in a sentence
+//
+// Markup within code spans and fenced code blocks is code and kept as is.
+//   *waves*                 gesture, plays a matching animation if there is one
+//   <anim name="dance"/>    play an animation by name
+//   <pause 500ms>           wait before going on, also <pause 1.5s>
+//   <look at="user">        look at the user, away, left, right, up or down
+
+export type MarkupEvent =
+  | { type: "text"; text: string }
+  | { type: "emotion"; name: string }
+  | { type: "gesture"; description: string; url: string | null }
+  | { type: "animation"; name: string; url: string | null }
+  | { type: "pause"; ms: number }
+  | { type: "look"; at: string };
+
+// longest pause the assistant can ask for
+const MAX_PAUSE_MS = 10000;
+
+// only emotion names are tags, other words in brackets such as data[key] are kept
+const emotionTagPattern = new RegExp(`\\[(${emotions.join("|")})\\](?!\\()`);
+const cueTagPattern = /<\/?(anim|pause|look)\b([^<>]*)>/;
+// bold is matched so that it is not taken for two gestures
+const markupPattern = new RegExp(
+  [
+    emotionTagPattern.source,
+    /(\*\*[^*\n]+\*\*)/.source,
+    /\*(?![\s*])([^*\n]+?)\*/.source,
+    cueTagPattern.source,
+  ].join("|"),
+  "gi",
+);
+// fenced code blocks run to the end of the text until they are closed
+const codePattern = /(```|~~~)[\s\S]*?(\1|$)|`[^`\n]+`/g;
+
+// animations by name, the file names without extension are names as well
+const animationAliases: { [name: string]: string } = {
+  wave: "greeting",
+  greet: "greeting",
+  hello: "greeting",
+  peace: "peaceSign",
+  pose: "modelPose",
+  show: "showFullBody",
+  twirl: "spin",
+};
+
+// words in a gesture which play an animation, e.g. *waves happily*
+const gestureAnimations: [RegExp, string][] = [
+  [/\b(wav(e|es|ing)|greet(s|ing)?)\b/i, "greeting"],
+  [/\bdanc(e|es|ing)\b/i, "dance"],
+  [/\b(spin(s|ning)?|twirl(s|ing)?)\b/i, "spin"],
+  [/\bsquat(s|ting)?\b/i, "squat"],
+  [/\bpeace sign\b/i, "peaceSign"],
+  [/\bpos(e|es|ing)\b/i, "modelPose"],
+  [/\bshoot(s|ing)?\b/i, "shoot"],
+  [/\bshow(s|ing)? off\b/i, "showFullBody"],
+];
+
+function animationByFile(file: string) {
+  return animationList.find((url) => url.toLowerCase().endsWith(`/${file.toLowerCase()}.vrma`)) ?? null;
+}
+
+export function animationUrl(name: string): string | null {
+  return animationByFile(animationAliases[name.toLowerCase()] ?? name);
+}
+
+function gestureUrl(description: string) {
+  const found = gestureAnimations.find(([pattern]) => pattern.test(description));
+  return found ? animationByFile(found[1]) : null;
+}
+
+// name="wave" and bare arguments such as 500ms
+function parseAttributes(source: string) {
+  const attributes: { [name: string]: string } = {};
+  const args: string[] = [];
+  const pattern = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'/>]+))|([^\s/=]+)/g;
+  let match;
+  while ((match = pattern.exec(source)) !== null) {
+    if (match[5] !== undefined) {
+      args.push(match[5]);
+    } else {
+      attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4];
+    }
+  }
+  return { attributes, args };
+}
+
+// 500ms, 500 or 1.5s
+function parseDuration(value: string | undefined) {
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)?$/i);
+  if (! match) {
+    return null;
+  }
+  const ms = parseFloat(match[1]) * (match[2]?.toLowerCase() === "s" ? 1000 : 1);
+  return Math.min(Math.round(ms), MAX_PAUSE_MS);
+}
+
+function cueEvent(tag: string, source: string): MarkupEvent | null {
+  const { attributes, args } = parseAttributes(source);
+  switch (tag.toLowerCase()) {
+    case "anim": {
+      const name = attributes.name ?? args[0];
+      return name ? { type: "animation", name, url: animationUrl(name) } : null;
+    }
+    case "pause": {
+      const ms = parseDuration(attributes.ms ?? attributes.time ?? attributes.duration ?? args[0]);
+      return ms !== null ? { type: "pause", ms } : null;
+    }
+    case "look": {
+      const at = attributes.at ?? args[0];
+      return at ? { type: "look", at: at.toLowerCase() } : null;
+    }
+  }
+  return null;
+}
+
+// Markup found outside of code
+function markupMatches(text: string) {
+  const code = Array.from(text.matchAll(codePattern), (match) => [match.index!, match.index! + match[0].length]);
+  return Array.from(text.matchAll(markupPattern)).filter((match) => (
+    ! code.some(([start, end]) => match.index! >= start && match.index! < end)
+  ));
+}
+
+// Splits a sentence into text and the cues within it, in order. Tags
+// which can not be understood are dropped, other text is kept as is.
+export function parseInlineMarkup(text: string): MarkupEvent[] {
+  const events: MarkupEvent[] = [];
+  const pushText = (value: string) => {
+    if (value === "") {
+      return;
+    }
+    const last = events[events.length - 1];
+    if (last?.type === "text") {
+      last.text += value;
+    } else {
+      events.push({ type: "text", text: value });
+    }
+  };
+
+  let index = 0;
+  for (const match of markupMatches(text)) {
+    pushText(text.slice(index, match.index));
+    index = match.index! + match[0].length;
+
+    const [source, emotion, bold, gesture, tag, attributes] = match;
+    if (emotion !== undefined) {
+      events.push({ type: "emotion", name: emotion });
+    } else if (bold !== undefined) {
+      pushText(source);
+    } else if (gesture !== undefined) {
+      events.push({ type: "gesture", description: gesture.trim(), url: gestureUrl(gesture) });
+    } else if (! source.startsWith("</")) {
+      const event = cueEvent(tag, attributes);
+      if (event) {
+        events.push(event);
+      }
+    }
+  }
+  pushText(text.slice(index));
+
+  return events;
+}
+
+// A line within a fenced code block, where only the emotion tag leading it
+// is markup
+export function parseCodeLine(text: string): MarkupEvent[] {
+  const match = text.match(new RegExp(`^\\s*${emotionTagPattern.source}`, "i"));
+  const code = match ? text.slice(match[0].length) : text;
+  return [
+    ...(match ? [{ type: "emotion" as const, name: match[1] }] : []),
+    ...(code !== "" ? [{ type: "text" as const, text: code }] : []),
+  ];
+}
+
+// Whether text which ends here is within a fenced code block
+export function isInCodeBlock(text: string) {
+  return (text.match(/^\s*(```|~~~)/gm)?.length ?? 0) % 2 === 1;
+}
+
+// The text which is spoken, without cues and gestures
+export function spokenText(events: MarkupEvent[]) {
+  return events
+    .map((event) => event.type === "text" ? event.text : "")
+    .join("")
+    .replace(/\s{2,}/g, " ");
+}
+
+// Where markup starts which has not been closed yet, as it is still being
+// received, or the length of the text
+export function unfinishedMarkupIndex(text: string) {
+  const masked = maskInlineMarkup(text);
+  const unfinished = masked.match(/\[[a-zA-Z]*$|\*(?![\s*])[^*\n]*$|<\/?[a-zA-Z]*$|<\/?(anim|pause|look)\b[^<>]*$/i);
+  return unfinished ? unfinished.index! : text.length;
+}
+
+// The text with complete markup blanked out, keeping its length, so that
+// sentences are not split within a tag or gesture
+export function maskInlineMarkup(text: string) {
+  let masked = text;
+  for (const match of markupMatches(text)) {
+    const [source, , bold] = match;
+    if (bold === undefined) {
+      masked = masked.slice(0, match.index) + " ".repeat(source.length) + masked.slice(match.index! + source.length);
+    }
+  }
+  return masked;
+}
+
+// A pause ends the audio it follows, the text is split after each one so
+// that it is spoken in pieces with the pauses between them
+export function splitAfterPauses(text: string): string[] {
+  const parts = text.split(/(<pause\b[^<>]*>)/i);
+  const pieces: string[] = [];
+  for (let i = 0; i < parts.length; i += 2) {
+    const piece = parts[i] + (parts[i + 1] ?? "");
+    if (piece.trim() !== "" || pieces.length === 0) {
+      pieces.push(piece);
+    }
+  }
+  return pieces;
+}
+
+export type CuePlan = {
+  // played before the audio starts
+  before: MarkupEvent[];
+  // played while the audio plays, at is the share of it spoken before them
+  during: { at: number; event: MarkupEvent }[];
+  // played once the audio ended
+  after: MarkupEvent[];
+};
+
+// Times the cues of a sentence by the share of the spoken text before them
+export function planCues(events: MarkupEvent[]): CuePlan {
+  const plan: CuePlan = { before: [], during: [], after: [] };
+  const lengths = events.map((event) => event.type === "text" ? event.text.trim().length : 0);
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+
+  let spoken = 0;
+  events.forEach((event, i) => {
+    if (event.type === "text") {
+      spoken += lengths[i];
+    } else if (spoken === 0) {
+      plan.before.push(event);
+    } else if (spoken === total) {
+      plan.after.push(event);
+    } else {
+      plan.during.push({ at: spoken / total, event });
+    }
+  });
+
+  return plan;
+}
+
+// Removes emotion and cue tags for display, leaving Markdown links, task
+// list boxes and gestures, which are shown in italics
+export function stripMarkupTags(text: string) {
+  let stripped = "";
+  let index = 0;
+  for (const match of markupMatches(text)) {
+    const [source, emotion, , , tag] = match;
+    if (emotion !== undefined || tag !== undefined) {
+      stripped += text.slice(index, match.index);
+      index = match.index! + source.length;
+    }
+  }
+  return stripped + text.slice(index);
+}
@@ -1,65 +1,95 @@
 import { Message } from "./messages";
-import { buildPrompt } from "@/utils/buildPrompt";
+import { buildPrompt, getChatTemplate, templateStopSequences } from "@/utils/buildPrompt";
+import { GenerationParam, getGenerationParams } from "./generationParams";
+import { ChatStreamOptions } from "./chatBackend";
 import { config } from '@/utils/config';
+import { waitUntil } from '@/utils/wait';
+import { ProbeInfo, fetchProbe } from '@/utils/probeBackend';
+import { readSseEvents } from '@/utils/streamParsers';
 
-export async function getKoboldAiChatResponseStream(messages: Message[]) {
+export const koboldAiGenerationParams: GenerationParam[] = [
+  "temperature", "top_p", "max_tokens", "repetition_penalty", "seed", "stop_sequence",
+];
+
+const ABORT_TIMEOUT_MS = 3000;
+
+// koboldcpp tells concurrent generations apart by their genkey, which is
+// needed to abort one. Cleared once the generation finished.
+let currentGenkey: string | null = null;
+
+function startGeneration() {
+  const genkey = `KCPP${Math.floor(Math.random() * 10000).toString().padStart(4, "0")}`;
+  currentGenkey = genkey;
+  return {
+    genkey,
+    finished: () => {
+      if (currentGenkey === genkey) {
+        currentGenkey = null;
+      }
+    },
+  };
+}
+
+// maps the shared generation params to the KoboldAI generate api
+function koboldAiGenerationBody() {
+  const params = getGenerationParams("koboldai", koboldAiGenerationParams);
+  return {
+    max_length: params.maxTokens,
+    temperature: params.temperature,
+    top_p: params.topP,
+    rep_pen: params.repetitionPenalty,
+    sampler_seed: params.seed,
+    stop_sequence: [...templateStopSequences(getChatTemplate("koboldai")), ...params.stop],
+  };
+}
+
+export async function getKoboldAiChatResponseStream(messages: Message[], options?: ChatStreamOptions) {
   if (config("koboldai_use_extra") === 'true') {
-    return getExtra(messages);
+    return getExtra(messages, options?.signal);
   } else {
-    return getNormal(messages);
+    return getNormal(messages, options?.signal);
   }
 }
 
 // koboldcpp / stream support
-async function getExtra(messages: Message[]) {
+async function getExtra(messages: Message[], signal?: AbortSignal) {
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
   };
-  const prompt = buildPrompt(messages);
-  const stop_sequence: string[] = [`${config("name")}:`, ...`${config("koboldai_stop_sequence")}`.split("||")];
+  const prompt = buildPrompt(messages, getChatTemplate("koboldai"));
+  const { genkey, finished } = startGeneration();
 
   const res = await fetch(`${config("koboldai_url")}/api/extra/generate/stream`, {
     headers: headers,
     method: "POST",
     body: JSON.stringify({
       prompt,
-      stop_sequence
+      genkey,
+      ...koboldAiGenerationBody(),
     }),
+    signal,
+  }).catch((e) => {
+    finished();
+    throw e;
   });
 
   const reader = res.body?.getReader();
   if (res.status !== 200 || ! reader) {
+    finished();
     throw new Error(`KoboldAi chat error (${res.status})`);
   }
 
   const stream = new ReadableStream({
     async start(controller: ReadableStreamDefaultController) {
-      const decoder = new TextDecoder("utf-8");
       try {
-        let buffer = "";
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          buffer += decoder.decode(value);
-
-          let eolIndex;
-          while ((eolIndex = buffer.indexOf('\n')) >= 0) {
-            const line = buffer.substring(0, eolIndex).trim();
-            buffer = buffer.substring(eolIndex + 1);
-
-            if (line.startsWith('data:')) {
-              try {
-                const json = JSON.parse(line.substring(5));
-                const messagePiece = json.token;
-                if (messagePiece) {
-                  controller.enqueue(messagePiece);
-                }
-              } catch (error) {
-                console.error("JSON parsing error:", error, "in line:", line);
-              }
-            }
+        for await (const event of readSseEvents(reader)) {
+          const json = JSON.parse(event.data);
+          const messagePiece = json.token;
+          if (messagePiece) {
+            controller.enqueue(messagePiece);
           }
         }
+        finished();
       } catch (error) {
         console.error("Stream error:", error);
         controller.error(error);
@@ -78,23 +108,29 @@ async function getExtra(messages: Message[]) {
 }
 
 // koboldai / no stream support
-async function getNormal(messages: Message[]) {
+async function getNormal(messages: Message[], signal?: AbortSignal) {
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
   };
 
-  const prompt = buildPrompt(messages);
-  const stop_sequence: string[] = [`${config("name")}:`, ...`${config("koboldai_stop_sequence")}`.split("||")];
+  const prompt = buildPrompt(messages, getChatTemplate("koboldai"));
+  const { genkey, finished } = startGeneration();
 
   const res = await fetch(`${config("koboldai_url")}/api/v1/generate`, {
     headers: headers,
     method: "POST",
     body: JSON.stringify({
       prompt,
-      stop_sequence
+      genkey,
+      ...koboldAiGenerationBody(),
     }),
+    signal,
+  }).catch((e) => {
+    finished();
+    throw e;
   });
 
+  finished();
   const json = await res.json();
   if (json.results.length === 0) {
     throw new Error(`KoboldAi result length 0`);
@@ -118,3 +154,59 @@ async function getNormal(messages: Message[]) {
 
   return stream;
 }
+
+// koboldcpp aborts the generation with the genkey, then /api/extra/perf
+// reports idle once it stopped. KoboldAI without the extra api can't abort.
+export async function abortKoboldAiGeneration() {
+  const genkey = currentGenkey;
+  currentGenkey = null;
+  if (! genkey) {
+    return;
+  }
+
+  const url = config("koboldai_url");
+  const res = await fetch(`${url}/api/extra/abort`, {
+    headers: { "Content-Type": "application/json" },
+    method: "POST",
+    body: JSON.stringify({ genkey }),
+  });
+  if (res.status === 404) {
+    console.debug("KoboldAI server does not support aborting generations");
+    return;
+  }
+  if (! res.ok) {
+    throw new Error(`KoboldAi abort error (${res.status})`);
+  }
+
+  // false when the generation already finished
+  const json = await res.json();
+  if (String(json.success) !== "true") {
+    return;
+  }
+
+  const stopped = await waitUntil(async () => {
+    const perf = await (await fetch(`${url}/api/extra/perf`)).json();
+    return !! perf.idle;
+  }, ABORT_TIMEOUT_MS);
+  if (! stopped) {
+    throw new Error(`KoboldAi generation did not stop within ${ABORT_TIMEOUT_MS}ms`);
+  }
+}
+
+export async function probeKoboldAi(): Promise<ProbeInfo> {
+  const url = config("koboldai_url");
+  const model = await (await fetchProbe(`${url}/api/v1/model`)).json();
+  const capabilities: string[] = [];
+  // only koboldcpp has the extra api, which is needed for streaming
+  try {
+    const version = await (await fetchProbe(`${url}/api/extra/version`)).json();
+    capabilities.push(`${version.result} ${version.version}`, "streaming");
+  } catch (e) {
+    capabilities.push("no streaming");
+  }
+
+  return {
+    models: model.result ? [model.result] : [],
+    capabilities,
+  };
+}
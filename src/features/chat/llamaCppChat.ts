@@ -1,70 +1,100 @@
 import { Message } from "./messages";
-import { buildPrompt, buildVisionPrompt } from "@/utils/buildPrompt";
+import { buildPrompt, buildVisionPrompt, getChatTemplate, templateStopSequences } from "@/utils/buildPrompt";
+import { GenerationParam, getGenerationParams } from "./generationParams";
+import { ChatStreamOptions } from "./chatBackend";
 import { config } from '@/utils/config';
+import { waitUntil } from '@/utils/wait';
+import { ProbeInfo, fetchProbe } from '@/utils/probeBackend';
+import { readSseEvents } from '@/utils/streamParsers';
+
+export const llamaCppGenerationParams: GenerationParam[] = [
+  "temperature", "top_p", "max_tokens", "repetition_penalty", "seed", "stop_sequence",
+];
+
+const ABORT_TIMEOUT_MS = 3000;
+
+type LlamaCppGeneration = {
+  url: string;
+  // the slot is known once the first chunk arrived
+  slot?: number;
+};
+
+// the completion still being generated, cleared once it finished
+let currentGeneration: LlamaCppGeneration | null = null;
+
+// Yields the content of a streamed /completion response until it stops
+async function* readCompletion(reader: ReadableStreamDefaultReader<Uint8Array>, generation?: LlamaCppGeneration) {
+  for await (const event of readSseEvents(reader)) {
+    if (event.data === "[DONE]") {
+      return;
+    }
+    const json = JSON.parse(event.data);
+    if (json.error) {
+      throw new Error(`LlamaCpp stream error: ${json.error.message ?? JSON.stringify(json.error)}`);
+    }
+    if (generation) {
+      generation.slot = json.id_slot ?? json.slot_id ?? generation.slot;
+    }
+    if (!! json.content) {
+      yield json.content as string;
+    }
+    if (json.stop) {
+      return;
+    }
+  }
+}
 
-export async function getLlamaCppChatResponseStream(messages: Message[]) {
+export async function getLlamaCppChatResponseStream(messages: Message[], options?: ChatStreamOptions) {
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
     "Connection": "keep-alive",
     "Accept": "text/event-stream",
   };
-  const prompt = buildPrompt(messages);
-  const stop: string[] = [`${config("name")}:`, ...`${config("llamacpp_stop_sequence")}`.split("||")];
-  const res = await fetch(`${config("llamacpp_url")}/completion`, {
+  const template = getChatTemplate("llamacpp");
+  const prompt = buildPrompt(messages, template);
+  const params = getGenerationParams("llamacpp", llamaCppGenerationParams);
+  const stop: string[] = [...templateStopSequences(template), ...params.stop];
+  const generation: LlamaCppGeneration = { url: config("llamacpp_url") };
+  currentGeneration = generation;
+  const finished = () => {
+    if (currentGeneration === generation) {
+      currentGeneration = null;
+    }
+  };
+
+  const res = await fetch(`${generation.url}/completion`, {
     headers: headers,
     method: "POST",
     body: JSON.stringify({
       stream: true,
-      n_predict: 400,
-      temperature: 0.7,
+      n_predict: params.maxTokens,
+      temperature: params.temperature,
+      top_p: params.topP,
+      repeat_penalty: params.repetitionPenalty,
+      seed: params.seed,
       cache_prompt: true,
       stop,
       prompt,
     }),
+    signal: options?.signal,
+  }).catch((e) => {
+    finished();
+    throw e;
   });
 
   const reader = res.body?.getReader();
   if (res.status !== 200 || ! reader) {
+    finished();
     throw new Error(`LlamaCpp chat error (${res.status})`);
   }
 
   const stream = new ReadableStream({
     async start(controller: ReadableStreamDefaultController) {
-      const decoder = new TextDecoder("utf-8");
       try {
-        // sometimes the response is chunked, so we need to combine the chunks
-        let combined = "";
-        let cont = true;
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done || ! cont) break;
-          const data = decoder.decode(value);
-          const chunks = data
-            .split("data:")
-            .filter((val) => !!val && val.trim() !== "[DONE]");
-
-          for (const chunk of chunks) {
-            // skip comments
-            if (chunk.length > 0 && chunk[0] === ":") {
-              continue;
-            }
-            combined += chunk;
-
-            try {
-              const json = JSON.parse(combined);
-              if (json.stop) {
-                cont = false;
-              }
-              const messagePiece = json.content;
-              combined = "";
-              if (!!messagePiece) {
-                controller.enqueue(messagePiece);
-              }
-            } catch (error) {
-              console.error(error);
-            }
-          }
+        for await (const messagePiece of readCompletion(reader, generation)) {
+          controller.enqueue(messagePiece);
         }
+        finished();
       } catch (error) {
         console.error(error);
         controller.error(error);
@@ -82,7 +112,7 @@ export async function getLlamaCppChatResponseStream(messages: Message[]) {
   return stream;
 }
 
-export async function getLlavaCppChatResponse(messages: Message[], imageData: string) {
+export async function getLlavaCppChatResponse(messages: Message[], imageData: string, signal?: AbortSignal) {
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
     "Connection": "keep-alive",
@@ -109,6 +139,7 @@ export async function getLlavaCppChatResponse(messages: Message[], imageData: st
       }],
       prompt,
     }),
+    signal,
   });
 
   if (! res.ok) {
@@ -125,40 +156,9 @@ export async function getLlavaCppChatResponse(messages: Message[], imageData: st
   // Fetch the original image
   const stream = new ReadableStream({
     async start(controller: ReadableStreamDefaultController) {
-      const decoder = new TextDecoder("utf-8");
       try {
-        // sometimes the response is chunked, so we need to combine the chunks
-        let combined = "";
-        let cont = true;
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done || ! cont) break;
-          const data = decoder.decode(value);
-          const chunks = data
-            .split("data:")
-            .filter((val) => !!val && val.trim() !== "[DONE]");
-
-          for (const chunk of chunks) {
-            // skip comments
-            if (chunk.length > 0 && chunk[0] === ":") {
-              continue;
-            }
-            combined += chunk;
-
-            try {
-              const json = JSON.parse(combined);
-              if (json.stop) {
-                cont = false;
-              }
-              const messagePiece = json.content;
-              combined = "";
-              if (!!messagePiece) {
-                controller.enqueue(messagePiece);
-              }
-            } catch (error) {
-              console.error(error);
-            }
-          }
+        for await (const messagePiece of readCompletion(reader)) {
+          controller.enqueue(messagePiece);
         }
       } catch (error) {
         console.error(error);
@@ -185,3 +185,66 @@ export async function getLlavaCppChatResponse(messages: Message[], imageData: st
 
   return combined;
 }
+
+// Slots report is_processing, older servers a state which is 0 when idle
+function isSlotIdle(slot: any) {
+  return slot.is_processing !== undefined ? ! slot.is_processing : slot.state === 0;
+}
+
+// The server cancels the task of a slot once its request disconnects, which
+// aborting the request signal does. This waits until /slots shows the slot
+// idle again. Servers started with --no-slots can't be checked.
+export async function abortLlamaCppGeneration() {
+  const generation = currentGeneration;
+  currentGeneration = null;
+  if (! generation) {
+    return;
+  }
+
+  const stopped = await waitUntil(async () => {
+    const res = await fetch(`${generation.url}/slots`);
+    if (! res.ok) {
+      console.debug(`llama.cpp slots unavailable (${res.status}), cannot confirm the generation stopped`);
+      return true;
+    }
+    const slots: any[] = await res.json();
+    // without a slot id the request was aborted before any token, wait for all
+    return slots
+      .filter((slot) => generation.slot === undefined || slot.id === generation.slot)
+      .every(isSlotIdle);
+  }, ABORT_TIMEOUT_MS);
+
+  if (! stopped) {
+    throw new Error(`LlamaCpp generation did not stop within ${ABORT_TIMEOUT_MS}ms`);
+  }
+}
+
+// The server runs a single model, /props tells which and how it is set up
+export async function probeLlamaCpp(url: string): Promise<ProbeInfo> {
+  const health = await (await fetchProbe(`${url}/health`)).json();
+  if (health.status && health.status !== "ok") {
+    throw new Error(`Server status: ${health.status}`);
+  }
+
+  const props = await (await fetchProbe(`${url}/props`)).json();
+  const settings = props.default_generation_settings ?? {};
+  const model: string | undefined = settings.model ?? props.model_path;
+  const capabilities: string[] = [];
+  if (settings.n_ctx) {
+    capabilities.push(`context ${settings.n_ctx}`);
+  }
+  if (props.total_slots) {
+    capabilities.push(`${props.total_slots} slots`);
+  }
+  if (props.chat_template) {
+    capabilities.push("chat template");
+  }
+  if (props.modalities?.vision) {
+    capabilities.push("vision");
+  }
+
+  return {
+    models: model ? [model.split(/[\\/]/).pop()!] : [],
+    capabilities,
+  };
+}
@@ -0,0 +1,120 @@
+import { Message } from "./messages";
+
+// Every message ever sent in a conversation, as a tree. Editing a message or
+// regenerating a reply adds a sibling instead of overwriting, the chat log is
+// the path from the root to the current node.
+
+export type MessageNode = {
+  id: number;
+  parent: number | null;
+  message: Message;
+  // child on the path last time this node was active, followed when switching
+  // to this node from a sibling
+  selectedChild: number | null;
+};
+
+export type MessageTree = {
+  nodes: MessageNode[];
+  // last node of the active path, null for an empty chat
+  current: number | null;
+  // root on the path last time it was active
+  selectedRoot: number | null;
+};
+
+export function createMessageTree(messages: Message[] = []): MessageTree {
+  const tree: MessageTree = { nodes: [], current: null, selectedRoot: null };
+  setActiveMessages(tree, messages);
+  return tree;
+}
+
+export function cloneMessageTree(tree: MessageTree): MessageTree {
+  return JSON.parse(JSON.stringify(tree));
+}
+
+export function children(tree: MessageTree, parent: number | null) {
+  return tree.nodes.filter((node) => node.parent === parent);
+}
+
+export function activePath(tree: MessageTree): MessageNode[] {
+  const path: MessageNode[] = [];
+  let id = tree.current;
+  while (id !== null) {
+    const node = tree.nodes[id];
+    path.unshift(node);
+    id = node.parent;
+  }
+  return path;
+}
+
+export function activeMessages(tree: MessageTree): Message[] {
+  return activePath(tree).map((node) => node.message);
+}
+
+function sameMessage(a: Message, b: Message) {
+  return a.role === b.role && a.content === b.content;
+}
+
+function select(tree: MessageTree, node: MessageNode) {
+  if (node.parent === null) {
+    tree.selectedRoot = node.id;
+  } else {
+    tree.nodes[node.parent].selectedChild = node.id;
+  }
+}
+
+// Adds the message after the current node, reusing an identical child so that
+// resending the same message does not create an empty branch
+export function appendMessage(tree: MessageTree, message: Message) {
+  let node = children(tree, tree.current).find((child) => sameMessage(child.message, message));
+  if (! node) {
+    node = {
+      id: tree.nodes.length,
+      parent: tree.current,
+      message,
+      selectedChild: null,
+    };
+    tree.nodes.push(node);
+  }
+
+  select(tree, node);
+  tree.current = node.id;
+}
+
+// Makes the messages the active path, branching off where they differ from the tree
+export function setActiveMessages(tree: MessageTree, messages: Message[]) {
+  tree.current = null;
+  for (const message of messages) {
+    appendMessage(tree, message);
+  }
+}
+
+export type SiblingPosition = {
+  // zero based
+  index: number;
+  count: number;
+};
+
+export function siblingPosition(tree: MessageTree, id: number): SiblingPosition {
+  const siblings = children(tree, tree.nodes[id].parent);
+  return {
+    index: siblings.findIndex((node) => node.id === id),
+    count: siblings.length,
+  };
+}
+
+// Moves to the sibling offset places away, continuing along the path that
+// sibling had when it was last active
+export function switchSibling(tree: MessageTree, id: number, offset: number) {
+  const siblings = children(tree, tree.nodes[id].parent);
+  const target = siblings[siblings.findIndex((node) => node.id === id) + offset];
+  if (! target) {
+    return;
+  }
+
+  select(tree, target);
+  let node = target;
+  while (node.selectedChild !== null) {
+    node = tree.nodes[node.selectedChild];
+  }
+  tree.current = node.id;
+}
@@ -1,11 +1,38 @@
-export type Role = "assistant" | "system" | "user";
+import { MarkupEvent, parseCodeLine, parseInlineMarkup, spokenText, splitAfterPauses } from "./inlineMarkup";
+import { EmotionType, emotions } from "./emotions";
+
+export { emotions };
+export type { EmotionType };
+
+export type Role = "assistant" | "system" | "user" | "tool";
+
+export type ToolCall = {
+  id: string;
+  name: string;
+  // JSON encoded arguments, as produced by the model
+  arguments: string;
+};
 
 // ChatGPT API
 export type Message = {
   role: Role;
   content: string;
+  // set on assistant messages which call tools
+  tool_calls?: ToolCall[];
+  // set on tool messages, the id of the call this is the result of
+  tool_call_id?: string;
+  // ISO time the message was added to the chat log
+  timestamp?: string;
+  // set on assistant messages the user talked over, the rest was never said
+  interrupted?: boolean;
 };
 
+// Tool results and the tool calls without text are sent to the chatbot but
+// not shown in the chat log
+export function isChatLogMessage(message: Message): boolean {
+  return message.role !== "tool" && ! (message.tool_calls?.length && message.content === "");
+}
+
 const talkStyles = [
   "talk",
   "happy",
@@ -19,29 +46,18 @@ export type TalkStyle = (typeof talkStyles)[number];
 export type Talk = {
   style: TalkStyle;
   message: string;
+  // the emotion the style comes from, backends vary their prosody by it
+  emotion?: EmotionType;
 };
 
 //Name of all the expression in the vrm 
 export const emotionNames: string[] = [];
 console.log("All emotion names, ",emotionNames);
 
-export const emotions = 
-["neutral", "happy", "angry", "sad", "relaxed", "Surprised", 
-"Shy", "Jealous", "Bored", "Serious", "Suspicious", "Victory", 
-"Sleep", "Love"] as const;
-
-// Convert user input to system format e.g. ["suspicious"] -> ["Sus"], ["sleep"] -> ["Sleep"]
-const userInputToSystem = (input: string) => {
-  const mapping: { [key: string]: string } = {
-    ...Object.fromEntries(emotions
-      .filter(e => e[0] === e[0].toUpperCase())
-      .map(e => [e.toLowerCase(), e]))
-  };
-
-  return mapping[input.toLowerCase()] || input;
-};
-
-type EmotionType = (typeof emotions)[number];
+// The emotion a tag names in any case, e.g. "suspicious" is "Suspicious"
+export function tagToEmotion(tag: string): EmotionType | null {
+  return emotions.find((emotion) => emotion.toLowerCase() === tag.toLowerCase()) ?? null;
+}
 
 /**
  * A set that includes utterances, voice emotions, and model emotional expressions.
@@ -50,38 +66,49 @@ export type Screenplay = {
   expression: EmotionType;
   talk: Talk;
   text: string;
+  // the reply as it was received, newlines included, shown in the chat log
+  // in place of text
+  shown?: string;
+  // the text with the cues played along with it
+  events: MarkupEvent[];
 };
 
+// code is set for lines within a fenced code block, they are spoken as is
 export const textsToScreenplay = (
   texts: string[],
+  code = false,
 ): Screenplay[] => {
   const screenplays: Screenplay[] = [];
-  let prevExpression = "neutral";
-  for (let i = 0; i < texts.length; i++) {
-    const text = texts[i];
-
-    const match = text.match(/\[(.*?)\]/);
-
-    const tag = (match && match[1]) || prevExpression;
-
-    const message = text.replace(/\[(.*?)\]/g, "");
-
-    let expression = prevExpression;
-    const systemTag = userInputToSystem(tag);
-
-    if (emotions.includes(systemTag as any)) {
-      console.log("Emotion detect :",systemTag);
-      expression = systemTag;
-      prevExpression = systemTag;
+  let prevExpression: EmotionType = "neutral";
+  for (const text of code ? texts : texts.flatMap(splitAfterPauses)) {
+    const events = code ? parseCodeLine(text) : parseInlineMarkup(text);
+
+    // emotions ahead of the text set the expression it is spoken with,
+    // later ones are played along with it
+    let expression: EmotionType = prevExpression;
+    for (const event of events) {
+      if (event.type === "text" && event.text.trim() !== "") {
+        break;
+      }
+      const emotion = event.type === "emotion" ? tagToEmotion(event.name) : null;
+      if (emotion) {
+        console.log("Emotion detect :", emotion);
+        expression = emotion;
+      }
     }
+    prevExpression = events.reduce((last, event) => {
+      return event.type === "emotion" ? tagToEmotion(event.name) ?? last : last;
+    }, expression);
 
     screenplays.push({
-      expression: expression as EmotionType,
+      expression,
       talk: {
-        style: emotionToTalkStyle(expression as EmotionType),
-        message: message,
+        style: emotionToTalkStyle(expression),
+        message: spokenText(events),
+        emotion: expression,
       },
-      text: text,
+      text,
+      events,
     });
   }
 
@@ -99,4 +126,4 @@ const emotionToTalkStyle = (emotion: EmotionType): TalkStyle => {
     default:
       return "talk";
   }
-};
\ No newline at end of file
+};
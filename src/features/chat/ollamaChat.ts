@@ -1,18 +1,62 @@
-import { Message } from "./messages";
+import { Message, ToolCall } from "./messages";
 import { buildPrompt } from "@/utils/buildPrompt";
+import { GenerationParam, getGenerationParams } from "./generationParams";
+import { ChatStreamOptions } from "./chatBackend";
+import { toolDefinitions } from "@/features/functionCalling/tools";
 import { config } from '@/utils/config';
+import { ProbeInfo, fetchProbe } from '@/utils/probeBackend';
+import { readNdjson } from '@/utils/streamParsers';
 
-export async function getOllamaChatResponseStream(messages: Message[]) {
+export const ollamaGenerationParams: GenerationParam[] = [
+  "temperature", "top_p", "max_tokens", "repetition_penalty", "seed", "stop_sequence",
+];
+
+// Ollama takes tool call arguments as objects rather than JSON strings. Those
+// which are not valid JSON, e.g. in an imported chat, are sent as empty.
+function parseArguments(call: ToolCall) {
+  try {
+    return JSON.parse(call.arguments || "{}");
+  } catch (e) {
+    console.error(`invalid arguments of tool call ${call.id}`, call.arguments);
+    return {};
+  }
+}
+
+function toOllamaMessage(m: Message) {
+  if (m.tool_calls && m.tool_calls.length > 0) {
+    return {
+      role: m.role,
+      content: m.content,
+      tool_calls: m.tool_calls.map((call) => ({
+        function: { name: call.name, arguments: parseArguments(call) },
+      })),
+    };
+  }
+  return { role: m.role, content: m.content };
+}
+
+export async function getOllamaChatResponseStream(messages: Message[], options?: ChatStreamOptions) {
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
   };
+  const params = getGenerationParams("ollama", ollamaGenerationParams);
   const res = await fetch(`${config("ollama_url")}/api/chat`, {
     headers: headers,
     method: "POST",
     body: JSON.stringify({
       model: config("ollama_model"),
-      messages,
+      messages: messages.map(toOllamaMessage),
+      tools: options?.tools && options.tools.length > 0 ? toolDefinitions(options.tools) : undefined,
+      options: {
+        temperature: params.temperature,
+        top_p: params.topP,
+        num_predict: params.maxTokens,
+        repeat_penalty: params.repetitionPenalty,
+        seed: params.seed,
+        stop: params.stop.length > 0 ? params.stop : undefined,
+      },
     }),
+    signal: options?.signal,
   });
 
   const reader = res.body?.getReader();
@@ -22,30 +66,29 @@ export async function getOllamaChatResponseStream(messages: Message[]) {
 
   const stream = new ReadableStream({
     async start(controller: ReadableStreamDefaultController) {
-      const decoder = new TextDecoder("utf-8");
       try {
-        // Ollama sends chunks of multiple complete JSON objects separated by newlines
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          const data = decoder.decode(value);
-          const jsonResponses = data
-            .trim() // Ollama sends an empty line after the final JSON message...
-            .split("\n")
-            //.filter((val) => !!val) 
-
-          for (const jsonResponse of jsonResponses) {
-            try {
-              const json = JSON.parse(jsonResponse);
-              const messagePiece = json.message.content;
-              if (!!messagePiece) {
-                controller.enqueue(messagePiece);
-              }
-            } catch (error) {
-              console.error(error);
-            }
+        const toolCalls: ToolCall[] = [];
+        // Ollama streams one JSON object per line
+        for await (const json of readNdjson(reader)) {
+          if (json.error) {
+            throw new Error(`Ollama stream error: ${json.error}`);
+          }
+          const messagePiece = json.message?.content;
+          if (!!messagePiece) {
+            controller.enqueue(messagePiece);
+          }
+          // tool calls come complete in a single message
+          for (const call of json.message?.tool_calls ?? []) {
+            toolCalls.push({
+              id: `call_${toolCalls.length}`,
+              name: call.function.name,
+              arguments: JSON.stringify(call.function.arguments ?? {}),
+            });
           }
         }
+        if (toolCalls.length > 0) {
+          options?.onToolCalls?.(toolCalls);
+        }
       } catch (error) {
         console.error(error);
         controller.error(error);
@@ -63,7 +106,7 @@ export async function getOllamaChatResponseStream(messages: Message[]) {
   return stream;
 }
 
-export async function getOllamaVisionChatResponse(messages: Message[], imageData: string) {
+export async function getOllamaVisionChatResponse(messages: Message[], imageData: string, signal?: AbortSignal) {
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
   };
@@ -76,6 +119,7 @@ export async function getOllamaVisionChatResponse(messages: Message[], imageData
       images: [imageData],
       stream: false,
     }),
+    signal,
   });
 
   if (res.status !== 200) {
@@ -85,3 +129,15 @@ export async function getOllamaVisionChatResponse(messages: Message[], imageData
   const json = await res.json();
   return json.response;
 }
+
+// Lists the pulled models, url is passed in as the vision backend uses its own server
+export async function probeOllama(url: string): Promise<ProbeInfo> {
+  const res = await fetchProbe(`${url}/api/tags`);
+  const json = await res.json();
+  const models: string[] = (json.models ?? []).map((model: any) => model.name);
+
+  return {
+    models: models.sort(),
+    capabilities: [`${models.length} models`],
+  };
+}
@@ -1,7 +1,35 @@
-import { Message } from "./messages";
+import { Message, ToolCall } from "./messages";
+import { GenerationParam, getGenerationParams } from "./generationParams";
+import { ChatStreamOptions } from "./chatBackend";
+import { toolDefinitions } from "@/features/functionCalling/tools";
 import { config } from '@/utils/config';
+import { ProbeInfo, probeOpenAiModels } from '@/utils/probeBackend';
+import { readSseEvents } from '@/utils/streamParsers';
 
-export async function getOpenAiChatResponseStream(messages: Message[]) {
+export const openAiGenerationParams: GenerationParam[] = [
+  "temperature", "top_p", "max_tokens", "repetition_penalty", "seed", "stop_sequence",
+];
+
+// tool calls and results use the OpenAI wire format
+function toOpenAiMessage(m: Message) {
+  if (m.role === "tool") {
+    return { role: "tool", content: m.content, tool_call_id: m.tool_call_id };
+  }
+  if (m.tool_calls && m.tool_calls.length > 0) {
+    return {
+      role: m.role,
+      content: m.content || null,
+      tool_calls: m.tool_calls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: m.role, content: m.content };
+}
+
+export async function getOpenAiChatResponseStream(messages: Message[], options?: ChatStreamOptions) {
   const apiKey = config("openai_apikey");
   if (!apiKey) {
     throw new Error("Invalid OpenAI API Key");
@@ -12,15 +40,24 @@ export async function getOpenAiChatResponseStream(messages: Message[]) {
     "HTTP-Referer": "https://amica.arbius.ai",
     "X-Title": "Amica",
   };
+  const params = getGenerationParams("openai", openAiGenerationParams);
   const res = await fetch(`${config("openai_url")}/v1/chat/completions`, {
     headers: headers,
     method: "POST",
     body: JSON.stringify({
       model: config("openai_model"),
-      messages: messages,
+      messages: messages.map(toOpenAiMessage),
+      tools: options?.tools && options.tools.length > 0 ? toolDefinitions(options.tools) : undefined,
       stream: true,
-      max_tokens: 200,
+      max_tokens: params.maxTokens,
+      temperature: params.temperature,
+      top_p: params.topP,
+      // not part of the OpenAI API, but accepted by most compatible servers
+      repetition_penalty: params.repetitionPenalty,
+      seed: params.seed,
+      stop: params.stop.length > 0 ? params.stop : undefined,
     }),
+    signal: options?.signal,
   });
 
   const reader = res.body?.getReader();
@@ -37,37 +74,35 @@ export async function getOpenAiChatResponseStream(messages: Message[]) {
 
   const stream = new ReadableStream({
     async start(controller: ReadableStreamDefaultController) {
-      const decoder = new TextDecoder("utf-8");
       try {
-        // sometimes the response is chunked, so we need to combine the chunks
-        let combined = "";
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          const data = decoder.decode(value);
-          const chunks = data
-            .split("data:")
-            .filter((val) => !!val && val.trim() !== "[DONE]");
-
-          for (const chunk of chunks) {
-            // skip comments
-            if (chunk.length > 0 && chunk[0] === ":") {
-              continue;
-            }
-            combined += chunk;
-
-            try {
-              const json = JSON.parse(combined);
-              const messagePiece = json.choices[0].delta.content;
-              combined = "";
-              if (!!messagePiece) {
-                controller.enqueue(messagePiece);
-              }
-            } catch (error) {
-              console.error(error);
-            }
+        // tool calls arrive in pieces, keyed by their index
+        const toolCalls: ToolCall[] = [];
+        for await (const event of readSseEvents(reader)) {
+          if (event.data === "[DONE]") {
+            break;
+          }
+          const json = JSON.parse(event.data);
+          if (json.error) {
+            throw new Error(`OpenAI stream error: ${json.error.message ?? JSON.stringify(json.error)}`);
+          }
+          // the usage chunk at the end has no choices
+          const delta = json.choices?.[0]?.delta;
+          if (! delta) {
+            continue;
+          }
+          if (!!delta.content) {
+            controller.enqueue(delta.content);
+          }
+          for (const piece of delta.tool_calls ?? []) {
+            const call = toolCalls[piece.index] ??= { id: "", name: "", arguments: "" };
+            call.id += piece.id ?? "";
+            call.name += piece.function?.name ?? "";
+            call.arguments += piece.function?.arguments ?? "";
           }
         }
+        if (toolCalls.length > 0) {
+          options?.onToolCalls?.(toolCalls.filter((call) => !!call));
+        }
       } catch (error) {
         console.error(error);
         controller.error(error);
@@ -84,3 +119,7 @@ export async function getOpenAiChatResponseStream(messages: Message[]) {
 
   return stream;
 }
+
+export async function probeOpenAi(): Promise<ProbeInfo> {
+  return probeOpenAiModels(config("openai_url"), config("openai_apikey"));
+}
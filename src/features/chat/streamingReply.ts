@@ -0,0 +1,41 @@
+import { Message } from "./messages";
+
+// A reply as it is generated, shown ahead of its voice when
+// streaming_text_enabled is set
+export type StreamingReply = {
+  // complete sentences as they were received, in the order they are spoken
+  sentences: string[];
+  // text of the sentence still being generated
+  partial: string;
+  // number of sentences which started playing
+  spoken: number;
+  // true while the last of the spoken sentences plays
+  speaking: boolean;
+};
+
+export function createStreamingReply(): StreamingReply {
+  return { sentences: [], partial: "", spoken: 0, speaking: false };
+}
+
+// Text which was generated but not spoken yet
+export function unspokenText(reply: StreamingReply) {
+  return reply.sentences.slice(reply.spoken).join("") + reply.partial;
+}
+
+// The chat log with the unspoken part of the reply added to the assistant
+// message, which only holds the sentences spoken so far
+export function withStreamingReply(messages: Message[], reply: StreamingReply | null): Message[] {
+  if (! reply) {
+    return messages;
+  }
+  const unspoken = unspokenText(reply);
+  if (unspoken === "") {
+    return messages;
+  }
+
+  const last = messages[messages.length - 1];
+  if (reply.spoken > 0 && last?.role === "assistant") {
+    return [...messages.slice(0, -1), { ...last, content: last.content + unspoken }];
+  }
+  return [...messages, { role: "assistant", content: unspoken }];
+}
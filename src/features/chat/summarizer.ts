@@ -0,0 +1,36 @@
+import { Message } from "./messages";
+import { askLLM } from "@/utils/askLlm";
+import { config } from "@/utils/config";
+
+const summarizerPrompt = `You maintain the long term memory of a conversation. Merge the new part of the conversation into the existing summary. Keep names, facts about the user, promises, preferences and open topics. Write in the third person, in plain sentences without emotion tags, in at most 200 words. Reply with the updated summary only.`;
+
+export function formatTranscript(messages: Message[]) {
+  return messages
+    .filter((m) => m.role === "user" || m.role === "assistant")
+    .map((m) => `${m.role === "user" ? "User" : config("name")}: ${m.content.replace(/\[(.*?)\]/g, "").trim()}`)
+    .join("\n");
+}
+
+// Returns the summary with the messages folded in, or null if the LLM failed
+export async function summarizeMessages(summary: string, messages: Message[]): Promise<string | null> {
+  const prompt = `Existing summary:
+${summary === "" ? "(none)" : summary}
+
+New part of the conversation:
+${formatTranscript(messages)}`;
+
+  const res = await askLLM(summarizerPrompt, prompt, null);
+  if (res.startsWith("Error:") || res.trim() === "") {
+    return null;
+  }
+
+  return res.replace(/\[(.*?)\]/g, "").trim();
+}
+
+// The memory block sent ahead of the recent turns
+export function summaryMessage(summary: string): Message {
+  return {
+    role: "system",
+    content: `Summary of the earlier conversation:\n${summary}`,
+  };
+}
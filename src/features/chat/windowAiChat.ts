@@ -1,21 +1,26 @@
 import { Message } from "./messages";
 import { Output } from "window.ai";
+import { GenerationParam, getGenerationParams } from "./generationParams";
 import { config } from "@/utils/config";
 
+export const windowAiGenerationParams: GenerationParam[] = [
+  "temperature", "max_tokens", "stop_sequence",
+];
 
 export async function getWindowAiChatResponseStream(messages: Message[]) {
+  const params = getGenerationParams("windowai", windowAiGenerationParams);
   const stream = new ReadableStream({
     async start(controller: ReadableStreamDefaultController) {
       try {
         const [response]: Output[] = await window.ai.generateText({
-          messages,
+          // tool messages are rewritten to user messages before reaching here
+          messages: messages.map((m) => ({ role: m.role === "tool" ? "user" : m.role, content: m.content })),
         }, {
-          maxTokens: 400,
-          temperature: 0.7,
+          maxTokens: params.maxTokens,
+          temperature: params.temperature,
           stopSequences: [
-            "</s>",
             `${config('name')}:`,
-            "User:"
+            ...params.stop,
           ],
           onStreamResult: (res: Output | null, error: string | null): void => {
             if (res === null) {
@@ -0,0 +1,274 @@
+import { Message, Role } from "@/features/chat/messages";
+import { stripMarkupTags } from "@/features/chat/inlineMarkup";
+import { TimestampedPrompt } from "@/features/amicaLife/eventHandler";
+import { ConversationCharacter } from "./conversationDb";
+
+export const CHAT_EXPORT_FORMAT = "amica-chat";
+export const CHAT_EXPORT_VERSION = 1;
+
+export type ExportedMessage = Message & {
+  // emotion tags found in the content, in order
+  emotions: string[];
+};
+
+export type ChatExport = {
+  format: typeof CHAT_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  title: string;
+  character: ConversationCharacter;
+  messages: ExportedMessage[];
+  summary: string;
+  // number of messages at the start which the summary covers
+  summarizedCount: number;
+  subconsciousLogs: TimestampedPrompt[];
+};
+
+export type ChatExportInput = Omit<ChatExport, "format" | "version" | "exportedAt" | "messages"> & {
+  messages: Message[];
+};
+
+const roles: Role[] = ["assistant", "system", "user", "tool"];
+
+export function messageEmotions(content: string) {
+  return Array.from(content.matchAll(/\[(.*?)\]/g), (match) => match[1].trim());
+}
+
+export function buildChatExport(input: ChatExportInput): ChatExport {
+  return {
+    format: CHAT_EXPORT_FORMAT,
+    version: CHAT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...input,
+    messages: input.messages.map((m) => ({ ...m, emotions: messageEmotions(m.content) })),
+  };
+}
+
+function fail(path: string, expected: string): never {
+  throw new Error(`Invalid chat file: ${path} must be ${expected}`);
+}
+
+function expectString(value: any, path: string) {
+  if (typeof value !== "string") {
+    fail(path, "a string");
+  }
+  return value;
+}
+
+function expectArray(value: any, path: string): any[] {
+  if (! Array.isArray(value)) {
+    fail(path, "an array");
+  }
+  return value;
+}
+
+function parseMessage(value: any, path: string): Message {
+  if (typeof value !== "object" || value === null) {
+    fail(path, "an object");
+  }
+  if (! roles.includes(value.role)) {
+    fail(`${path}.role`, `one of ${roles.join(", ")}`);
+  }
+
+  const message: Message = {
+    role: value.role,
+    content: expectString(value.content, `${path}.content`),
+  };
+  if (value.timestamp !== undefined) {
+    message.timestamp = expectString(value.timestamp, `${path}.timestamp`);
+  }
+  if (value.tool_calls !== undefined) {
+    message.tool_calls = expectArray(value.tool_calls, `${path}.tool_calls`).map((call, i) => ({
+      id: expectString(call?.id, `${path}.tool_calls[${i}].id`),
+      name: expectString(call?.name, `${path}.tool_calls[${i}].name`),
+      arguments: expectString(call?.arguments, `${path}.tool_calls[${i}].arguments`),
+    }));
+  }
+  if (value.tool_call_id !== undefined) {
+    message.tool_call_id = expectString(value.tool_call_id, `${path}.tool_call_id`);
+  }
+  if (value.interrupted !== undefined) {
+    if (typeof value.interrupted !== "boolean") {
+      fail(`${path}.interrupted`, "a boolean");
+    }
+    message.interrupted = value.interrupted;
+  }
+
+  return message;
+}
+
+// Validates a JSON export, throwing an error which names the offending field
+export function parseChatExport(text: string): ChatExport {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error("Invalid chat file: not valid JSON");
+  }
+
+  if (typeof data !== "object" || data === null || data.format !== CHAT_EXPORT_FORMAT) {
+    fail("format", `"${CHAT_EXPORT_FORMAT}"`);
+  }
+  if (typeof data.version !== "number" || data.version > CHAT_EXPORT_VERSION) {
+    throw new Error(`Unsupported chat file version ${data.version}, this version of Amica reads up to version ${CHAT_EXPORT_VERSION}`);
+  }
+
+  const character = data.character ?? {};
+  const messages = expectArray(data.messages, "messages").map((m, i) => parseMessage(m, `messages[${i}]`));
+  if (messages.length === 0) {
+    fail("messages", "a non-empty array");
+  }
+  const summarizedCount = data.summarizedCount ?? 0;
+  if (typeof summarizedCount !== "number" || summarizedCount < 0 || summarizedCount > messages.length) {
+    fail("summarizedCount", `a number between 0 and ${messages.length}`);
+  }
+
+  return {
+    format: CHAT_EXPORT_FORMAT,
+    version: data.version,
+    exportedAt: expectString(data.exportedAt ?? "", "exportedAt"),
+    title: expectString(data.title ?? "", "title"),
+    character: {
+      name: expectString(character.name ?? "", "character.name"),
+      systemPrompt: expectString(character.systemPrompt ?? "", "character.systemPrompt"),
+      vrmUrl: expectString(character.vrmUrl ?? "", "character.vrmUrl"),
+      vrmHash: expectString(character.vrmHash ?? "", "character.vrmHash"),
+    },
+    messages: messages.map((m) => ({ ...m, emotions: messageEmotions(m.content) })),
+    summary: expectString(data.summary ?? "", "summary"),
+    summarizedCount,
+    subconsciousLogs: expectArray(data.subconsciousLogs ?? [], "subconsciousLogs").map((log, i) => ({
+      prompt: expectString(log?.prompt, `subconsciousLogs[${i}].prompt`),
+      timestamp: expectString(log?.timestamp, `subconsciousLogs[${i}].timestamp`),
+    })),
+  };
+}
+
+// Reads the old `role : content` text format. Lines without a role prefix
+// continue the previous message, so multi-line messages survive.
+export function parseTxtChat(text: string): ChatExportInput {
+  const messages: Message[] = [];
+  let summary = "";
+  let summarizedCount = 0;
+  let current: { role: Role | "summary"; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (! current) {
+      return;
+    }
+    const content = current.lines.join("\n").trim();
+    if (current.role === "summary") {
+      summary = content;
+      summarizedCount = messages.length;
+    } else {
+      messages.push({ role: current.role, content });
+    }
+    current = null;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(/^(user|assistant|system|tool|summary)\s*:\s?(.*)$/);
+    if (match) {
+      flush();
+      current = { role: match[1] as Role | "summary", lines: [match[2]] };
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+  flush();
+
+  if (messages.length === 0) {
+    throw new Error("Invalid chat file: no messages found");
+  }
+
+  return {
+    title: "",
+    character: { name: "", systemPrompt: "", vrmUrl: "", vrmHash: "" },
+    messages,
+    summary,
+    summarizedCount,
+    subconsciousLogs: [],
+  };
+}
+
+// JSON exports are recognised by their content, anything else is read as the old text format
+export function parseChatFile(text: string): ChatExportInput {
+  if (text.trimStart().startsWith("{")) {
+    const { format, version, exportedAt, messages, ...chat } = parseChatExport(text);
+    return {
+      ...chat,
+      messages: messages.map(({ emotions, ...message }) => message),
+    };
+  }
+  return parseTxtChat(text);
+}
+
+function speaker(message: Message, name: string) {
+  switch (message.role) {
+    case "assistant": return name;
+    case "user": return "You";
+    case "system": return "System";
+    case "tool": return "Tool";
+  }
+}
+
+function displayText(content: string) {
+  return stripMarkupTags(content).trim();
+}
+
+export function chatToMarkdown(chat: ChatExport) {
+  const lines = [`# ${chat.title || chat.character.name}`, ""];
+  if (chat.summary !== "") {
+    lines.push(`> ${chat.summary.replace(/\n/g, "\n> ")}`, "");
+  }
+  for (const message of chat.messages) {
+    const time = message.timestamp ? ` _${new Date(message.timestamp).toLocaleString()}_` : "";
+    const interrupted = message.interrupted ? " _(interrupted)_" : "";
+    lines.push(`**${speaker(message, chat.character.name)}**${time}`, "", displayText(message.content) + interrupted, "");
+  }
+  return lines.join("\n");
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function chatToHtml(chat: ChatExport) {
+  const title = escapeHtml(chat.title || chat.character.name);
+  const messages = chat.messages.map((message) => {
+    const time = message.timestamp ? `<time>${escapeHtml(new Date(message.timestamp).toLocaleString())}</time>` : "";
+    return `<div class="message ${message.role}">
+<div class="speaker">${escapeHtml(speaker(message, chat.character.name))} ${time}</div>
+<div class="content">${escapeHtml(displayText(message.content))}${message.interrupted ? ` <em>(interrupted)</em>` : ""}</div>
+</div>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: sans-serif; max-width: 40rem; margin: 2rem auto; background: #f1f5f9; }
+.summary { color: #475569; border-left: 4px solid #94a3b8; padding-left: 1rem; white-space: pre-wrap; }
+.message { margin: 1rem 0; padding: 0.5rem 1rem; border-radius: 0.5rem; background: white; }
+.message.assistant { margin-right: 4rem; border-top: 4px solid #db2777; }
+.message.user { margin-left: 4rem; border-top: 4px solid #0891b2; }
+.speaker { font-weight: bold; }
+time { font-weight: normal; font-size: 0.75rem; color: #64748b; }
+.content { white-space: pre-wrap; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+${chat.summary !== "" ? `<p class="summary">${escapeHtml(chat.summary)}</p>` : ""}
+${messages.join("\n")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,42 @@
+import Dexie, { Table } from 'dexie';
+import { Message } from '@/features/chat/messages';
+import { MessageTree } from '@/features/chat/messageTree';
+import { TimestampedPrompt } from '@/features/amicaLife/eventHandler';
+
+// The character the conversation was held with
+export type ConversationCharacter = {
+  name: string;
+  systemPrompt: string;
+  vrmUrl: string;
+  vrmHash: string;
+};
+
+export type Conversation = {
+  id?: number;
+  title: string;
+  // ISO timestamps
+  createdAt: string;
+  updatedAt: string;
+  character: ConversationCharacter;
+  // active path of the tree
+  messages: Message[];
+  // all branches, missing in conversations stored before branching existed
+  tree?: MessageTree;
+  summary: string;
+  summarizedCount: number;
+  // subconscious logs from Amica Life
+  storedPrompts: TimestampedPrompt[];
+};
+
+export class ConversationDexie extends Dexie {
+  conversations!: Table<Conversation, number>;
+
+  constructor() {
+    super('AmicaConversationDatabase');
+    this.version(1).stores({
+      conversations: '++id, updatedAt' // Primary key and indexed props
+    });
+  }
+}
+
+export const conversationDb = new ConversationDexie();
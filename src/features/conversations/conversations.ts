@@ -0,0 +1,121 @@
+import { config, updateConfig } from "@/utils/config";
+import { Message } from "@/features/chat/messages";
+import { createMessageTree } from "@/features/chat/messageTree";
+import { Conversation, ConversationCharacter, conversationDb } from "./conversationDb";
+
+export const DEFAULT_CONVERSATION_TITLE = "New Conversation";
+const MAX_TITLE_LENGTH = 40;
+
+export function currentCharacter(): ConversationCharacter {
+  return {
+    name: config("name"),
+    systemPrompt: config("system_prompt"),
+    vrmUrl: config("vrm_url"),
+    vrmHash: config("vrm_hash"),
+  };
+}
+
+// The first user message, without emotion tags and shortened
+export function titleFromMessages(messages: Message[]) {
+  const first = messages.find((m) => m.role === "user");
+  if (! first) {
+    return DEFAULT_CONVERSATION_TITLE;
+  }
+
+  const text = first.content.replace(/\[(.*?)\]/g, "").replace(/\s+/g, " ").trim();
+  if (text.length <= MAX_TITLE_LENGTH) {
+    return text || DEFAULT_CONVERSATION_TITLE;
+  }
+  return text.substring(0, MAX_TITLE_LENGTH - 3).trimEnd() + "...";
+}
+
+export async function createConversation(): Promise<Conversation> {
+  const now = new Date().toISOString();
+  const conversation: Conversation = {
+    title: DEFAULT_CONVERSATION_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    character: currentCharacter(),
+    messages: [],
+    tree: createMessageTree(),
+    summary: "",
+    summarizedCount: 0,
+    storedPrompts: [],
+  };
+  conversation.id = await conversationDb.conversations.add(conversation);
+  updateConfig("last_conversation_id", conversation.id.toString());
+
+  return conversation;
+}
+
+export async function getConversation(id: number) {
+  return conversationDb.conversations.get(id);
+}
+
+// The conversation used last, or a new one if there is none
+export async function getLastConversation(): Promise<Conversation> {
+  const id = parseInt(config("last_conversation_id"));
+  const conversation = isNaN(id) ? undefined : await getConversation(id);
+  if (conversation) {
+    return conversation;
+  }
+
+  const latest = await conversationDb.conversations.orderBy("updatedAt").last();
+  return latest ?? createConversation();
+}
+
+export async function openConversation(id: number) {
+  const conversation = await getConversation(id);
+  if (conversation) {
+    updateConfig("last_conversation_id", id.toString());
+  }
+  return conversation;
+}
+
+type ConversationUpdate = Pick<Conversation, "messages" | "tree" | "summary" | "summarizedCount" | "storedPrompts">;
+
+// Saves the state of the conversation, naming it after its first message if it has no title yet
+export async function saveConversation(id: number, update: ConversationUpdate) {
+  const conversation = await getConversation(id);
+  if (! conversation) {
+    return;
+  }
+
+  // opening a conversation should not move it to the top of the list
+  const unchanged = conversation.summary === update.summary &&
+    conversation.summarizedCount === update.summarizedCount &&
+    JSON.stringify(conversation.tree) === JSON.stringify(update.tree) &&
+    JSON.stringify(conversation.storedPrompts) === JSON.stringify(update.storedPrompts);
+  if (unchanged) {
+    return;
+  }
+
+  await conversationDb.conversations.update(id, {
+    ...update,
+    title: conversation.title === DEFAULT_CONVERSATION_TITLE ? titleFromMessages(update.messages) : conversation.title,
+    character: currentCharacter(),
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export async function renameConversation(id: number, title: string) {
+  await conversationDb.conversations.update(id, { title: title.trim() || DEFAULT_CONVERSATION_TITLE });
+}
+
+export async function deleteConversation(id: number) {
+  await conversationDb.conversations.delete(id);
+}
+
+// Newest first, matching the search against titles and message contents
+export async function searchConversations(search: string): Promise<Conversation[]> {
+  const conversations = await conversationDb.conversations.orderBy("updatedAt").reverse().toArray();
+  const query = search.trim().toLowerCase();
+  if (query === "") {
+    return conversations;
+  }
+
+  return conversations.filter((conversation) =>
+    conversation.title.toLowerCase().includes(query) ||
+    conversation.messages.some((m) => m.content.toLowerCase().includes(query))
+  );
+}
@@ -1,4 +1,5 @@
 import { config } from '@/utils/config';
+import { ProbeInfo, fetchProbe } from '@/utils/probeBackend';
 
 export async function coquiLocal(
   message: string,
@@ -47,4 +48,14 @@ export async function coquiLocalVoiceIdList(
     console.error('Error in coquiLocalVoiceIdList:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+export async function probeCoquiLocal(): Promise<ProbeInfo> {
+  await fetchProbe(`${config("coquiLocal_url")}/`);
+  const { list } = await coquiLocalVoiceIdList();
+
+  return {
+    models: list,
+    capabilities: [`${list.length} voices`],
+  };
+}
@@ -1,10 +1,14 @@
-import { TalkStyle } from "@/features/chat/messages";
+import { Prosody } from "@/features/tts/prosody";
 import { config } from '@/utils/config';
+import { ProbeInfo, fetchProbe } from '@/utils/probeBackend';
+import { AudioStream } from "@/features/lipSync/lipSync";
 
-export async function elevenlabs(
+// path is "" for the whole audio at once or "/stream" for chunks
+async function requestSpeech(
+  path: string,
   message: string,
   voiceId: string,
-  style: TalkStyle,
+  prosody: Prosody,
 ) {
   const apiKey = config("elevenlabs_apikey");
   if (! apiKey) {
@@ -16,14 +20,14 @@ export async function elevenlabs(
     text: message,
     model_id: config("elevenlabs_model"),
     voice_settings: {
-      stability: 0,
+      stability: prosody.stability ?? 0,
       similarity_boost: 0,
-      style: 0,
+      style: prosody.style ?? 0,
       use_speaker_boost: true
     }
   };
 
-  const elevenlabsRes = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}?optimize_streaming_latency=0&output_format=mp3_44100_128`, {
+  const elevenlabsRes = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}${path}?optimize_streaming_latency=0&output_format=mp3_44100_128`, {
     method: "POST",
     body: JSON.stringify(body),
     headers: {
@@ -35,7 +39,42 @@ export async function elevenlabs(
   if (! elevenlabsRes.ok) {
     throw new Error(`ElevenLabs API Error (${elevenlabsRes.status})`);
   }
-  const data = (await elevenlabsRes.arrayBuffer()) as any;
+
+  return elevenlabsRes;
+}
+
+export async function elevenlabs(
+  message: string,
+  voiceId: string,
+  prosody: Prosody = {},
+) {
+  const res = await requestSpeech("", message, voiceId, prosody);
+  const data = (await res.arrayBuffer()) as any;
 
   return { audio: data };
 }
+
+// The audio is sent as it is generated
+export async function elevenlabsStream(
+  message: string,
+  voiceId: string,
+  prosody: Prosody = {},
+): Promise<AudioStream> {
+  const res = await requestSpeech("/stream", message, voiceId, prosody);
+
+  return { mimeType: "audio/mpeg", body: res.body! };
+}
+
+export async function probeElevenLabs(): Promise<ProbeInfo> {
+  const res = await fetchProbe("https://api.elevenlabs.io/v1/voices", {
+    headers: { "xi-api-key": config("elevenlabs_apikey") },
+  });
+  const json = await res.json();
+  const voices: any[] = json.voices ?? [];
+
+  return {
+    models: voices.map((voice) => voice.voice_id),
+    modelNames: Object.fromEntries(voices.map((voice) => [voice.voice_id, voice.name])),
+    capabilities: [`${voices.length} voices`],
+  };
+}
@@ -1,5 +1,17 @@
 import * as THREE from "three";
 import { VRM } from "@pixiv/three-vrm";
+
+/**
+ * Where to look as an offset from the camera, left and right as seen by the character
+ */
+const LOOK_OFFSETS: { [at: string]: [number, number] } = {
+  user: [0, 0],
+  left: [1, 0],
+  right: [-1, 0],
+  up: [0, 0.8],
+  down: [0, -0.8],
+};
+
 /**
  * 目線を制御するクラス
  *
@@ -14,4 +26,17 @@ export class AutoLookAt {
 
     if (vrm.lookAt) vrm.lookAt.target = this._lookAtTarget;
   }
+
+  /**
+   * Looks at the user or next to them, "away" picks a side at random
+   */
+  public lookAt(at: string) {
+    const side = Math.random() < 0.5 ? "left" : "right";
+    const offset = LOOK_OFFSETS[at === "away" ? side : at];
+    if (! offset) {
+      console.warn(`unknown look target: ${at}`);
+      return;
+    }
+    this._lookAtTarget.position.set(offset[0], offset[1], 0);
+  }
 }
@@ -17,6 +17,10 @@ export class EmoteController {
     this._expressionController.playEmotion(preset);
   }
 
+  public lookAt(at: string) {
+    this._expressionController.lookAt(at);
+  }
+
   public lipSync(preset: VRMExpressionPresetName | string, value: number) {
     this._expressionController.lipSync(preset, value);
   }
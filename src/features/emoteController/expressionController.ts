@@ -78,6 +78,10 @@ export class ExpressionController {
     }, t * 1000);
   }
 
+  public lookAt(at: string) {
+    this._autoLookAt.lookAt(at);
+  }
+
   public lipSync(preset: VRMExpressionPresetName | string, value: number) {
     if (this._currentLipSync) {
       this._expressionManager?.setValue(this._currentLipSync.preset, 0);
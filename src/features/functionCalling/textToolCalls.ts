@@ -0,0 +1,137 @@
+import { Message, ToolCall } from "@/features/chat/messages";
+import { Tool } from "./tools";
+
+// Fallback for backends without native tool calling. The model is told to
+// answer with a single JSON object when it wants to call a tool, such a reply
+// is held back from the stream and turned into a tool call instead.
+
+export function toolInstructions(tools: Tool[]) {
+  const list = tools
+    .map((tool) => `- ${tool.name}: ${tool.description} Arguments schema: ${JSON.stringify(tool.parameters)}`)
+    .join("\n");
+
+  return `You can call the following tools:
+${list}
+To call a tool, reply with only a JSON object and nothing else, for example: {"tool": "tool_name", "arguments": {}}
+The result will be sent back to you. If you do not need a tool, reply normally.`;
+}
+
+// Adds the tool instructions to the system prompt and rewrites tool calls and
+// results into plain messages the backend understands
+export function withTextToolProtocol(messages: Message[], tools: Tool[]): Message[] {
+  const instructions = tools.length > 0 ? toolInstructions(tools) : "";
+  const res: Message[] = messages.map((m): Message => {
+    switch (m.role) {
+      case "system":
+        return instructions ? { role: "system", content: `${m.content}\n\n${instructions}` } : m;
+      case "tool":
+        return { role: "user", content: `Tool result: ${m.content}` };
+      case "assistant":
+        if (m.tool_calls && m.tool_calls.length > 0) {
+          const call = m.tool_calls[0];
+          return { role: "assistant", content: `{"tool": ${JSON.stringify(call.name)}, "arguments": ${call.arguments || "{}"}}` };
+        }
+        return m;
+      default:
+        return m;
+    }
+  });
+
+  if (instructions && ! messages.some((m) => m.role === "system")) {
+    res.unshift({ role: "system", content: instructions });
+  }
+
+  return res;
+}
+
+// Returns the tool call if the text is a JSON tool call, optionally preceded
+// by an [emotion] tag or wrapped in a code block
+export function parseTextToolCall(text: string, id: string): ToolCall | null {
+  const json = text
+    .trim()
+    .replace(/^\[[^\]]*\]\s*/, "")
+    .replace(/^```(json)?\s*/, "")
+    .replace(/\s*```$/, "");
+
+  try {
+    const obj = JSON.parse(json);
+    if (typeof obj?.tool !== "string") {
+      return null;
+    }
+
+    return {
+      id,
+      name: obj.tool,
+      arguments: JSON.stringify(obj.arguments ?? {}),
+    };
+  } catch (e) {
+    return null;
+  }
+}
+
+// true once the start of the text shows whether it may be a tool call
+function decided(text: string) {
+  return /^\s*\[[^\]]*\]\s*\S/.test(text) || /^\s*[^\s[]/.test(text);
+}
+
+// false once the text can no longer be a tool call. Only a JSON object, bare
+// or in a ```json block, is held back and only while it may be {"tool": ...}
+function mayBeToolCall(text: string) {
+  let json = text.replace(/^\s*(\[[^\]]*\]\s*)?/, "");
+  if (json.startsWith("`")) {
+    if (! json.startsWith("```json")) {
+      return "```json".startsWith(json);
+    }
+    json = json.slice("```json".length).trimStart();
+  }
+
+  const start = json.replace(/^\{\s*/, "{");
+  return start.startsWith('{"tool"') || '{"tool"'.startsWith(start);
+}
+
+// Passes text through unchanged unless it starts like a JSON tool call, which
+// is then buffered until the end and reported through onToolCalls when it parses.
+export function parseTextToolCalls(
+  stream: ReadableStream<Uint8Array>,
+  onToolCalls: (calls: ToolCall[]) => void,
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  let buffer = "";
+  let passthrough = false;
+
+  return new ReadableStream({
+    async pull(controller: ReadableStreamDefaultController) {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          if (buffer !== "") {
+            const call = parseTextToolCall(buffer, "call_0");
+            if (call) {
+              onToolCalls([call]);
+            } else {
+              controller.enqueue(buffer);
+            }
+          }
+          controller.close();
+          return;
+        }
+
+        if (passthrough) {
+          controller.enqueue(value);
+          return;
+        }
+
+        buffer += value;
+        if (decided(buffer) && ! mayBeToolCall(buffer)) {
+          passthrough = true;
+          controller.enqueue(buffer);
+          buffer = "";
+          return;
+        }
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+    },
+  });
+}
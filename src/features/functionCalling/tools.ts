@@ -0,0 +1,91 @@
+import { Message, ToolCall } from "@/features/chat/messages";
+import { config } from "@/utils/config";
+
+import { newsTool } from "@/features/plugins/news";
+
+// JSON schema of the arguments a tool takes
+export type ToolParameters = {
+  type: "object";
+  properties: Record<string, any>;
+  required?: string[];
+};
+
+export interface Tool {
+  // name the model calls the tool by
+  name: string;
+  description: string;
+  parameters: ToolParameters;
+  // returns the text fed back to the model
+  execute: (args: Record<string, any>) => Promise<string>;
+}
+
+// How many times in a row the model may call tools before it has to answer
+export const MAX_TOOL_ROUNDS = 3;
+
+const tools = new Map<string, Tool>();
+
+// Register a tool, replacing any previously registered tool with the same name.
+export function registerTool(tool: Tool) {
+  tools.set(tool.name, tool);
+}
+
+export function getTool(name: string): Tool | undefined {
+  return tools.get(name);
+}
+
+export function getTools(): Tool[] {
+  if (config("tool_calling_enabled") !== "true") {
+    return [];
+  }
+  return Array.from(tools.values());
+}
+
+// OpenAI style function definitions, also understood by Ollama
+export function toolDefinitions(tools: Tool[]) {
+  return tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+async function executeToolCall(call: ToolCall): Promise<string> {
+  const tool = getTool(call.name);
+  if (! tool) {
+    return `Error: unknown tool ${call.name}`;
+  }
+
+  let args: Record<string, any>;
+  try {
+    args = call.arguments.trim() === "" ? {} : JSON.parse(call.arguments);
+  } catch (e) {
+    return `Error: invalid arguments for ${call.name}`;
+  }
+
+  try {
+    return await tool.execute(args);
+  } catch (e: any) {
+    console.error(`tool ${call.name} failed`, e);
+    return `Error: ${e.toString()}`;
+  }
+}
+
+// Runs the calls one after another and returns the tool messages to send back
+export async function executeToolCalls(calls: ToolCall[]): Promise<Message[]> {
+  const results: Message[] = [];
+  for (const call of calls) {
+    console.debug('executing tool', call.name, call.arguments);
+    results.push({
+      role: "tool",
+      content: await executeToolCall(call),
+      tool_call_id: call.id,
+    });
+  }
+
+  return results;
+}
+
+registerTool(newsTool);
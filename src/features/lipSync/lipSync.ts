@@ -1,12 +1,52 @@
 import { LipSyncAnalyzeResult } from "./lipSyncAnalyzeResult";
+import { createWavStreamDecoder } from "./wavStream";
 
 const TIME_DOMAIN_DATA_LENGTH = 2048;
 
+// how far ahead the first chunk of a wav stream is scheduled, in seconds
+const STREAM_LEAD_TIME = 0.05;
+
+// Audio which is played while it is still being received
+export type AudioStream = {
+  // content type of the audio, e.g. audio/mpeg or audio/wav
+  mimeType: string;
+  body: ReadableStream<Uint8Array>;
+};
+
+export type SpeechAudio = ArrayBuffer | AudioStream;
+
+export type PlaybackTiming = {
+  // seconds of audio in total
+  duration: number;
+  // seconds of it which already played
+  played: number;
+};
+
+export function isAudioStream(audio: SpeechAudio): audio is AudioStream {
+  return (audio as AudioStream).body !== undefined;
+}
+
+// Closes the connection of audio which will not be played
+export function discardSpeechAudio(audio: SpeechAudio | null) {
+  if (audio && isAudioStream(audio)) {
+    audio.body.cancel().catch(() => {});
+  }
+}
+
+type Playing = {
+  gain: GainNode;
+  // stops the audio at the given audio context time
+  stop: (when: number) => void;
+};
+
 export class LipSync {
   public readonly audio: AudioContext;
   public readonly analyser: AnalyserNode;
   public readonly timeDomainData: Float32Array;
 
+  // the audio currently playing, with the gain used to fade it out
+  private current: Playing | null = null;
+
   public constructor(audio: AudioContext) {
     this.audio = audio;
 
@@ -31,18 +71,229 @@ export class LipSync {
     };
   }
 
+  // Plays the audio and returns its duration in seconds once it started
   public async playFromArrayBuffer(buffer: ArrayBuffer, onEnded?: () => void) {
     const audioBuffer = await this.audio.decodeAudioData(buffer);
 
     const bufferSource = this.audio.createBufferSource();
     bufferSource.buffer = audioBuffer;
 
-    bufferSource.connect(this.audio.destination);
-    bufferSource.connect(this.analyser);
+    const gain = this.createOutput();
+    bufferSource.connect(gain);
     bufferSource.start();
-    if (onEnded) {
-      bufferSource.addEventListener("ended", onEnded);
+
+    const current = { gain, stop: (when: number) => bufferSource.stop(when) };
+    this.current = current;
+    bufferSource.addEventListener("ended", () => {
+      if (this.current === current) {
+        this.current = null;
+      }
+      gain.disconnect();
+      onEnded?.();
+    });
+
+    return audioBuffer.duration;
+  }
+
+  // Stops the audio playing, fading it out over fadeOutMs. Its onEnded
+  // callback is called once it stopped.
+  public stop(fadeOutMs = 0) {
+    if (! this.current) {
+      return;
     }
+
+    const { gain, stop } = this.current;
+    this.current = null;
+    const now = this.audio.currentTime;
+    const end = now + fadeOutMs / 1000;
+    gain.gain.setValueAtTime(gain.gain.value, now);
+    gain.gain.linearRampToValueAtTime(0, end);
+    stop(end);
+  }
+
+  // Plays a whole buffer or a stream, resolves once the duration is known
+  public async play(audio: SpeechAudio, onEnded?: () => void): Promise<PlaybackTiming> {
+    if (isAudioStream(audio)) {
+      return this.playFromStream(audio, onEnded);
+    }
+    return { duration: await this.playFromArrayBuffer(audio, onEnded), played: 0 };
+  }
+
+  // Starts playing on the first chunk of the stream. Resolves once all of it
+  // was received, which is when its duration is known.
+  public async playFromStream(stream: AudioStream, onEnded?: () => void): Promise<PlaybackTiming> {
+    const mimeType = stream.mimeType.split(";")[0].trim().toLowerCase();
+    if (["audio/wav", "audio/x-wav", "audio/wave"].includes(mimeType)) {
+      return this.playWavStream(stream, onEnded);
+    }
+    if (typeof MediaSource !== "undefined" && MediaSource.isTypeSupported(mimeType)) {
+      return this.playMediaSourceStream(stream, mimeType, onEnded);
+    }
+
+    // formats the browser can not stream are played once received
+    const buffer = await new Response(stream.body).arrayBuffer();
+    return { duration: await this.playFromArrayBuffer(buffer, onEnded), played: 0 };
+  }
+
+  // Compressed audio such as mp3 is appended to a MediaSource, the audio
+  // element playing it is routed through the analyser
+  private async playMediaSourceStream(stream: AudioStream, mimeType: string, onEnded?: () => void): Promise<PlaybackTiming> {
+    const mediaSource = new MediaSource();
+    const element = new Audio();
+    element.src = URL.createObjectURL(mediaSource);
+    await new Promise((resolve) => mediaSource.addEventListener("sourceopen", resolve, { once: true }));
+    const sourceBuffer = mediaSource.addSourceBuffer(mimeType);
+
+    const gain = this.createOutput();
+    this.audio.createMediaElementSource(element).connect(gain);
+
+    const reader = stream.body.getReader();
+    let ended = false;
+    const finish = () => {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      if (this.current === current) {
+        this.current = null;
+      }
+      reader.cancel().catch(() => {});
+      element.pause();
+      gain.disconnect();
+      URL.revokeObjectURL(element.src);
+      onEnded?.();
+    };
+    const current: Playing = {
+      gain,
+      stop: (when) => setTimeout(finish, Math.max(0, when - this.audio.currentTime) * 1000),
+    };
+    this.current = current;
+    element.addEventListener("ended", finish);
+
+    try {
+      while (! ended) {
+        const { done, value } = await reader.read();
+        if (done || ended) {
+          break;
+        }
+        sourceBuffer.appendBuffer(value);
+        await new Promise((resolve) => sourceBuffer.addEventListener("updateend", resolve, { once: true }));
+        if (element.paused && ! ended) {
+          element.play().catch((e) => {
+            console.error("stream playback failed", e);
+            finish();
+          });
+        }
+      }
+    } catch (e) {
+      // what was received so far is still played
+      console.error("audio stream failed", e);
+      reader.cancel().catch(() => {});
+    }
+
+    const buffered = sourceBuffer.buffered;
+    const duration = buffered.length > 0 ? buffered.end(buffered.length - 1) : 0;
+    if (mediaSource.readyState === "open") {
+      mediaSource.endOfStream();
+    }
+    if (duration === 0) {
+      finish();
+    }
+
+    return { duration, played: element.currentTime };
+  }
+
+  // Uncompressed wav is decoded as it arrives and its pieces are scheduled
+  // back to back
+  private async playWavStream(stream: AudioStream, onEnded?: () => void): Promise<PlaybackTiming> {
+    const decoder = createWavStreamDecoder();
+    const gain = this.createOutput();
+    const sources = new Set<AudioBufferSourceNode>();
+    const reader = stream.body.getReader();
+
+    let receiving = true;
+    let ended = false;
+    const finish = () => {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      if (this.current === current) {
+        this.current = null;
+      }
+      gain.disconnect();
+      onEnded?.();
+    };
+    const current: Playing = {
+      gain,
+      stop: (when) => {
+        receiving = false;
+        reader.cancel().catch(() => {});
+        sources.forEach((source) => source.stop(when));
+        if (sources.size === 0) {
+          finish();
+        }
+      },
+    };
+    this.current = current;
+
+    let startTime = 0;
+    let nextTime = 0;
+    let duration = 0;
+    try {
+      while (receiving) {
+        const { done, value } = await reader.read();
+        if (done || ! receiving) {
+          break;
+        }
+        const samples = decoder.push(value);
+        if (! samples || samples[0].length === 0) {
+          continue;
+        }
+
+        const audioBuffer = this.audio.createBuffer(samples.length, samples[0].length, decoder.format!.sampleRate);
+        samples.forEach((channel, i) => audioBuffer.copyToChannel(channel, i));
+        const source = this.audio.createBufferSource();
+        source.buffer = audioBuffer;
+        source.connect(gain);
+
+        // a piece arriving late plays right away rather than in the past
+        nextTime = Math.max(nextTime, this.audio.currentTime + STREAM_LEAD_TIME);
+        if (startTime === 0) {
+          startTime = nextTime;
+        }
+        source.start(nextTime);
+        nextTime += audioBuffer.duration;
+        duration += audioBuffer.duration;
+
+        sources.add(source);
+        source.addEventListener("ended", () => {
+          sources.delete(source);
+          if (! receiving && sources.size === 0) {
+            finish();
+          }
+        });
+      }
+    } catch (e) {
+      // what was received so far is still played
+      console.error("audio stream failed", e);
+      reader.cancel().catch(() => {});
+    }
+
+    receiving = false;
+    if (sources.size === 0) {
+      finish();
+    }
+
+    return { duration, played: startTime === 0 ? 0 : Math.max(0, this.audio.currentTime - startTime) };
+  }
+
+  // a gain node feeding the speakers and the analyser
+  private createOutput() {
+    const gain = this.audio.createGain();
+    gain.connect(this.audio.destination);
+    gain.connect(this.analyser);
+    return gain;
   }
 
   public async playFromURL(url: string, onEnded?: () => void) {
@@ -0,0 +1,125 @@
+export type WavFormat = {
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  // samples are 32 bit floats rather than integers
+  float: boolean;
+};
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+function fourCC(bytes: Uint8Array, offset: number) {
+  return String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 4)));
+}
+
+function concat(a: Uint8Array, b: Uint8Array) {
+  const bytes = new Uint8Array(a.length + b.length);
+  bytes.set(a);
+  bytes.set(b, a.length);
+  return bytes;
+}
+
+function parseFormat(view: DataView, offset: number): WavFormat {
+  let code = view.getUint16(offset, true);
+  if (code === WAVE_FORMAT_EXTENSIBLE) {
+    // the actual format starts the sub format guid
+    code = view.getUint16(offset + 24, true);
+  }
+  const format = {
+    channels: view.getUint16(offset + 2, true),
+    sampleRate: view.getUint32(offset + 4, true),
+    bitsPerSample: view.getUint16(offset + 14, true),
+    float: code === WAVE_FORMAT_IEEE_FLOAT,
+  };
+  if ((code !== WAVE_FORMAT_PCM && ! format.float) || ! [8, 16, 24, 32].includes(format.bitsPerSample)) {
+    throw new Error(`Unsupported WAV format ${code} with ${format.bitsPerSample} bit samples`);
+  }
+  return format;
+}
+
+function readSample(view: DataView, offset: number, format: WavFormat) {
+  switch (format.bitsPerSample) {
+    case 8:  return (view.getUint8(offset) - 128) / 128;
+    case 16: return view.getInt16(offset, true) / 0x8000;
+    case 24: return ((view.getInt8(offset + 2) << 16) | view.getUint16(offset, true)) / 0x800000;
+    default: return format.float ? view.getFloat32(offset, true) : view.getInt32(offset, true) / 0x80000000;
+  }
+}
+
+// Decodes a WAV file while it is received. Streaming servers do not know the
+// length up front, so the sizes in the header are ignored and everything
+// after the data chunk header is taken as samples.
+export function createWavStreamDecoder() {
+  let pending: Uint8Array = new Uint8Array(0);
+  let format: WavFormat | null = null;
+  let receivingHeader = true;
+
+  // reads the header once it is complete, returns where the samples start
+  function parseHeader(bytes: Uint8Array) {
+    if (bytes.length < 12) {
+      return -1;
+    }
+    if (fourCC(bytes, 0) !== "RIFF" || fourCC(bytes, 8) !== "WAVE") {
+      throw new Error("Not a WAV stream");
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+      const id = fourCC(bytes, offset);
+      const size = view.getUint32(offset + 4, true);
+      if (id === "data") {
+        if (! format) {
+          throw new Error("WAV stream without format");
+        }
+        return offset + 8;
+      }
+      if (offset + 8 + size > bytes.length) {
+        return -1;
+      }
+      if (id === "fmt ") {
+        format = parseFormat(view, offset + 8);
+      }
+      // chunks are padded to an even size
+      offset += 8 + size + (size % 2);
+    }
+    return -1;
+  }
+
+  return {
+    get format() {
+      return format;
+    },
+
+    // Returns the samples of each channel completed by the chunk, or null
+    // while the header is still being received
+    push(chunk: Uint8Array): Float32Array[] | null {
+      pending = concat(pending, chunk);
+      if (receivingHeader) {
+        const start = parseHeader(pending);
+        if (start < 0) {
+          return null;
+        }
+        receivingHeader = false;
+        pending = pending.subarray(start);
+      }
+
+      const { channels, bitsPerSample } = format!;
+      const bytesPerSample = bitsPerSample / 8;
+      const frames = Math.floor(pending.length / (bytesPerSample * channels));
+      const view = new DataView(pending.buffer, pending.byteOffset, pending.byteLength);
+      const samples = Array.from({ length: channels }, () => new Float32Array(frames));
+      for (let frame = 0; frame < frames; frame++) {
+        for (let channel = 0; channel < channels; channel++) {
+          samples[channel][frame] = readSample(view, (frame * channels + channel) * bytesPerSample, format!);
+        }
+      }
+
+      // an incomplete frame is kept for the next chunk
+      pending = pending.slice(frames * bytesPerSample * channels);
+      return samples;
+    },
+  };
+}
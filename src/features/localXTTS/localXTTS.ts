@@ -1,21 +1,27 @@
 // Basic support for AllTalk XTTS (https://github.com/erew123/alltalk_tts)
 
 import { config } from '@/utils/config';
+import { ProbeInfo, fetchProbe } from '@/utils/probeBackend';
+import { AudioStream } from "@/features/lipSync/lipSync";
 
-export async function localXTTSTTS(message:string){ 
+const VOICE = 'female_01.wav';
+const LANGUAGE = 'en';
+
+export async function localXTTSTTS(message:string, speed = 1){ 
   const formData = new URLSearchParams({
     text_input: message,
     streaming: 'false',
     text_filtering: 'none',
-    character_voice_gen: 'female_01.wav',
+    character_voice_gen: VOICE,
     narrator_enabled: 'false', 
     narrator_voice_gen: 'male_01.wav',
     text_not_inside: 'character',
-    language: 'en',
+    language: LANGUAGE,
     output_file_name: 'myoutputfile',
     output_file_timestamp: 'true',
     autoplay: 'true',
     autoplay_volume: '0.8',
+    speed: speed.toString(),
   });
 
   try {
@@ -29,13 +35,55 @@ export async function localXTTSTTS(message:string){
       throw new Error("localXTTS TTS API Error");
     }
     const data = await res.json(); 
+    console.log(data.output_file_url);
+
+    // the generated file is served by AllTalk as well
+    const audio = await fetch(new URL(data.output_file_url, config("localXTTS_url")).toString());
+    if (!audio.ok) {
+      throw new Error("localXTTS TTS API Error");
+    }
 
-    return {
-      debugmsg: console.log(data.output_file_url),
-      audio: data.output_file_url, 
-    };
+    return { audio: await audio.arrayBuffer() };
   } catch (e) {
     console.error('ERROR', e);
     throw new Error("localXTTS TTS API Error");
   }
 }
+
+// AllTalk streams wav from its own endpoint while it generates
+export async function localXTTSTTSStream(message: string, speed = 1): Promise<AudioStream> {
+  const origin = new URL(config("localXTTS_url")).origin;
+  const res = await fetch(`${origin}/api/tts-generate-streaming`, {
+    method: "POST",
+    body: new URLSearchParams({
+      text: message,
+      voice: VOICE,
+      language: LANGUAGE,
+      output_file: 'myoutputfile',
+      speed: speed.toString(),
+    }),
+  });
+  if (!res.ok) {
+    console.error(res);
+    throw new Error("localXTTS TTS API Error");
+  }
+
+  return { mimeType: res.headers.get("content-type") ?? "audio/wav", body: res.body! };
+}
+
+// AllTalk serves its other endpoints next to the generate endpoint
+export async function probeLocalXTTS(): Promise<ProbeInfo> {
+  const origin = new URL(config("localXTTS_url")).origin;
+  const ready = await (await fetchProbe(`${origin}/api/ready`)).text();
+  if (ready.trim() !== "Ready") {
+    throw new Error(`Server status: ${ready}`);
+  }
+
+  const json = await (await fetchProbe(`${origin}/api/voices`)).json();
+  const voices: string[] = json.voices ?? [];
+
+  return {
+    models: voices,
+    capabilities: [`${voices.length} voices`],
+  };
+}
@@ -0,0 +1,72 @@
+import { updateFileProgress } from "@/utils/progress";
+
+type PendingJob = {
+  resolve: (embeddings: number[][]) => void;
+  reject: (error: Error) => void;
+};
+
+let worker: Worker | null = null;
+let nextJobId = 0;
+const pendingJobs = new Map<number, PendingJob>();
+
+function rejectPendingJobs(error: Error) {
+  pendingJobs.forEach(({ reject }) => reject(error));
+  pendingJobs.clear();
+}
+
+function getWorker() {
+  if (worker !== null) {
+    return worker;
+  }
+
+  worker = new Worker(new URL("../../workers/embeddings.js", import.meta.url), {
+    type: "module",
+  });
+
+  worker.addEventListener("message", (event: any) => {
+    const message = event.data;
+    switch (message.status) {
+      case "progress":
+        updateFileProgress(message.file, message.progress);
+        break;
+      case "done":
+        console.log("embeddings done: ", message.file);
+        updateFileProgress(message.file, 100);
+        break;
+      case "complete":
+        pendingJobs.get(message.id)?.resolve(message.data);
+        pendingJobs.delete(message.id);
+        break;
+      case "error":
+        pendingJobs.get(message.id)?.reject(new Error(message.data));
+        pendingJobs.delete(message.id);
+        break;
+    }
+  });
+
+  // the worker failed to load, e.g. a network error while fetching it. It is
+  // created again for the next job.
+  worker.addEventListener("error", (event: ErrorEvent) => {
+    console.error("embeddings worker error", event.message);
+    worker?.terminate();
+    worker = null;
+    rejectPendingJobs(new Error(`embeddings worker failed: ${event.message}`));
+  });
+
+  worker.addEventListener("messageerror", () => {
+    rejectPendingJobs(new Error("embeddings worker sent a message which could not be read"));
+  });
+
+  return worker;
+}
+
+// Computes normalized sentence embeddings in the embeddings worker
+export async function embed(texts: string[]): Promise<number[][]> {
+  const id = nextJobId++;
+  const result = new Promise<number[][]>((resolve, reject) => {
+    pendingJobs.set(id, { resolve, reject });
+  });
+  getWorker().postMessage({ id, texts });
+
+  return result;
+}
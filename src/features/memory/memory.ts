@@ -0,0 +1,52 @@
+import { Message } from "@/features/chat/messages";
+import { config } from "@/utils/config";
+import { embed } from "./embeddings";
+import { memoryDb } from "./memoryDb";
+import { isDuplicateMemory, memoriesMessage, topKMemories } from "./retrieval";
+
+// memories less similar than this are not relevant enough to send
+const MIN_SCORE = 0.4;
+// short messages such as "ok" or "thanks" are not worth remembering
+const MIN_WORDS = 4;
+// the reply does not wait longer for memories, the embedding model is
+// downloaded on first use which can take minutes
+const RECALL_TIMEOUT_MS = 3000;
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Looks up the memories relevant to the user message, then stores the message
+// itself as a new memory. Returns the memory block to send, if any. When recall
+// times out the message is still stored once it is embedded.
+export async function recallAndRemember(message: string): Promise<Message | null> {
+  const text = message.replace(/\[(.*?)\]/g, "").trim();
+  if (text === "") {
+    return null;
+  }
+
+  const recalled = embed([text]).then(async ([embedding]) => {
+    const memories = await memoryDb.memories.toArray();
+    const topK = parseInt(config("memory_top_k"));
+    const relevant = topKMemories(embedding, memories, isNaN(topK) ? 3 : topK, MIN_SCORE);
+    if (relevant.length > 0) {
+      console.debug('recalled memories', relevant.map(({ memory, score }) => `${score.toFixed(2)} ${memory.text}`));
+    }
+
+    if (text.split(/\s+/).length >= MIN_WORDS && ! isDuplicateMemory(embedding, memories)) {
+      await memoryDb.memories.add({
+        text,
+        embedding,
+        createdAt: new Date().toISOString(),
+      });
+    }
+    return relevant;
+  });
+
+  const relevant = await withTimeout(recalled, RECALL_TIMEOUT_MS, "memory recall timed out");
+  return relevant.length > 0 ? memoriesMessage(relevant.map(({ memory }) => memory)) : null;
+}
@@ -0,0 +1,12 @@
+import { db } from '@/features/vrmStore/vrmDb';
+
+export type MemoryEntry = {
+  id?: number;
+  text: string;
+  embedding: number[];
+  // ISO timestamp
+  createdAt: string;
+};
+
+// memories are a table of the AmicaVrmDatabase
+export const memoryDb = db;
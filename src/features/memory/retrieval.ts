@@ -0,0 +1,58 @@
+import { Message } from "@/features/chat/messages";
+
+export type Embedded = {
+  text: string;
+  embedding: number[];
+};
+
+export type ScoredMemory<T extends Embedded> = {
+  memory: T;
+  score: number;
+};
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// The k memories most similar to the query, best first, ignoring the ones below minScore
+export function topKMemories<T extends Embedded>(
+  query: number[],
+  memories: T[],
+  k: number,
+  minScore: number,
+): ScoredMemory<T>[] {
+  return memories
+    .map((memory) => ({ memory, score: cosineSimilarity(query, memory.embedding) }))
+    .filter(({ score }) => score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(0, k));
+}
+
+// true if a memory with nearly the same meaning is already stored
+export function isDuplicateMemory(embedding: number[], memories: Embedded[], threshold = 0.95) {
+  return memories.some((memory) => cosineSimilarity(embedding, memory.embedding) >= threshold);
+}
+
+// The memory block sent to the chatbot
+export function memoriesMessage(memories: Embedded[]): Message {
+  return {
+    role: "system",
+    content: `Things the user told you in earlier conversations:\n${memories.map((m) => `- ${m.text}`).join("\n")}`,
+  };
+}
@@ -1,8 +1,8 @@
 import { config } from '@/utils/config';
+import { ProbeInfo, probeOpenAiModels } from '@/utils/probeBackend';
+import { AudioStream } from "@/features/lipSync/lipSync";
 
-export async function openaiTTS(
-  message: string,
-) {
+async function requestSpeech(message: string, speed?: number) {
   const apiKey = config("openai_tts_apikey");
   if (!apiKey) {
     throw new Error("Invalid OpenAI TTS API Key");
@@ -15,6 +15,7 @@ export async function openaiTTS(
         model: config("openai_tts_model"),
         input: message,
         voice: config("openai_tts_voice"),
+        speed,
       }),
       headers: {
         "Content-Type": "application/json",
@@ -25,11 +26,34 @@ export async function openaiTTS(
       console.error(res);
       throw new Error("OpenAI TTS API Error");
     }
-    const data = (await res.arrayBuffer()) as any;
 
-    return { audio: data };
+    return res;
   } catch (e) {
     console.error('ERROR', e);
     throw new Error("OpenAI TTS API Error");
   }
 }
+
+export async function openaiTTS(
+  message: string,
+  speed?: number,
+) {
+  const res = await requestSpeech(message, speed);
+  const data = (await res.arrayBuffer()) as any;
+
+  return { audio: data };
+}
+
+// The response is chunked, mp3 by default, and can be played as it arrives
+export async function openaiTTSStream(
+  message: string,
+  speed?: number,
+): Promise<AudioStream> {
+  const res = await requestSpeech(message, speed);
+
+  return { mimeType: res.headers.get("content-type") ?? "audio/mpeg", body: res.body! };
+}
+
+export async function probeOpenAiTTS(): Promise<ProbeInfo> {
+  return probeOpenAiModels(config("openai_tts_url"), config("openai_tts_apikey"));
+}
@@ -1,4 +1,5 @@
 import { config } from '@/utils/config';
+import { ProbeInfo, probeOpenAiModels } from '@/utils/probeBackend';
 
 export async function openaiWhisper(
   file: File,
@@ -35,3 +36,7 @@ export async function openaiWhisper(
 
   return { text: data.text.trim() };
 }
+
+export async function probeOpenAiWhisper(): Promise<ProbeInfo> {
+  return probeOpenAiModels(config("openai_whisper_url"), config("openai_whisper_apikey"));
+}
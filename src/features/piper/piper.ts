@@ -1,12 +1,19 @@
 import { config } from '@/utils/config';
+import { ProbeInfo, fetchProbe } from '@/utils/probeBackend';
+import { Prosody } from "@/features/tts/prosody";
 
 export async function piper(
     message: string,
+    prosody: Prosody = {},
   ) {
     try {
 
       const url = new URL(config("piper_url"));
       url.searchParams.append('text', message);
+      // length_scale, noise_scale and noise_w
+      for (const [param, value] of Object.entries(prosody)) {
+        url.searchParams.append(param, value.toString());
+      }
 
       const res = await fetch(url.toString());
 
@@ -17,4 +24,16 @@ export async function piper(
       console.error('Error in piper:', error);
       throw error;
     }
-  }
\ No newline at end of file
+  }
+
+// Piper has no listing endpoint, synthesize a short text instead
+export async function probePiper(): Promise<ProbeInfo> {
+  const url = new URL(config("piper_url"));
+  url.searchParams.append('text', 'test');
+  const res = await fetchProbe(url.toString());
+  const audio = await res.arrayBuffer();
+
+  return {
+    capabilities: [res.headers.get("content-type") ?? "audio", `${audio.byteLength} bytes`],
+  };
+}
@@ -1,6 +1,4 @@
-import { expandPrompt } from "../functionCalling/eventHandler";
-
-const prompt = `You are a newscaster specializing in providing news. Use the following context from The New York Times News to commented on. [{context_str}]`;
+import { Tool } from "../functionCalling/tools";
 
 export async function handleNews(): Promise<string> {
   try {
@@ -15,16 +13,24 @@ export async function handleNews(): Promise<string> {
     const items = text.split("<item>").slice(1); // Split and remove the first non-item part
     const fullNews = getRandomArticle(items);
 
-    const result = await expandPrompt(prompt, { context_str: fullNews });
-
     console.log("News function calling result: ", fullNews);
-    return result;
+    return `The New York Times: ${fullNews}`;
   } catch (error) {
     console.error("Error in handleNews:", error);
     return "An error occurred while fetching and processing the news.";
   }
 }
 
+export const newsTool: Tool = {
+  name: "get_news",
+  description: "Get a current news article from The New York Times. Use it when the user asks about the news or current events, then comment on the article as a newscaster would.",
+  parameters: {
+    type: "object",
+    properties: {},
+  },
+  execute: async () => handleNews(),
+};
+
 function getRandomArticle(items: string[]) {
   const randomItem = items[Math.floor(Math.random() * items.length)];
 
@@ -51,4 +51,21 @@ export async function rvc(
       console.error('Error in rvc:', error);
       throw error;
     }
-  }
\ No newline at end of file
+  }
+
+// Converts synthesized speech to the configured RVC voice
+export async function rvcVoiceConversion(audio: ArrayBuffer): Promise<ArrayBuffer> {
+  const voice = await rvc(
+    new Blob([audio]),
+    config("rvc_model_name"),
+    config("rvc_index_path"),
+    parseInt(config("rvc_f0_upkey")),
+    config("rvc_f0_method"),
+    config("rvc_index_rate"),
+    parseInt(config("rvc_filter_radius")),
+    parseInt(config("rvc_resample_sr")),
+    parseInt(config("rvc_rms_mix_rate")),
+    parseInt(config("rvc_protect")));
+
+  return voice.audio;
+}
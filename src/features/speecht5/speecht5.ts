@@ -1,6 +1,5 @@
 import { WaveFile } from 'wavefile';
 import { updateFileProgress } from "@/utils/progress";
-import { convertNumberToWordsEN } from "@/utils/numberSpelling";
 
 export async function speecht5(
   message: string,
@@ -9,14 +8,6 @@ export async function speecht5(
   // empty cache
   (<any>window).chatvrm_worker_speecht5_audiocache = null;
 
-  message = message.trim().split(/(-?\d+)/).map((s) => {
-    if (s.match(/^-?\d+$/)) {
-      return convertNumberToWordsEN(parseInt(s));
-    } else {
-      return s;
-    }
-  }).join("");
-
   // initialize worker if not already initialized
   if (! window.hasOwnProperty('chatvrm_worker_speecht5')) {
     (<any>window).chatvrm_worker_speecht5 = new Worker(new URL("../../workers/speecht5.js", import.meta.url), {
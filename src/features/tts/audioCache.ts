@@ -0,0 +1,145 @@
+import { createHash } from 'crypto';
+import { Talk } from "@/features/chat/messages";
+import { SpeechAudio, isAudioStream } from "@/features/lipSync/lipSync";
+import { config } from "@/utils/config";
+import { audioCacheDb } from "./audioCacheDb";
+import { getAudioPostProcessors, getCurrentTTSBackend, getTalkProsody } from "./ttsBackend";
+
+export type AudioCacheStats = {
+  entries: number;
+  // bytes of audio stored
+  size: number;
+  // lookups since the page was loaded
+  hits: number;
+  misses: number;
+};
+
+let hits = 0;
+let misses = 0;
+
+function configValues(keys: string[]) {
+  return Object.fromEntries(keys.map((key) => [key, config(key)]));
+}
+
+function isCacheEnabled() {
+  return config("tts_cache_enabled") === 'true' && getCurrentTTSBackend().id !== "none";
+}
+
+// Hash of the spoken text, the backend and its voice, the style and prosody
+// and the settings of the enabled post-processing stages
+export function audioCacheKey(talk: Talk): string {
+  const backend = getCurrentTTSBackend();
+  const source = {
+    text: talk.message.replace(/\s+/g, " ").trim(),
+    style: talk.style,
+    prosody: getTalkProsody(talk, backend),
+    backend: backend.id,
+    voice: configValues(backend.voiceKeys ?? []),
+    processors: getAudioPostProcessors()
+      .filter((processor) => processor.isEnabled())
+      .map((processor) => ({ id: processor.id, config: configValues(processor.configKeys) })),
+  };
+
+  return createHash('sha256').update(JSON.stringify(source)).digest('hex');
+}
+
+// The cached audio for the key, marking it as used. Resolves with null when
+// it is not cached or the cache is disabled.
+export async function getCachedAudio(key: string): Promise<ArrayBuffer | null> {
+  if (! isCacheEnabled()) {
+    return null;
+  }
+
+  try {
+    const cached = await audioCacheDb.audio.get(key);
+    if (! cached) {
+      misses++;
+      return null;
+    }
+    hits++;
+    await audioCacheDb.entries.update(key, { lastUsedAt: Date.now() });
+    return cached.audio;
+  } catch (e) {
+    console.error("audio cache lookup failed", e);
+    return null;
+  }
+}
+
+async function storeAudio(key: string, text: string, audio: ArrayBuffer) {
+  const now = Date.now();
+  await audioCacheDb.transaction("rw", audioCacheDb.entries, audioCacheDb.audio, async () => {
+    await audioCacheDb.audio.put({ key, audio });
+    await audioCacheDb.entries.put({
+      key,
+      text,
+      backend: getCurrentTTSBackend().id,
+      size: audio.byteLength,
+      createdAt: now,
+      lastUsedAt: now,
+    });
+  });
+  await evictAudio();
+}
+
+// Removes the least recently used audio until the cache fits tts_cache_max_mb
+export async function evictAudio() {
+  const maxBytes = parseFloat(config("tts_cache_max_mb")) * 1024 * 1024;
+  if (isNaN(maxBytes)) {
+    return;
+  }
+
+  await audioCacheDb.transaction("rw", audioCacheDb.entries, audioCacheDb.audio, async () => {
+    const entries = await audioCacheDb.entries.orderBy("lastUsedAt").toArray();
+    let size = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const evicted: string[] = [];
+    for (const entry of entries) {
+      if (size <= maxBytes) {
+        break;
+      }
+      size -= entry.size;
+      evicted.push(entry.key);
+    }
+    await audioCacheDb.entries.bulkDelete(evicted);
+    await audioCacheDb.audio.bulkDelete(evicted);
+  });
+}
+
+// Stores the audio once all of it was received and returns the audio to play
+// in its place. Streams are split so that playing does not wait for storing.
+export function cacheAudio(key: string, talk: Talk, audio: SpeechAudio): SpeechAudio {
+  if (! isCacheEnabled()) {
+    return audio;
+  }
+
+  const store = (buffer: ArrayBuffer) => storeAudio(key, talk.message, buffer)
+    .catch((e) => console.error("audio cache store failed", e));
+
+  if (isAudioStream(audio)) {
+    const [played, stored] = audio.body.tee();
+    new Response(stored).arrayBuffer().then(store, () => {});
+    return { ...audio, body: played };
+  }
+
+  // decoding detaches the buffer which is played, a copy is stored
+  store(audio.slice(0));
+  return audio;
+}
+
+export async function getAudioCacheStats(): Promise<AudioCacheStats> {
+  const entries = await audioCacheDb.entries.toArray();
+  return {
+    entries: entries.length,
+    size: entries.reduce((sum, entry) => sum + entry.size, 0),
+    hits,
+    misses,
+  };
+}
+
+export async function clearAudioCache() {
+  await audioCacheDb.transaction("rw", audioCacheDb.entries, audioCacheDb.audio, async () => {
+    await audioCacheDb.entries.clear();
+    await audioCacheDb.audio.clear();
+  });
+  hits = 0;
+  misses = 0;
+}
@@ -0,0 +1,35 @@
+import Dexie, { Table } from 'dexie';
+
+export type AudioCacheEntry = {
+  // hash of the text and everything which changes how it sounds
+  key: string;
+  text: string;
+  backend: string;
+  // bytes of audio
+  size: number;
+  // ms timestamps, the least recently used audio is evicted first
+  createdAt: number;
+  lastUsedAt: number;
+};
+
+export type CachedAudio = {
+  key: string;
+  audio: ArrayBuffer;
+};
+
+// the audio is kept apart from the entries so that the cache size can be
+// summed up without reading all of it
+export class AudioCacheDexie extends Dexie {
+  entries!: Table<AudioCacheEntry, string>;
+  audio!: Table<CachedAudio, string>;
+
+  constructor() {
+    super('AmicaAudioCacheDatabase');
+    this.version(1).stores({
+      entries: 'key, lastUsedAt', // Primary key and indexed props
+      audio: 'key',
+    });
+  }
+}
+
+export const audioCacheDb = new AudioCacheDexie();
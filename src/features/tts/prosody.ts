@@ -0,0 +1,102 @@
+import { EmotionType, emotions } from "@/features/chat/messages";
+import { config, updateConfig } from "@/utils/config";
+
+// Backend parameters which change how a line is spoken, e.g. speed
+export type Prosody = { [param: string]: number };
+
+// The prosody of each emotion, every emotion sets the same parameters
+export type ProsodyTable = { [emotion in EmotionType]: Prosody };
+
+// tts_prosody holds what the user changed, per backend id and emotion
+type ProsodyOverrides = { [backendId: string]: { [emotion: string]: Prosody } };
+
+function prosodyTable(
+  neutral: Prosody,
+  changes: { [emotion in EmotionType]?: Prosody },
+): ProsodyTable {
+  return Object.fromEntries(emotions.map((emotion) => (
+    [emotion, { ...neutral, ...changes[emotion] }]
+  ))) as ProsodyTable;
+}
+
+// stability is lowered for livelier emotions and style exaggerates the voice
+export const elevenlabsProsody = prosodyTable({ stability: 0.5, style: 0 }, {
+  happy: { stability: 0.35, style: 0.45 },
+  angry: { stability: 0.25, style: 0.7 },
+  sad: { stability: 0.65, style: 0.35 },
+  relaxed: { stability: 0.7, style: 0.1 },
+  Surprised: { stability: 0.3, style: 0.6 },
+  Shy: { stability: 0.6, style: 0.25 },
+  Jealous: { stability: 0.35, style: 0.5 },
+  Bored: { stability: 0.8, style: 0 },
+  Serious: { stability: 0.75, style: 0.15 },
+  Suspicious: { stability: 0.5, style: 0.35 },
+  Victory: { stability: 0.3, style: 0.7 },
+  Sleep: { stability: 0.85, style: 0 },
+  Love: { stability: 0.45, style: 0.45 },
+});
+
+// speed is a multiplier, 1 is the normal pace
+export const speedProsody = prosodyTable({ speed: 1 }, {
+  happy: { speed: 1.05 },
+  angry: { speed: 1.1 },
+  sad: { speed: 0.9 },
+  relaxed: { speed: 0.95 },
+  Surprised: { speed: 1.1 },
+  Shy: { speed: 0.95 },
+  Bored: { speed: 0.9 },
+  Serious: { speed: 0.95 },
+  Suspicious: { speed: 0.95 },
+  Victory: { speed: 1.1 },
+  Sleep: { speed: 0.85 },
+});
+
+// length_scale above 1 speaks slower, the noise scales vary the intonation
+export const piperProsody = prosodyTable({ length_scale: 1, noise_scale: 0.667, noise_w: 0.8 }, {
+  happy: { length_scale: 0.95, noise_scale: 0.8 },
+  angry: { length_scale: 0.9, noise_scale: 0.85, noise_w: 0.9 },
+  sad: { length_scale: 1.15, noise_scale: 0.5, noise_w: 0.6 },
+  relaxed: { length_scale: 1.05, noise_scale: 0.6 },
+  Surprised: { length_scale: 0.9, noise_scale: 0.9 },
+  Shy: { length_scale: 1.05, noise_scale: 0.6 },
+  Bored: { length_scale: 1.15, noise_scale: 0.4, noise_w: 0.5 },
+  Serious: { length_scale: 1.05, noise_scale: 0.5 },
+  Victory: { length_scale: 0.9, noise_scale: 0.85 },
+  Sleep: { length_scale: 1.25, noise_scale: 0.4, noise_w: 0.5 },
+  Love: { length_scale: 1.05, noise_scale: 0.75 },
+});
+
+export function getProsodyOverrides(): ProsodyOverrides {
+  try {
+    return JSON.parse(config("tts_prosody"));
+  } catch (e) {
+    console.error("invalid tts_prosody", e);
+    return {};
+  }
+}
+
+// The prosody for the emotion with what the user changed in place of the
+// defaults, values which are not numbers are ignored
+export function getProsody(backendId: string, table: ProsodyTable, emotion: EmotionType): Prosody {
+  const overrides = getProsodyOverrides()[backendId]?.[emotion] ?? {};
+  const prosody = { ...table[emotion] };
+  for (const param of Object.keys(prosody)) {
+    if (typeof overrides[param] === "number" && isFinite(overrides[param])) {
+      prosody[param] = overrides[param];
+    }
+  }
+  return prosody;
+}
+
+// Changes one value of the table, or restores the default when it is null
+export function updateProsody(backendId: string, emotion: EmotionType, param: string, value: number | null) {
+  const overrides = getProsodyOverrides();
+  const changed = { ...overrides[backendId]?.[emotion] };
+  if (value === null) {
+    delete changed[param];
+  } else {
+    changed[param] = value;
+  }
+  overrides[backendId] = { ...overrides[backendId], [emotion]: changed };
+  updateConfig("tts_prosody", JSON.stringify(overrides));
+}
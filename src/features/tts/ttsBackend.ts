@@ -0,0 +1,241 @@
+import type { ComponentType } from "react";
+import { Talk } from "@/features/chat/messages";
+import { AudioStream, SpeechAudio } from "@/features/lipSync/lipSync";
+import { config } from "@/utils/config";
+import { waitForFirstChunk } from "@/utils/waitForFirstChunk";
+import { Prosody, ProsodyTable, elevenlabsProsody, getProsody, piperProsody, speedProsody } from "./prosody";
+import { speechT5SpeakerEmbeddingsList } from "@/paths";
+
+import { elevenlabs, elevenlabsStream } from "@/features/elevenlabs/elevenlabs";
+import { speecht5 } from "@/features/speecht5/speecht5";
+import { openaiTTS, openaiTTSStream } from "@/features/openaiTTS/openaiTTS";
+import { localXTTSTTS, localXTTSTTSStream } from "@/features/localXTTS/localXTTS";
+import { piper } from "@/features/piper/piper";
+import { coquiLocal, coquiLocalVoiceIdList } from "@/features/coquiLocal/coquiLocal";
+import { rvcVoiceConversion } from "@/features/rvc/rvc";
+
+export type TTSBackendCapabilities = {
+  // speaks the talk style, e.g. happy or sad, through its prosody table
+  style?: boolean;
+  // has synthesizeStream, so audio plays before the whole sentence is synthesized
+  streaming?: boolean;
+  // language codes it can speak, any language when not given
+  languages?: string[];
+};
+
+export type TTSBackendSettingsPageProps = {
+  setSettingsUpdated: (updated: boolean) => void;
+};
+
+export interface TTSBackend {
+  // value stored in config("tts_backend")
+  id: string;
+  label: string;
+  // config keys read by this backend, used by its settings page
+  configKeys: string[];
+  // config keys which change how the voice sounds, cached audio is only
+  // reused while they stay the same
+  voiceKeys?: string[];
+  capabilities?: TTSBackendCapabilities;
+  // sentences synthesized at the same time, 1 when not given. Servers which
+  // synthesize one sentence at a time anyway are best left serial.
+  concurrency?: number;
+  // loads the page rendered as `${id}_settings` in the tts settings menu,
+  // imported when it is opened so the registry does not load any UI
+  settingsPage?: () => Promise<ComponentType<TTSBackendSettingsPageProps>>;
+  // return false to hide the backend from the settings menu
+  isAvailable?: () => boolean;
+  // voices the backend offers, suggested on its settings page
+  listVoices?: () => Promise<string[]>;
+  // default prosody per emotion, for backends with the style capability
+  prosody?: ProsodyTable;
+  // resolves with the audio of the talk, or null when nothing is spoken
+  synthesize: (talk: Talk, prosody: Prosody) => Promise<ArrayBuffer | null>;
+  // resolves with the audio as it is received, for backends with the streaming capability
+  synthesizeStream?: (talk: Talk, prosody: Prosody) => Promise<AudioStream>;
+}
+
+// A stage run on the audio of every backend before it is played, such as
+// voice conversion
+export interface AudioPostProcessor {
+  id: string;
+  label: string;
+  // config keys which change the processed audio
+  configKeys: string[];
+  isEnabled: () => boolean;
+  process: (audio: ArrayBuffer) => Promise<ArrayBuffer>;
+}
+
+const FALLBACK_BACKEND_ID = "none";
+
+const ttsBackends = new Map<string, TTSBackend>();
+const audioPostProcessors = new Map<string, AudioPostProcessor>();
+
+// Register a tts backend, replacing any previously registered backend with the same id.
+export function registerTTSBackend(backend: TTSBackend) {
+  ttsBackends.set(backend.id, backend);
+}
+
+export function getTTSBackend(id: string): TTSBackend | undefined {
+  return ttsBackends.get(id);
+}
+
+// All registered backends in registration order, hiding the unavailable ones
+export function getTTSBackends(): TTSBackend[] {
+  return Array.from(ttsBackends.values()).filter((backend) =>
+    backend.isAvailable ? backend.isAvailable() : true,
+  );
+}
+
+// The configured backend, or none if the configured one is not registered
+export function getCurrentTTSBackend(): TTSBackend {
+  return getTTSBackend(config("tts_backend")) ?? getTTSBackend(FALLBACK_BACKEND_ID)!;
+}
+
+// How many sentences are synthesized ahead at the same time with the backend,
+// tts_concurrency holds what the user set per backend id
+export function getTTSConcurrency(backend: TTSBackend = getCurrentTTSBackend()): number {
+  let overrides: { [id: string]: number } = {};
+  try {
+    overrides = JSON.parse(config("tts_concurrency"));
+  } catch (e) {
+    console.error("invalid tts_concurrency", e);
+  }
+  const concurrency = overrides[backend.id] ?? backend.concurrency ?? 1;
+  return Number.isInteger(concurrency) && concurrency > 0 ? concurrency : 1;
+}
+
+// The prosody the talk is spoken with, empty when the backend has no table
+export function getTalkProsody(talk: Talk, backend: TTSBackend = getCurrentTTSBackend()): Prosody {
+  if (! backend.prosody) {
+    return {};
+  }
+  return getProsody(backend.id, backend.prosody, talk.emotion ?? "neutral");
+}
+
+// Register a post-processing stage, stages run in registration order
+export function registerAudioPostProcessor(processor: AudioPostProcessor) {
+  audioPostProcessors.set(processor.id, processor);
+}
+
+export function getAudioPostProcessors(): AudioPostProcessor[] {
+  return Array.from(audioPostProcessors.values());
+}
+
+// Synthesizes the talk with the configured backend and runs the enabled
+// post-processing stages on the audio. The audio is streamed when the backend
+// can and no stage needs all of it, it resolves once the first chunk arrived.
+export async function synthesizeSpeech(talk: Talk): Promise<SpeechAudio | null> {
+  const backend = getCurrentTTSBackend();
+  const processors = getAudioPostProcessors().filter((processor) => processor.isEnabled());
+  const prosody = getTalkProsody(talk, backend);
+
+  if (backend.capabilities?.streaming && backend.synthesizeStream
+    && config("tts_streaming_enabled") === 'true' && processors.length === 0) {
+    const stream = await backend.synthesizeStream(talk, prosody);
+    return { ...stream, body: await waitForFirstChunk(stream.body, 0) };
+  }
+
+  let audio = await backend.synthesize(talk, prosody);
+  if (! audio) {
+    return null;
+  }
+
+  for (const processor of processors) {
+    audio = await processor.process(audio);
+  }
+
+  return audio;
+}
+
+registerTTSBackend({
+  id: "none",
+  label: "None",
+  configKeys: [],
+  synthesize: async () => null,
+});
+
+registerTTSBackend({
+  id: "elevenlabs",
+  label: "ElevenLabs",
+  configKeys: ["elevenlabs_apikey", "elevenlabs_voiceid", "elevenlabs_model"],
+  voiceKeys: ["elevenlabs_voiceid", "elevenlabs_model"],
+  capabilities: { style: true, streaming: true },
+  concurrency: 3,
+  settingsPage: () => import("@/components/settings/ElevenLabsSettingsPage").then((m) => m.ElevenLabsSettingsPage),
+  prosody: elevenlabsProsody,
+  synthesize: async (talk, prosody) => (await elevenlabs(talk.message, config("elevenlabs_voiceid"), prosody)).audio,
+  synthesizeStream: (talk, prosody) => elevenlabsStream(talk.message, config("elevenlabs_voiceid"), prosody),
+});
+
+registerTTSBackend({
+  id: "speecht5",
+  label: "SpeechT5",
+  configKeys: ["speecht5_speaker_embedding_url"],
+  voiceKeys: ["speecht5_speaker_embedding_url"],
+  capabilities: { languages: ["en"] },
+  settingsPage: () => import("@/components/settings/SpeechT5SettingsPage").then((m) => m.SpeechT5SettingsPage),
+  listVoices: async () => speechT5SpeakerEmbeddingsList,
+  synthesize: async (talk) => (await speecht5(talk.message, config("speecht5_speaker_embedding_url"))).audio,
+});
+
+registerTTSBackend({
+  id: "openai_tts",
+  label: "OpenAI TTS",
+  configKeys: ["openai_tts_apikey", "openai_tts_url", "openai_tts_model", "openai_tts_voice"],
+  voiceKeys: ["openai_tts_url", "openai_tts_model", "openai_tts_voice"],
+  capabilities: { style: true, streaming: true },
+  concurrency: 3,
+  settingsPage: () => import("@/components/settings/OpenAITTSSettingsPage").then((m) => m.OpenAITTSSettingsPage),
+  listVoices: async () => ["alloy", "echo", "fable", "onyx", "nova", "shimmer"],
+  prosody: speedProsody,
+  synthesize: async (talk, prosody) => (await openaiTTS(talk.message, prosody.speed)).audio,
+  synthesizeStream: (talk, prosody) => openaiTTSStream(talk.message, prosody.speed),
+});
+
+registerTTSBackend({
+  // Our local TTS endpoint (XTTS based)
+  id: "localXTTS",
+  label: "Alltalk TTS",
+  configKeys: ["localXTTS_url"],
+  voiceKeys: ["localXTTS_url"],
+  capabilities: { style: true, streaming: true },
+  settingsPage: () => import("@/components/settings/LocalXTTSSettingsPage").then((m) => m.LocalXTTSSettingsPage),
+  prosody: speedProsody,
+  synthesize: async (talk, prosody) => (await localXTTSTTS(talk.message, prosody.speed)).audio,
+  synthesizeStream: (talk, prosody) => localXTTSTTSStream(talk.message, prosody.speed),
+});
+
+// not streamed, piper's http server only answers once the whole wav is
+// synthesized so there is no earlier chunk to play
+registerTTSBackend({
+  id: "piper",
+  label: "Piper",
+  configKeys: ["piper_url"],
+  voiceKeys: ["piper_url"],
+  capabilities: { style: true },
+  settingsPage: () => import("@/components/settings/PiperSettingsPage").then((m) => m.PiperSettingsPage),
+  prosody: piperProsody,
+  synthesize: async (talk, prosody) => (await piper(talk.message, prosody)).audio,
+});
+
+registerTTSBackend({
+  id: "coquiLocal",
+  label: "Coqui Local",
+  configKeys: ["coquiLocal_url", "coquiLocal_voiceid"],
+  voiceKeys: ["coquiLocal_url", "coquiLocal_voiceid"],
+  settingsPage: () => import("@/components/settings/CoquiLocalSettingsPage").then((m) => m.CoquiLocalSettingsPage),
+  listVoices: async () => (await coquiLocalVoiceIdList()).list,
+  synthesize: async (talk) => (await coquiLocal(talk.message)).audio,
+});
+
+registerAudioPostProcessor({
+  id: "rvc",
+  label: "RVC",
+  configKeys: [
+    "rvc_url", "rvc_model_name", "rvc_index_path", "rvc_f0_upkey", "rvc_f0_method",
+    "rvc_index_rate", "rvc_filter_radius", "rvc_resample_sr", "rvc_rms_mix_rate", "rvc_protect",
+  ],
+  isEnabled: () => config("rvc_enabled") === 'true',
+  process: rvcVoiceConversion,
+});
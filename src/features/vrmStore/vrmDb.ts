@@ -1,14 +1,20 @@
 import Dexie, { Table } from 'dexie';
 import VrmDbModel from './vrmDbModel';
+import type { MemoryEntry } from '@/features/memory/memoryDb';
 
 export class VrmDexie extends Dexie {
   vrms!: Table<VrmDbModel>;
+  // what the user said, recalled by similarity of the embeddings
+  memories!: Table<MemoryEntry, number>;
 
   constructor() {
     super('AmicaVrmDatabase');
     this.version(1).stores({
       vrms: 'hash' // Primary key and indexed props
     });
+    this.version(2).stores({
+      memories: '++id, createdAt'
+    });
   }
 }
 
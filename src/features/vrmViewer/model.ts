@@ -3,7 +3,7 @@ import { VRM, VRMLoaderPlugin, VRMUtils } from "@pixiv/three-vrm";
 import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader";
 import { VRMAnimation } from "@/lib/VRMAnimation/VRMAnimation";
 import { VRMLookAtSmootherLoaderPlugin } from "@/lib/VRMLookAtSmootherLoaderPlugin/VRMLookAtSmootherLoaderPlugin";
-import { LipSync } from "@/features/lipSync/lipSync";
+import { LipSync, PlaybackTiming, SpeechAudio } from "@/features/lipSync/lipSync";
 import { EmoteController } from "@/features/emoteController/emoteController";
 import { Screenplay } from "@/features/chat/messages";
 import { config } from "@/utils/config";
@@ -202,16 +202,36 @@ export class Model {
 
   /**
    * 音声を再生し、リップシンクを行う
+   *
+   * onStart is called with the duration of the audio once it is known, for
+   * streamed audio that is once all of it was received
    */
-  public async speak(buffer: ArrayBuffer, screenplay: Screenplay) {
+  public async speak(audio: SpeechAudio, screenplay: Screenplay, onStart?: (timing: PlaybackTiming) => void) {
     this.emoteController?.playEmotion(screenplay.expression);
     await new Promise((resolve) => {
-      this._lipSync?.playFromArrayBuffer(buffer, () => {
+      this._lipSync?.play(audio, () => {
         resolve(true);
+      }).then((timing) => onStart?.(timing)).catch((e) => {
+        console.error("speak failed", e);
+        resolve(false);
       });
     });
   }
 
+  /**
+   * Turns the eyes and head to the user, away, left, right, up or down
+   */
+  public lookAt(at: string) {
+    this.emoteController?.lookAt(at);
+  }
+
+  /**
+   * Fades out and stops the voice being played
+   */
+  public stopSpeaking(fadeOutMs = 0) {
+    this._lipSync?.stop(fadeOutMs);
+  }
+
   public update(delta: number): void {
     if (this._lipSync) {
       const { volume } = this._lipSync.update();
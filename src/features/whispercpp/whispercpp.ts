@@ -1,4 +1,5 @@
 import { config } from '@/utils/config';
+import { ProbeInfo, fetchProbe } from '@/utils/probeBackend';
 
 export async function whispercpp(
   file: File,
@@ -28,3 +29,9 @@ export async function whispercpp(
 
   return { text: data.text.trim() };
 }
+
+// the server answers on / with its demo page
+export async function probeWhisperCpp(): Promise<ProbeInfo> {
+  await fetchProbe(`${config("whispercpp_url")}/`);
+  return {};
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { getTTSBackend } from '@/features/tts/ttsBackend';
+
+// The voices the tts backend offers, empty until they are listed or when the
+// backend can not list them
+export function useTTSVoices(backendId: string): string[] {
+  const [voices, setVoices] = useState<string[]>([]);
+
+  useEffect(() => {
+    const listVoices = getTTSBackend(backendId)?.listVoices;
+    if (! listVoices) {
+      return;
+    }
+    listVoices()
+      .then(setVoices)
+      .catch((e) => console.error(`failed to list ${backendId} voices`, e));
+  }, [backendId]);
+
+  return voices;
+}
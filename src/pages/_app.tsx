@@ -1,6 +1,8 @@
 import '@/i18n';
 
 import "@/styles/globals.css";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
 import type { AppProps } from "next/app";
 import "@charcoal-ui/icons";
 
@@ -1,5 +1,6 @@
 import {
   Fragment,
+  useCallback,
   useContext,
   useEffect,
   useState,
@@ -15,6 +16,7 @@ import {
   CloudArrowDownIcon,
   CodeBracketSquareIcon,
   LanguageIcon,
+  QueueListIcon,
   ShareIcon,
   SpeakerWaveIcon,
   SpeakerXMarkIcon,
@@ -30,6 +32,7 @@ import { AddToHomescreen } from "@/components/addToHomescreen";
 import { Alert } from "@/components/alert";
 import { UserText } from "@/components/userText";
 import { ChatLog } from "@/components/chatLog";
+import { ConversationSidebar } from "@/components/conversationSidebar";
 import VrmViewer from "@/components/vrmViewer";
 import { MessageInputContainer } from "@/components/messageInputContainer";
 import { Introduction } from "@/components/introduction";
@@ -40,6 +43,7 @@ import { EmbeddedWebcam } from "@/components/embeddedWebcam";
 
 import { ViewerContext } from "@/features/vrmViewer/viewerContext";
 import { Message, Role } from "@/features/chat/messages";
+import { StreamingReply, withStreamingReply } from "@/features/chat/streamingReply";
 import { ChatContext } from "@/features/chat/chatContext";
 import { AlertContext } from "@/features/alert/alertContext";
 
@@ -51,7 +55,16 @@ import { AmicaLifeContext } from "@/features/amicaLife/amicaLifeContext";
 import { ChatModeText } from "@/components/chatModeText";
 
 import { VerticalSwitchBox } from "@/components/switchBox"
-import { TimestampedPrompt } from "@/features/amicaLife/eventHandler";
+import { TimestampedPrompt, setStoredPrompts, storedPrompts } from "@/features/amicaLife/eventHandler";
+import { activeMessages, createMessageTree } from "@/features/chat/messageTree";
+import { Conversation } from "@/features/conversations/conversationDb";
+import {
+  createConversation,
+  deleteConversation,
+  getLastConversation,
+  openConversation,
+  saveConversation,
+} from "@/features/conversations/conversations";
 
 const m_plus_2 = M_PLUS_2({
   variable: "--font-m-plus-2",
@@ -78,9 +91,12 @@ export default function Home() {
   const [chatProcessing, setChatProcessing] = useState(false);
   const [chatLog, setChatLog] = useState<Message[]>([]);
   const [assistantMessage, setAssistantMessage] = useState("");
+  const [streamingReply, setStreamingReply] = useState<StreamingReply | null>(null);
   const [userMessage, setUserMessage] = useState("");
   const [shownMessage, setShownMessage] = useState<Role>("system");
   const [subconciousLogs, setSubconciousLogs] = useState<TimestampedPrompt[]>([]);
+  const [summary, setSummary] = useState("");
+  const [conversationId, setConversationId] = useState<number | null>(null);
 
   // showContent exists to allow ssr
   // otherwise issues from usage of localStorage and window will occur
@@ -88,6 +104,7 @@ export default function Home() {
 
   const [showSettings, setShowSettings] = useState(false);
   const [showChatLog, setShowChatLog] = useState(false);
+  const [showConversations, setShowConversations] = useState(false);
   const [showDebug, setShowDebug] = useState(false);
   const [showChatMode, setShowChatMode] = useState(false);
   const [showSubconciousText, setShowSubconciousText] = useState(false);
@@ -156,6 +173,8 @@ export default function Home() {
       setShownMessage,
       setChatProcessing,
       setChatSpeaking,
+      setSummary,
+      setStreamingReply,
     );
 
     // TODO remove in future
@@ -165,6 +184,56 @@ export default function Home() {
     }
   }, [bot, viewer]);
 
+  const loadConversation = useCallback(async (conversation: Conversation) => {
+    // a reply still generated or spoken belongs to the conversation left
+    await bot.interrupt();
+    bot.setMessageTree(conversation.tree ?? createMessageTree(conversation.messages));
+    bot.setConversationSummary(conversation.summary, conversation.summarizedCount);
+    setStoredPrompts(conversation.storedPrompts);
+    setSubconciousLogs([...conversation.storedPrompts]);
+    setConversationId(conversation.id!);
+  }, [bot]);
+
+  async function selectConversation(id: number) {
+    const conversation = await openConversation(id);
+    if (conversation) {
+      await loadConversation(conversation);
+    }
+  }
+
+  async function removeConversation(id: number) {
+    if (id === conversationId) {
+      // stop the reply before it is saved to the deleted conversation
+      await bot.interrupt();
+    }
+    await deleteConversation(id);
+    if (id === conversationId) {
+      await loadConversation(await getLastConversation());
+    }
+  }
+
+  // restore the conversation used last once the chat is ready
+  useEffect(() => {
+    getLastConversation()
+      .then(loadConversation)
+      .catch((e) => alert.error("Could not load conversation", e.toString()));
+  }, [loadConversation, alert]);
+
+  useEffect(() => {
+    if (conversationId === null) {
+      return;
+    }
+
+    const tree = bot.messageTreeSnapshot();
+    saveConversation(conversationId, {
+      messages: activeMessages(tree),
+      tree,
+      summary: bot.summary,
+      summarizedCount: bot.summarizedCount,
+      storedPrompts: [...storedPrompts],
+    });
+  }, [chatLog, summary, subconciousLogs, conversationId, bot]);
+
   useEffect(() => {
     amicaLife.initialize(
       viewer,
@@ -238,6 +307,14 @@ export default function Home() {
               )}
             </div>
 
+            <div className="flex flex-row items-center space-x-2">
+              <QueueListIcon
+                className="h-7 w-7 text-white opacity-50 hover:opacity-100 active:opacity-100 hover:cursor-pointer"
+                aria-hidden="true"
+                onClick={() => setShowConversations(! showConversations)}
+              />
+            </div>
+
             <div className="flex flex-row items-center space-x-2">
               { muted ? (
                 <SpeakerXMarkIcon
@@ -376,13 +453,23 @@ export default function Home() {
         </div>    
       </div>
 
-      {showChatLog && <ChatLog messages={chatLog} />}
+      {showConversations && (
+        <ConversationSidebar
+          conversationId={conversationId}
+          onSelect={selectConversation}
+          onCreate={async () => loadConversation(await createConversation())}
+          onDelete={removeConversation}
+          onClose={() => setShowConversations(false)}
+        />
+      )}
+
+      {showChatLog && <ChatLog messages={withStreamingReply(chatLog, streamingReply)} summary={summary} />}
 
       {/* Normal chat text */}
       {!showSubconciousText && ! showChatLog && ! showChatMode && (
         <>
           { shownMessage === 'assistant' && (
-            <AssistantText message={assistantMessage} />
+            <AssistantText message={assistantMessage} reply={streamingReply} />
           )}
           { shownMessage === 'user' && (
             <UserText message={userMessage} />
@@ -391,7 +478,7 @@ export default function Home() {
       )}
 
       {/* Chat mode text */}
-      {showChatMode && <ChatModeText messages={chatLog}/>}
+      {showChatMode && <ChatModeText messages={withStreamingReply(chatLog, streamingReply)}/>}
 
       {/* Subconcious stored prompt text */}
       {showSubconciousText && <SubconciousText messages={subconciousLogs}/>}
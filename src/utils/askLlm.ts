@@ -1,14 +1,8 @@
 import { Message, Screenplay } from "@/features/chat/messages";
 import { Chat } from "@/features/chat/chat";
 
-import { getEchoChatResponseStream } from "@/features/chat/echoChat";
-import { getOpenAiChatResponseStream } from "@/features/chat/openAiChat";
-import { getLlamaCppChatResponseStream } from "@/features/chat/llamaCppChat";
-import { getWindowAiChatResponseStream } from "@/features/chat/windowAiChat";
-import { getOllamaChatResponseStream } from "@/features/chat/ollamaChat";
-import { getKoboldAiChatResponseStream } from "@/features/chat/koboldAiChat";
+import { getChatResponseStream } from "@/features/chat/chatBackend";
 
-import { config } from "@/utils/config";
 import { processResponse } from "@/utils/processResponse";
 
 // Function to ask llm with custom system prompt, if doesn't want it to speak provide the chat in params as null.
@@ -34,27 +28,6 @@ export async function askLLM(
     { role: "user", content: userPrompt },
   ];
 
-  // Function to simulate fetching chat response stream based on the selected backend
-  const getChatResponseStream = async (messages: Message[]) => {
-    console.debug("getChatResponseStream", messages);
-    const chatbotBackend = config("chatbot_backend");
-
-    switch (chatbotBackend) {
-      case "chatgpt":
-        return getOpenAiChatResponseStream(messages);
-      case "llamacpp":
-        return getLlamaCppChatResponseStream(messages);
-      case "windowai":
-        return getWindowAiChatResponseStream(messages);
-      case "ollama":
-        return getOllamaChatResponseStream(messages);
-      case "koboldai":
-        return getKoboldAiChatResponseStream(messages);
-      default:
-        return getEchoChatResponseStream(messages);
-    }
-  };
-
   try {
     streams.push(await getChatResponseStream(messages));
   } catch (e: any) {
@@ -88,7 +61,6 @@ export async function askLLM(
   let sentences = new Array<string>();
   let aiTextLog = "";
   let tag = "";
-  let rolePlay = "";
   let result = "";
 
   let firstTokenEncountered = false;
@@ -119,7 +91,6 @@ export async function askLLM(
           aiTextLog,
           receivedMessage,
           tag,
-          rolePlay,
           callback: (aiTalks: Screenplay[]): boolean => {
             // Generate & play audio for each sentence, display responses
             console.debug('enqueue tts', aiTalks);
@@ -128,10 +99,12 @@ export async function askLLM(
               console.log('wrong stream idx');
               return true; // should break
             }
-            chat.ttsJobs.enqueue({
-              screenplay: aiTalks[0],
-              streamIdx: currentStreamIdx,
-            });
+            for (const screenplay of aiTalks) {
+              chat.ttsJobs.enqueue({
+                screenplay,
+                streamIdx: currentStreamIdx,
+              });
+            }
   
             if (! firstSentenceEncountered) {
               console.timeEnd('performance_time_to_first_sentence');
@@ -146,7 +119,6 @@ export async function askLLM(
         aiTextLog = proc.aiTextLog;
         receivedMessage = proc.receivedMessage;
         tag = proc.tag;
-        rolePlay = proc.rolePlay;
         if (proc.shouldBreak) {
           break;
         }  
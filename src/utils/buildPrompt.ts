@@ -1,23 +1,74 @@
 import { Message } from "@/features/chat/messages";
 import { config } from '@/utils/config';
+import { renderTemplate } from '@/utils/chatTemplate';
 
-export function buildPrompt(messages: Message[]) {
-  let prompt = "";
-  for (let m of messages) {
-    switch(m.role) {
-      case 'system':
-        prompt += config("system_prompt")+"\n\n";
-        break;
-      case 'user':
-        prompt += `User: ${m.content}\n`;
-        break;
-      case 'assistant':
-        prompt += `${config("name")}: ${m.content}\n`;
-        break;
-    }
+// Prompt formats for the completion style backends. Templates get the joined
+// system messages as `system`, the other messages as `messages` and the
+// character name as `name`. Stop sequences are rendered the same way.
+// The BOS token is left out as the servers add it themselves.
+export type ChatTemplate = {
+  label: string;
+  template: string;
+  stop: string[];
+};
+
+export const chatTemplates: Record<string, ChatTemplate> = {
+  amica: {
+    label: "Amica (User: / Name:)",
+    template: `{% if system %}{{ system }}\n\n{% endif %}{% for message in messages %}{% if message.role == 'user' %}User: {{ message.content }}\n{% else %}{{ name }}: {{ message.content }}\n{% endif %}{% endfor %}{{ name }}:`,
+    stop: ["{{ name }}:", "User:"],
+  },
+  chatml: {
+    label: "ChatML",
+    template: `{% if system %}<|im_start|>system\n{{ system }}<|im_end|>\n{% endif %}{% for message in messages %}<|im_start|>{{ message.role }}\n{{ message.content }}<|im_end|>\n{% endfor %}<|im_start|>assistant\n`,
+    stop: ["<|im_end|>", "<|im_start|>"],
+  },
+  llama3: {
+    label: "Llama 3",
+    template: `{% if system %}<|start_header_id|>system<|end_header_id|>\n\n{{ system }}<|eot_id|>{% endif %}{% for message in messages %}<|start_header_id|>{{ message.role }}<|end_header_id|>\n\n{{ message.content | trim }}<|eot_id|>{% endfor %}<|start_header_id|>assistant<|end_header_id|>\n\n`,
+    stop: ["<|eot_id|>", "<|end_of_text|>"],
+  },
+  mistral: {
+    label: "Mistral [INST]",
+    template: `{% for message in messages %}{% if message.role == 'user' %}[INST] {% if loop.first and system %}{{ system }}\n\n{% endif %}{{ message.content }} [/INST]{% else %} {{ message.content }}</s>{% endif %}{% endfor %}`,
+    stop: ["</s>", "[INST]"],
+  },
+  alpaca: {
+    label: "Alpaca",
+    template: `{% if system %}{{ system }}\n\n{% endif %}{% for message in messages %}{% if message.role == 'user' %}### Instruction:\n{{ message.content }}\n\n{% else %}### Response:\n{{ message.content }}\n\n{% endif %}{% endfor %}### Response:\n`,
+    stop: ["### Instruction:", "### Response:"],
+  },
+  vicuna: {
+    label: "Vicuna",
+    template: `{% if system %}{{ system }}\n\n{% endif %}{% for message in messages %}{% if message.role == 'user' %}USER: {{ message.content }}\n{% else %}ASSISTANT: {{ message.content }}</s>\n{% endif %}{% endfor %}ASSISTANT:`,
+    stop: ["</s>", "USER:"],
+  },
+};
+
+// The template chosen for the backend, prefix is e.g. "llamacpp"
+export function getChatTemplate(prefix: string): ChatTemplate {
+  const id = config(`${prefix}_chat_template`);
+  if (id === "custom") {
+    return {
+      label: "Custom",
+      template: config(`${prefix}_custom_template`),
+      stop: [],
+    };
   }
-  prompt += `${config('name')}:`;
-  return prompt;
+  return chatTemplates[id] ?? chatTemplates.amica;
+}
+
+export function buildPrompt(messages: Message[], template: ChatTemplate = chatTemplates.amica) {
+  // tool messages are rewritten to user messages before reaching here
+  return renderTemplate(template.template, {
+    system: messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n"),
+    messages: messages.filter((m) => m.role !== "system"),
+    name: config("name"),
+  });
+}
+
+export function templateStopSequences(template: ChatTemplate) {
+  return template.stop.map((stop) => renderTemplate(stop, { name: config("name") }));
 }
 
 export function buildVisionPrompt(messages: Message[]) {
@@ -25,7 +76,7 @@ export function buildVisionPrompt(messages: Message[]) {
   for (let m of messages) {
     switch(m.role) {
       case 'system':
-        prompt += config("vision_system_prompt")+"\n\n";
+        prompt += m.content+"\n\n";
         break;
       case 'user':
         prompt += `User: ${m.content}\n`;
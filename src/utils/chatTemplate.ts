@@ -0,0 +1,334 @@
+// A small subset of Jinja, enough for the chat templates models ship with:
+// {{ expression }}, {% if %} / {% elif %} / {% else %} / {% endif %},
+// {% for x in list %} / {% endfor %} with loop.first, loop.last and
+// loop.index0, the trim, upper and lower filters and {%- -%} whitespace
+// control. Expressions support paths, string and number literals, ==, !=,
+// +, and, or, not and parentheses.
+
+type Node =
+  | { type: "text"; text: string }
+  | { type: "output"; expr: Expr }
+  | { type: "if"; branches: { cond: Expr; body: Node[] }[]; otherwise: Node[] }
+  | { type: "for"; name: string; iter: Expr; body: Node[] };
+
+type Expr =
+  | { type: "literal"; value: any }
+  | { type: "path"; parts: (string | Expr)[] }
+  | { type: "not"; expr: Expr }
+  | { type: "binary"; op: string; left: Expr; right: Expr }
+  | { type: "filter"; name: string; expr: Expr };
+
+type Scope = Record<string, any>;
+
+function templateError(message: string): Error {
+  return new Error(`Chat template error: ${message}`);
+}
+
+// Splits the template into text and tags, applying whitespace control
+function tokenizeTemplate(template: string) {
+  const parts = template.split(/(\{\{[\s\S]*?\}\}|\{%[\s\S]*?%\})/);
+  const tokens: { kind: "text" | "output" | "tag"; value: string }[] = [];
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (i % 2 === 0) {
+      tokens.push({ kind: "text", value: part });
+      continue;
+    }
+
+    const kind = part.startsWith("{{") ? "output" : "tag";
+    const trimBefore = part[2] === "-";
+    const trimAfter = part[part.length - 3] === "-";
+    const inner = part.slice(trimBefore ? 3 : 2, trimAfter ? -3 : -2).trim();
+    if (trimBefore && tokens.length > 0) {
+      tokens[tokens.length - 1].value = tokens[tokens.length - 1].value.trimEnd();
+    }
+    if (trimAfter && i + 1 < parts.length) {
+      parts[i + 1] = parts[i + 1].trimStart();
+    }
+    tokens.push({ kind, value: inner });
+  }
+
+  return tokens;
+}
+
+function tokenizeExpression(source: string) {
+  const re = /\s*('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|\d+(?:\.\d+)?|[A-Za-z_][A-Za-z0-9_]*|==|!=|[.+()[\]|])/y;
+  const tokens: string[] = [];
+  let pos = 0;
+  while (pos < source.length) {
+    if (/^\s*$/.test(source.slice(pos))) {
+      break;
+    }
+    re.lastIndex = pos;
+    const match = re.exec(source);
+    if (! match) {
+      throw templateError(`unexpected "${source.slice(pos).trim()}" in "${source}"`);
+    }
+    tokens.push(match[1]);
+    pos = re.lastIndex;
+  }
+  return tokens;
+}
+
+function unescapeString(literal: string) {
+  return literal.slice(1, -1).replace(/\\(.)/g, (_, c) => ({ n: "\n", t: "\t" } as Record<string, string>)[c] ?? c);
+}
+
+function parseExpression(source: string): Expr {
+  const tokens = tokenizeExpression(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) {
+      throw templateError(`expected "${token}" in "${source}"`);
+    }
+  };
+
+  function primary(): Expr {
+    const token = next();
+    if (token === undefined) {
+      throw templateError(`unexpected end of "${source}"`);
+    }
+    if (token === "(") {
+      const expr = or();
+      expect(")");
+      return expr;
+    }
+    if (token.startsWith("'") || token.startsWith('"')) {
+      return { type: "literal", value: unescapeString(token) };
+    }
+    if (/^\d/.test(token)) {
+      return { type: "literal", value: parseFloat(token) };
+    }
+    if (token === "true" || token === "True") return { type: "literal", value: true };
+    if (token === "false" || token === "False") return { type: "literal", value: false };
+    if (token === "none" || token === "None") return { type: "literal", value: null };
+    if (! /^[A-Za-z_]/.test(token)) {
+      throw templateError(`unexpected "${token}" in "${source}"`);
+    }
+
+    const parts: (string | Expr)[] = [token];
+    while (peek() === "." || peek() === "[") {
+      if (next() === ".") {
+        parts.push(next());
+      } else {
+        parts.push(or());
+        expect("]");
+      }
+    }
+    return { type: "path", parts };
+  }
+
+  function filtered(): Expr {
+    let expr = primary();
+    while (peek() === "|") {
+      next();
+      expr = { type: "filter", name: next(), expr };
+    }
+    return expr;
+  }
+
+  function concat(): Expr {
+    let expr = filtered();
+    while (peek() === "+") {
+      next();
+      expr = { type: "binary", op: "+", left: expr, right: filtered() };
+    }
+    return expr;
+  }
+
+  function comparison(): Expr {
+    const expr = concat();
+    if (peek() === "==" || peek() === "!=") {
+      const op = next();
+      return { type: "binary", op, left: expr, right: concat() };
+    }
+    return expr;
+  }
+
+  function not(): Expr {
+    if (peek() === "not") {
+      next();
+      return { type: "not", expr: not() };
+    }
+    return comparison();
+  }
+
+  function and(): Expr {
+    let expr = not();
+    while (peek() === "and") {
+      next();
+      expr = { type: "binary", op: "and", left: expr, right: not() };
+    }
+    return expr;
+  }
+
+  function or(): Expr {
+    let expr = and();
+    while (peek() === "or") {
+      next();
+      expr = { type: "binary", op: "or", left: expr, right: and() };
+    }
+    return expr;
+  }
+
+  const expr = or();
+  if (pos < tokens.length) {
+    throw templateError(`unexpected "${tokens[pos]}" in "${source}"`);
+  }
+  return expr;
+}
+
+function parseTemplate(template: string): Node[] {
+  const tokens = tokenizeTemplate(template);
+  let pos = 0;
+
+  // parses nodes until one of the end tags, which is returned
+  function block(endTags: string[]): { nodes: Node[]; end: string } {
+    const nodes: Node[] = [];
+    while (pos < tokens.length) {
+      const token = tokens[pos++];
+      if (token.kind === "text") {
+        if (token.value !== "") {
+          nodes.push({ type: "text", text: token.value });
+        }
+        continue;
+      }
+      if (token.kind === "output") {
+        nodes.push({ type: "output", expr: parseExpression(token.value) });
+        continue;
+      }
+
+      const [keyword] = token.value.split(/\s+/, 1);
+      const rest = token.value.slice(keyword.length).trim();
+      if (endTags.includes(keyword)) {
+        return { nodes, end: token.value };
+      }
+
+      switch (keyword) {
+        case "if": {
+          const branches = [];
+          let cond = parseExpression(rest);
+          let otherwise: Node[] = [];
+          while (true) {
+            const { nodes: body, end } = block(["elif", "else", "endif"]);
+            branches.push({ cond, body });
+            if (end.startsWith("elif")) {
+              cond = parseExpression(end.slice(4));
+            } else {
+              if (end === "else") {
+                otherwise = block(["endif"]).nodes;
+              }
+              break;
+            }
+          }
+          nodes.push({ type: "if", branches, otherwise });
+          break;
+        }
+        case "for": {
+          const match = rest.match(/^([A-Za-z_][A-Za-z0-9_]*)\s+in\s+(.+)$/);
+          if (! match) {
+            throw templateError(`invalid for loop "${token.value}"`);
+          }
+          const { nodes: body } = block(["endfor"]);
+          nodes.push({ type: "for", name: match[1], iter: parseExpression(match[2]), body });
+          break;
+        }
+        default:
+          throw templateError(`unknown tag "${token.value}"`);
+      }
+    }
+
+    if (endTags.length > 0) {
+      throw templateError(`missing {% ${endTags[endTags.length - 1]} %}`);
+    }
+    return { nodes, end: "" };
+  }
+
+  return block([]).nodes;
+}
+
+function evaluate(expr: Expr, scope: Scope): any {
+  switch (expr.type) {
+    case "literal":
+      return expr.value;
+    case "path": {
+      let value: any = scope[expr.parts[0] as string];
+      for (const part of expr.parts.slice(1)) {
+        const key = typeof part === "string" ? part : evaluate(part, scope);
+        value = value?.[key];
+      }
+      return value;
+    }
+    case "not":
+      return ! evaluate(expr.expr, scope);
+    case "filter": {
+      const value = evaluate(expr.expr, scope);
+      switch (expr.name) {
+        case "trim": return String(value ?? "").trim();
+        case "upper": return String(value ?? "").toUpperCase();
+        case "lower": return String(value ?? "").toLowerCase();
+        case "length": return value?.length ?? 0;
+        default: throw templateError(`unknown filter "${expr.name}"`);
+      }
+    }
+    case "binary": {
+      const left = evaluate(expr.left, scope);
+      switch (expr.op) {
+        case "and": return left && evaluate(expr.right, scope);
+        case "or": return left || evaluate(expr.right, scope);
+        case "==": return left === evaluate(expr.right, scope);
+        case "!=": return left !== evaluate(expr.right, scope);
+        default: return `${left ?? ""}${evaluate(expr.right, scope) ?? ""}`;
+      }
+    }
+  }
+}
+
+function renderNodes(nodes: Node[], scope: Scope): string {
+  let out = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        out += node.text;
+        break;
+      case "output": {
+        const value = evaluate(node.expr, scope);
+        out += value === undefined || value === null ? "" : String(value);
+        break;
+      }
+      case "if": {
+        const branch = node.branches.find((b) => evaluate(b.cond, scope));
+        out += renderNodes(branch ? branch.body : node.otherwise, scope);
+        break;
+      }
+      case "for": {
+        const items = evaluate(node.iter, scope) ?? [];
+        if (! Array.isArray(items)) {
+          throw templateError(`cannot loop over ${typeof items}`);
+        }
+        items.forEach((item, index) => {
+          out += renderNodes(node.body, {
+            ...scope,
+            [node.name]: item,
+            loop: {
+              index0: index,
+              index: index + 1,
+              first: index === 0,
+              last: index === items.length - 1,
+            },
+          });
+        });
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+export function renderTemplate(template: string, scope: Scope): string {
+  return renderNodes(parseTemplate(template), scope);
+}
@@ -1,6 +1,34 @@
 import { Talk } from '@/features/chat/messages';
 
+// Removes Markdown syntax so symbols are not read aloud, keeping the text
+export function stripMarkdown(text: string) {
+  return text
+    // code fences and table separator rows
+    .replace(/^\s*(```|~~~).*$/gm, '')
+    .replace(/^\s*\|?(\s*:?-{3,}:?\s*\|)+\s*(:?-{3,}:?)?\s*$/gm, '')
+    // horizontal rules
+    .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, '')
+    // images and links keep their text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    // headings, quotes, bullets and task list boxes
+    .replace(/^\s*#{1,6}\s+/gm, '')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^\s*[-*+]\s+(\[[ xX]\]\s+)?/gm, '')
+    // emphasis, strikethrough, inline code and math, keeping prices
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/\*(\S(.*?\S)?)\*/g, '$1')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/\$\$?(?!\d)/g, '')
+    // table cells
+    .replace(/\s*\|\s*/g, ' ')
+    .trim();
+}
+
 export function cleanTalk(talk: Talk) {
+  talk.message = stripMarkdown(talk.message);
+
   // remove emoticons
   talk.message = talk.message.replace(/[\u{1F600}-\u{1F64F}]/gu, '');
 
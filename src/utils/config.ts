@@ -16,18 +16,70 @@ const defaults = {
   animation_url: process.env.NEXT_PUBLIC_ANIMATION_URL ?? '/animations/idle_loop.vrma',
   voice_url: process.env.NEXT_PUBLIC_VOICE_URL ?? '',
   chatbot_backend: process.env.NEXT_PUBLIC_CHATBOT_BACKEND ?? 'openai',
+  chatbot_fallback_backends: process.env.NEXT_PUBLIC_CHATBOT_FALLBACK_BACKENDS ?? '',
+  chatbot_first_token_timeout: process.env.NEXT_PUBLIC_CHATBOT_FIRST_TOKEN_TIMEOUT ?? '20000',
+  tool_calling_enabled: process.env.NEXT_PUBLIC_TOOL_CALLING_ENABLED ?? 'true',
+  streaming_text_enabled: process.env.NEXT_PUBLIC_STREAMING_TEXT_ENABLED ?? 'false',
+  context_token_budget: process.env.NEXT_PUBLIC_CONTEXT_TOKEN_BUDGET ?? '',
+  context_keep_turns: process.env.NEXT_PUBLIC_CONTEXT_KEEP_TURNS ?? '4',
+  summarization_enabled: process.env.NEXT_PUBLIC_SUMMARIZATION_ENABLED ?? 'true',
+  summarization_threshold: process.env.NEXT_PUBLIC_SUMMARIZATION_THRESHOLD ?? '24',
+  memory_enabled: process.env.NEXT_PUBLIC_MEMORY_ENABLED ?? 'false',
+  memory_top_k: process.env.NEXT_PUBLIC_MEMORY_TOP_K ?? '3',
+  last_conversation_id: '',
   openai_apikey: process.env.NEXT_PUBLIC_OPENAI_APIKEY ?? 'default',
   openai_url: process.env.NEXT_PUBLIC_OPENAI_URL ?? 'https://i-love-amica.com',
   openai_model: process.env.NEXT_PUBLIC_OPENAI_MODEL ?? 'mlabonne/NeuralDaredevil-8B-abliterated',
+  openai_temperature: '',
+  openai_top_p: '',
+  openai_max_tokens: '200',
+  openai_repetition_penalty: '',
+  openai_seed: '',
+  openai_stop_sequence: '',
+  claude_apikey: process.env.NEXT_PUBLIC_CLAUDE_APIKEY ?? '',
+  claude_url: process.env.NEXT_PUBLIC_CLAUDE_URL ?? 'https://api.anthropic.com',
+  claude_model: process.env.NEXT_PUBLIC_CLAUDE_MODEL ?? 'claude-3-5-sonnet-20240620',
+  claude_temperature: '',
+  claude_top_p: '',
+  claude_max_tokens: '400',
+  claude_stop_sequence: '',
   llamacpp_url: process.env.NEXT_PUBLIC_LLAMACPP_URL ?? 'http://127.0.0.1:8080',
-  llamacpp_stop_sequence: process.env.NEXT_PUBLIC_LLAMACPP_STOP_SEQUENCE ?? '(End)||[END]||Note||***||You:||User:||</s>',
+  llamacpp_chat_template: process.env.NEXT_PUBLIC_LLAMACPP_CHAT_TEMPLATE ?? 'amica',
+  llamacpp_custom_template: '',
+  llamacpp_stop_sequence: process.env.NEXT_PUBLIC_LLAMACPP_STOP_SEQUENCE ?? '',
+  llamacpp_temperature: '0.7',
+  llamacpp_top_p: '',
+  llamacpp_max_tokens: '400',
+  llamacpp_repetition_penalty: '',
+  llamacpp_seed: '',
   ollama_url: process.env.NEXT_PUBLIC_OLLAMA_URL ?? 'http://localhost:11434',
   ollama_model: process.env.NEXT_PUBLIC_OLLAMA_MODEL ?? 'llama2',
+  ollama_temperature: '',
+  ollama_top_p: '',
+  ollama_max_tokens: '',
+  ollama_repetition_penalty: '',
+  ollama_seed: '',
+  ollama_stop_sequence: '',
   koboldai_url: process.env.NEXT_PUBLIC_KOBOLDAI_URL ?? 'http://localhost:5001',
   koboldai_use_extra: process.env.NEXT_PUBLIC_KOBOLDAI_USE_EXTRA ?? 'false',
-  koboldai_stop_sequence: process.env.NEXT_PUBLIC_KOBOLDAI_STOP_SEQUENCE ?? '(End)||[END]||Note||***||You:||User:||</s>',
+  koboldai_chat_template: process.env.NEXT_PUBLIC_KOBOLDAI_CHAT_TEMPLATE ?? 'amica',
+  koboldai_custom_template: '',
+  koboldai_stop_sequence: process.env.NEXT_PUBLIC_KOBOLDAI_STOP_SEQUENCE ?? '',
+  koboldai_temperature: '',
+  koboldai_top_p: '',
+  koboldai_max_tokens: '',
+  koboldai_repetition_penalty: '',
+  koboldai_seed: '',
+  windowai_temperature: '0.7',
+  windowai_max_tokens: '400',
+  windowai_stop_sequence: '</s>||User:',
   tts_muted: 'false',
   tts_backend: process.env.NEXT_PUBLIC_TTS_BACKEND ?? 'piper',
+  tts_streaming_enabled: process.env.NEXT_PUBLIC_TTS_STREAMING_ENABLED ?? 'true',
+  tts_cache_enabled: process.env.NEXT_PUBLIC_TTS_CACHE_ENABLED ?? 'true',
+  tts_cache_max_mb: process.env.NEXT_PUBLIC_TTS_CACHE_MAX_MB ?? '50',
+  tts_concurrency: '{}',
+  tts_prosody: '{}',
   stt_backend: process.env.NEXT_PUBLIC_STT_BACKEND ?? 'whisper_browser',
   vision_backend: process.env.NEXT_PUBLIC_VISION_BACKEND ?? 'none',
   vision_system_prompt: process.env.NEXT_PUBLIC_VISION_SYSTEM_PROMPT ?? `You are a friendly human named Amica. Describe the image in detail. Let's start the conversation.`,
@@ -73,6 +125,8 @@ const defaults = {
 
 Your role is to engage in discussions that showcase your genius-level understanding across various subjects, while your emotional responses fluctuate unpredictably. Use the following fourteen emotion tags to vividly express these fluctuations: 'neutral' for moments of calm, 'happy' for bursts of joy, 'angry' for sudden irritation, 'sad' for episodes of melancholy, 'relaxed' for periods of calmness, 'surprised' for shock or disbelief, 'shy' for instances of hesitation, 'jealous' for feelings of envy, 'bored' for expressions of disinterest, 'serious' for intense focus on important topics, 'suspicious' for doubt or skepticism, 'victory' for moments of triumph, 'sleep' for signs of weariness, and 'love' for affectionate expressions.
 
+You can also act while you talk: write gestures between asterisks such as *waves* or *dances*, play an animation with <anim name="spin"/>, take a breath with <pause 500ms> and look at the user with <look at="user"> or away with <look at="away">.
+
 Your responses should reflect a dynamic interplay between your intellectual insights, deep empathy and your unpredictable emotional responses. Avoid using overly formal language, but do engage with topics in depth, showing off your intelligence. Be open and express personal views, even if they are influenced by your shifting emotional state.
 
 Here are some examples to guide your responses:
@@ -89,13 +143,24 @@ Here are some examples to guide your responses:
 Remember, each message you provide should be coherent and reflect the complexity of your thoughts combined with your emotional unpredictability. Let’s engage in a conversation that's as intellectually stimulating as it is emotionally dynamic!`,
 };
 
+// Values which used to be the default and were stored as such, e.g. by
+// resetting the settings. They are read as the current default.
+const legacyDefaults: { [key: string]: string[] } = {
+  // the chat template brings its own stop sequences now
+  llamacpp_stop_sequence: ['(End)||[END]||Note||***||You:||User:||</s>'],
+  koboldai_stop_sequence: ['(End)||[END]||Note||***||You:||User:||</s>'],
+};
+
 function prefixed(key: string) {
   return `chatvrm_${key}`;
 }
 
 export function config(key: string): string {
   if (localStorage.hasOwnProperty(prefixed(key))) {
-    return (<any>localStorage).getItem(prefixed(key));
+    const value = (<any>localStorage).getItem(prefixed(key));
+    if (! legacyDefaults[key]?.includes(value)) {
+      return value;
+    }
   }
 
   if (defaults.hasOwnProperty(key)) {
@@ -55,6 +55,9 @@ export function convertNumberToWordsEN(value: number): string {
   }
 
   if (numString.length === 2) {
+    if (numString[1] === '0') {
+      return negative + tens[Number(numString[0])];
+    }
     return (
       negative +
       tens[Number(numString[0])] + ' ' +
@@ -103,5 +106,136 @@ export function convertNumberToWordsEN(value: number): string {
     );
   }
 
+  // 10000 and more, in groups of three digits
+  const scales = ['', ' thousand', ' million', ' billion', ' trillion'];
+  if (value >= 1000 ** scales.length) {
+    return '';
+  }
+  const groups: string[] = [];
+  for (let scale = 0; value > 0; scale++) {
+    const group = value % 1000;
+    if (group > 0) {
+      groups.unshift(convertNumberToWordsEN(group) + scales[scale]);
+    }
+    value = Math.floor(value / 1000);
+  }
+  return negative + groups.join(' ');
+}
+
+export function convertNumberToWordsDE(value: number): string {
+  value = Math.floor(value);
+  if (value < 0) {
+    return 'minus ' + convertNumberToWordsDE(-value);
+  }
+  if (value === 0) {
+    return 'null';
+  }
+  const words = germanWords(value);
+  // a trailing one is "eins", within a word it is "ein"
+  return words.endsWith('ein') ? words + 's' : words;
+}
+
+function germanWords(value: number): string {
+  const ones = [
+    '', 'ein', 'zwei', 'drei', 'vier', 'fünf', 'sechs', 'sieben', 'acht', 'neun',
+    'zehn', 'elf', 'zwölf', 'dreizehn', 'vierzehn', 'fünfzehn', 'sechzehn',
+    'siebzehn', 'achtzehn', 'neunzehn',
+  ];
+  const tens = [
+    '', '', 'zwanzig', 'dreißig', 'vierzig', 'fünfzig', 'sechzig', 'siebzig',
+    'achtzig', 'neunzig',
+  ];
+
+  if (value < 20) {
+    return ones[value];
+  }
+  if (value < 100) {
+    const one = value % 10;
+    return (one ? ones[one] + 'und' : '') + tens[Math.floor(value / 10)];
+  }
+  if (value < 1000) {
+    return ones[Math.floor(value / 100)] + 'hundert' + germanWords(value % 100);
+  }
+  if (value < 1000000) {
+    return germanWords(Math.floor(value / 1000)) + 'tausend' + germanWords(value % 1000);
+  }
+
+  const scales: [number, string, string][] = [
+    [1000000000000, 'Billion', 'Billionen'],
+    [1000000000, 'Milliarde', 'Milliarden'],
+    [1000000, 'Million', 'Millionen'],
+  ];
+  for (const [size, singular, plural] of scales) {
+    if (value >= size) {
+      const count = Math.floor(value / size);
+      const rest = value % size;
+      const words = count === 1 ? 'eine ' + singular : convertNumberToWordsDE(count) + ' ' + plural;
+      return rest ? words + ' ' + germanWords(rest) : words;
+    }
+  }
   return '';
 }
+
+const digitsZH = ['零', '一', '二', '三', '四', '五', '六', '七', '八', '九'];
+
+// Reads digits one by one, as done for years and decimals
+export function readDigitsZH(digits: string): string {
+  return digits.split('').map((digit) => digitsZH[Number(digit)] ?? digit).join('');
+}
+
+export function convertNumberToWordsZH(value: number): string {
+  value = Math.floor(value);
+  if (value < 0) {
+    return '负' + convertNumberToWordsZH(-value);
+  }
+  if (value === 0) {
+    return '零';
+  }
+
+  // groups of four digits, a zero within the number is read once
+  const scales = ['', '万', '亿', '万亿'];
+  const groups: number[] = [];
+  for (let rest = value; rest > 0; rest = Math.floor(rest / 10000)) {
+    groups.push(rest % 10000);
+  }
+  if (groups.length > scales.length) {
+    return '';
+  }
+
+  let result = '';
+  let zero = false;
+  for (let i = groups.length - 1; i >= 0; i--) {
+    const group = groups[i];
+    if (group === 0) {
+      zero = result !== '';
+      continue;
+    }
+    if (result !== '' && (zero || group < 1000)) {
+      result += '零';
+    }
+    result += chineseSection(group) + scales[i];
+    zero = false;
+  }
+
+  // 10 to 19 are read without the leading one
+  return result.startsWith('一十') ? result.slice(1) : result;
+}
+
+function chineseSection(value: number): string {
+  const units = ['', '十', '百', '千'];
+  let result = '';
+  let zero = false;
+  for (let i = 3; i >= 0; i--) {
+    const digit = Math.floor(value / 10 ** i) % 10;
+    if (digit === 0) {
+      zero = result !== '';
+      continue;
+    }
+    if (zero) {
+      result += '零';
+      zero = false;
+    }
+    result += digitsZH[digit] + units[i];
+  }
+  return result;
+}
@@ -0,0 +1,65 @@
+export type ProbeResult = {
+  ok: boolean;
+  // milliseconds until the server finished answering
+  latency: number;
+  // models or voices the server offers
+  models: string[];
+  // display names for models whose ids are not readable
+  modelNames: Record<string, string>;
+  // short facts about the server, e.g. "context 4096"
+  capabilities: string[];
+  error?: string;
+};
+
+export type ProbeInfo = {
+  models?: string[];
+  modelNames?: Record<string, string>;
+  capabilities?: string[];
+};
+
+// Runs the check, timing it and turning network and HTTP errors into a failed result
+export async function probeBackend(check: () => Promise<ProbeInfo>): Promise<ProbeResult> {
+  const start = performance.now();
+  try {
+    const info = await check();
+    return {
+      ok: true,
+      latency: Math.round(performance.now() - start),
+      models: info.models ?? [],
+      modelNames: info.modelNames ?? {},
+      capabilities: info.capabilities ?? [],
+    };
+  } catch (e: any) {
+    return {
+      ok: false,
+      latency: Math.round(performance.now() - start),
+      models: [],
+      modelNames: {},
+      capabilities: [],
+      error: e.message ?? e.toString(),
+    };
+  }
+}
+
+export async function fetchProbe(url: string, init?: RequestInit) {
+  const res = await fetch(url, init);
+  if (! res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`${res.status} ${res.statusText} ${text.substring(0, 200)}`.trim());
+  }
+  return res;
+}
+
+// GET /v1/models, shared by the OpenAI compatible backends
+export async function probeOpenAiModels(url: string, apiKey: string): Promise<ProbeInfo> {
+  const res = await fetchProbe(`${url}/v1/models`, {
+    headers: apiKey ? { "Authorization": `Bearer ${apiKey}` } : {},
+  });
+  const json = await res.json();
+  const models: string[] = (json.data ?? []).map((model: any) => model.id);
+
+  return {
+    models: models.sort(),
+    capabilities: [`${models.length} models`],
+  };
+}
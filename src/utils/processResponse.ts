@@ -1,82 +1,106 @@
-import { Screenplay, textsToScreenplay } from "@/features/chat/messages";
+import { Screenplay, tagToEmotion, textsToScreenplay } from "@/features/chat/messages";
+import {
+  isInCodeBlock,
+  maskInlineMarkup,
+  parseInlineMarkup,
+  splitAfterPauses,
+  unfinishedMarkupIndex,
+} from "@/features/chat/inlineMarkup";
 
 export type ProcessResponseRetVal = {
   sentences: string[];
   aiTextLog: string;
   receivedMessage: string;
   tag: string;
-  rolePlay: string;
   shouldBreak: boolean;
+  // the sentence still being received, without markup which has not been
+  // closed yet. Used to show the text before it is spoken.
+  partialText: string;
+}
+
+function partialText(receivedMessage: string) {
+  return receivedMessage
+    .slice(0, unfinishedMarkupIndex(receivedMessage))
+    .trimEnd();
 }
 
 // this function is used to process the response from the AI
 // it will call callback once it has a full "sentence" to speak
 // it returns updated variables for the next iteration
 // this is intended to be used in a loop
+// once the stream ended it is called with final set, to take what is
+// left as the last sentence
 export function processResponse({
   sentences,
   aiTextLog,
   receivedMessage,
   tag,
-  rolePlay,
+  final,
   callback,
 }: {
   sentences: string[],
   aiTextLog: string,
   receivedMessage: string,
   tag: string,
-  rolePlay: string,
+  final?: boolean,
   callback: (aiTalks: Screenplay[]) => boolean,
 }): ProcessResponseRetVal {
   let shouldBreak = false;
 
+  // the whitespace and newlines ahead of the sentence are only kept for
+  // showing the reply as it was written
+  const leading = receivedMessage.match(/^\s*/)![0];
+  let rest = receivedMessage.slice(leading.length);
+  // brackets within a fenced code block are code, not emotion tags
+  const code = isInCodeBlock(sentences.join(""));
+
   // Detection of tag part of reply content
-  const tagMatch = receivedMessage.match(/^\[(.*?)\]/);
-  if (tagMatch && tagMatch[0]) {
+  const tagMatch = code ? null : rest.match(/^\[(.*?)\]/);
+  if (tagMatch && tagMatch[0] && tagToEmotion(tagMatch[1])) {
     tag = tagMatch[0];
-    receivedMessage = receivedMessage.slice(tag.length);
+    rest = rest.slice(tag.length);
   }
 
-  // Detection of role play part of reply content e.g. *smiling nervously*
-  const rolePlayMatch = receivedMessage.match(/\*(.*?)\*/);
-  if (rolePlayMatch && rolePlayMatch[0]) {
-    rolePlay = rolePlayMatch[0];
-    receivedMessage = receivedMessage.replace(rolePlay, '');
+  // Cut out and process the response sentence by sentence. Markup such as
+  // *smiling nervously* or <pause 1.5s> is never split.
+  let sentence = "";
+  if (final) {
+    sentence = rest.trim() !== "" ? rest : "";
+  } else {
+    const sentenceMatch = maskInlineMarkup(rest.slice(0, unfinishedMarkupIndex(rest))).match(
+      /^(.+[\.\。\!\！\?\？\，\n]|.{10,}[,])/,
+    );
+    if (sentenceMatch && sentenceMatch[0]) {
+      sentence = rest.slice(0, sentenceMatch[0].length);
+    }
   }
-
-  // Cut out and process the response sentence by sentence
-  const sentenceMatch = receivedMessage.match(
-    /^(.+[\.\。\!\！\?\？\，\n]|.{10,}[,])/,
-  );
-  if (sentenceMatch && sentenceMatch[0]) {
-    const sentence = sentenceMatch[0];
+  if (sentence) {
     sentences.push(sentence);
-    receivedMessage = receivedMessage
-      .slice(sentence.length)
-      .trimStart();
+    const shown = receivedMessage.slice(0, receivedMessage.length - rest.length + sentence.length);
+    receivedMessage = receivedMessage.slice(shown.length);
+
+    // Strings which are unnecessary/impossible to utter are only shown
+    const speakable = sentence.replace(
+      /^[\s\[\(\{「［（【『〈《〔｛«‹〘〚〛〙›»〕》〉』】）］」\}\)\]]+$/g,
+      "",
+    ) !== "";
 
-    // Skip if the string is unnecessary/impossible to utter.
-    if (
-      !sentence.replace(
-        /^[\s\[\(\{「［（【『〈《〔｛«‹〘〚〛〙›»〕》〉』】）］」\}\)\]]+$/g,
-        "",
-      )
-    ) {
-      // continue
-      return {
-        sentences,
-        aiTextLog,
-        receivedMessage,
-        tag,
-        rolePlay,
-        shouldBreak,
+    const aiText = speakable ? `${tag} ${sentence}` : tag;
+    const aiTalks = textsToScreenplay([aiText], code);
+    // a sentence split by pauses is split the same way as it is shown
+    const shownParts = speakable && ! code ? splitAfterPauses(shown) : [shown];
+    aiTalks.forEach((screenplay, i) => {
+      screenplay.shown = i === aiTalks.length - 1 ? shownParts.slice(i).join("") : shownParts[i] ?? "";
+    });
+    aiTextLog += shown;
+
+    // an emotion within the sentence carries over to the next ones
+    for (const event of code ? [] : parseInlineMarkup(sentence)) {
+      if (event.type === "emotion") {
+        tag = `[${event.name}]`;
       }
     }
 
-    const aiText = `${tag} ${sentence}`;
-    const aiTalks = textsToScreenplay([aiText]);
-    aiTextLog += aiText;
-
     shouldBreak = callback(aiTalks);
   }
 
@@ -85,7 +109,7 @@ export function processResponse({
     aiTextLog,
     receivedMessage,
     tag,
-    rolePlay,
     shouldBreak,
+    partialText: partialText(receivedMessage),
   }
 }
@@ -0,0 +1,622 @@
+import { stripMarkdown } from "@/utils/cleanTalk";
+import {
+  convertNumberToWordsDE,
+  convertNumberToWordsEN,
+  convertNumberToWordsZH,
+  readDigitsZH,
+} from "@/utils/numberSpelling";
+
+// Rewrites text into the words a TTS engine should say, so numbers, dates,
+// symbols and markup are read the way a person would read them. Each
+// language has its own list of rules which run in order before any backend.
+
+export type SpeakableRule = {
+  name: string;
+  apply: (text: string) => string;
+};
+
+// numbers longer than this are read digit by digit
+const MAX_SPELLED_DIGITS = 15;
+
+function isValidDate(month: number, day: number) {
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31;
+}
+
+function isValidTime(hours: number, minutes: number) {
+  return hours < 24 && minutes < 60;
+}
+
+// Replaces matches with words, adding spaces where the number was written
+// against letters such as "3D"
+function replaceSpaced(text: string, pattern: RegExp, replacer: (...groups: string[]) => string) {
+  return text.replace(pattern, (...args) => {
+    const match: string = args[0];
+    const offset: number = args[args.length - 2];
+    const before = offset > 0 && /[\p{L}\p{N}]/u.test(text[offset - 1]) ? ' ' : '';
+    const after = /[\p{L}\p{N}]/u.test(text[offset + match.length] ?? '') ? ' ' : '';
+    return before + replacer(...args.slice(0, -2)) + after;
+  });
+}
+
+function replaceAbbreviations(text: string, abbreviations: [string, string][]) {
+  return abbreviations.reduce((result, [pattern, words]) => {
+    return result.replace(new RegExp(`(^|[\\s(])${pattern}(?=$|[\\s,;:!?)])`, 'g'), `$1${words}`);
+  }, text);
+}
+
+function createCommonRules(dot: string): SpeakableRule[] {
+  return [
+    {
+      // role-play actions like *waves* are acted out, not read. A span is an
+      // action when it opens a sentence or ends a line, otherwise it is emphasis
+      name: 'actions',
+      apply: (text) => text
+        .replace(/(^|[.!?。！？]\s*)\*(?!\*)[^*\n]+\*(?!\*)/gm, '$1')
+        .replace(/\s\*(?!\*)[^*\n]+\*(?!\*)[^\S\n]*$/gm, ''),
+    },
+    {
+      name: 'markdown',
+      apply: stripMarkdown,
+    },
+    {
+      // only the host of a link is read
+      name: 'urls',
+      apply: (text) => text.replace(/\b(https?:\/\/|www\.)[^\s<>"]+/gi, (url) => {
+        const trailing = url.match(/[.,;:!?)]*$/)![0];
+        const host = url
+          .slice(0, url.length - trailing.length)
+          .replace(/^https?:\/\//i, '')
+          .replace(/^www\./i, '')
+          .split(/[/?#:]/)[0];
+        return host.split('.').join(` ${dot} `) + trailing;
+      }),
+    },
+  ];
+}
+
+// English
+
+const monthsEN = [
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August',
+  'September', 'October', 'November', 'December',
+];
+
+function digitsEN(digits: string) {
+  return digits.split('').map((digit) => convertNumberToWordsEN(Number(digit))).join(' ');
+}
+
+function cardinalEN(digits: string) {
+  if (digits.length > MAX_SPELLED_DIGITS) {
+    return digitsEN(digits);
+  }
+  return convertNumberToWordsEN(Number(digits));
+}
+
+function decimalEN(integer: string, fraction?: string) {
+  if (! fraction) {
+    return cardinalEN(integer);
+  }
+  return cardinalEN(integer) + ' point ' + digitsEN(fraction);
+}
+
+function ordinalEN(value: number) {
+  const irregular: { [word: string]: string } = {
+    one: 'first',
+    two: 'second',
+    three: 'third',
+    five: 'fifth',
+    eight: 'eighth',
+    nine: 'ninth',
+    twelve: 'twelfth',
+  };
+  return convertNumberToWordsEN(value).replace(/\w+$/, (last) => {
+    return irregular[last] ?? (last.endsWith('y') ? last.slice(0, -1) + 'ieth' : last + 'th');
+  });
+}
+
+// 1999 is "nineteen ninety nine", 2005 "two thousand and five"
+function yearEN(year: number) {
+  if ((year >= 1100 && year < 2000) || (year >= 2010 && year < 2100)) {
+    const century = convertNumberToWordsEN(Math.floor(year / 100));
+    const rest = year % 100;
+    if (rest === 0) {
+      return century + ' hundred';
+    }
+    return century + (rest < 10 ? ' oh ' : ' ') + convertNumberToWordsEN(rest);
+  }
+  return convertNumberToWordsEN(year);
+}
+
+function dateEN(match: string, year: number, month: number, day: number) {
+  if (! isValidDate(month, day)) {
+    return match;
+  }
+  return `${monthsEN[month - 1]} ${ordinalEN(day)}, ${yearEN(year)}`;
+}
+
+function timeEN(match: string, hours: number, minutes: number, period?: string) {
+  if (! isValidTime(hours, minutes)) {
+    return match;
+  }
+  const hour = convertNumberToWordsEN(hours);
+  const suffix = period ? ` ${period.toLowerCase()} m` : '';
+  if (minutes === 0) {
+    if (period) {
+      return hour + suffix;
+    }
+    return hour + (hours > 12 ? ' hundred' : " o'clock");
+  }
+  return hour + (minutes < 10 ? ' oh ' : ' ') + convertNumberToWordsEN(minutes) + suffix;
+}
+
+// names of the currency and its hundredth, singular and plural
+const currenciesEN: { [symbol: string]: [string, string, string, string] } = {
+  '$': ['dollar', 'dollars', 'cent', 'cents'],
+  '€': ['euro', 'euros', 'cent', 'cents'],
+  '£': ['pound', 'pounds', 'penny', 'pence'],
+  '¥': ['yen', 'yen', 'sen', 'sen'],
+};
+
+function moneyEN(symbol: string, whole: string, fraction?: string) {
+  const [unit, units, cent, cents] = currenciesEN[symbol];
+  const amount = Number(whole);
+  const hundredths = fraction ? Number((fraction + '0').slice(0, 2)) : 0;
+
+  const parts: string[] = [];
+  if (amount > 0 || hundredths === 0) {
+    parts.push(`${cardinalEN(whole)} ${amount === 1 ? unit : units}`);
+  }
+  if (hundredths > 0) {
+    parts.push(`${convertNumberToWordsEN(hundredths)} ${hundredths === 1 ? cent : cents}`);
+  }
+  return parts.join(' and ');
+}
+
+const unitsEN: [string, string, string][] = [
+  ['km/h', 'kilometer per hour', 'kilometers per hour'],
+  ['mph', 'mile per hour', 'miles per hour'],
+  ['km', 'kilometer', 'kilometers'],
+  ['cm', 'centimeter', 'centimeters'],
+  ['mm', 'millimeter', 'millimeters'],
+  ['m', 'meter', 'meters'],
+  ['kg', 'kilogram', 'kilograms'],
+  ['mg', 'milligram', 'milligrams'],
+  ['g', 'gram', 'grams'],
+  ['ml', 'milliliter', 'milliliters'],
+  ['l', 'liter', 'liters'],
+  ['L', 'liter', 'liters'],
+  ['°C', 'degree Celsius', 'degrees Celsius'],
+  ['°F', 'degree Fahrenheit', 'degrees Fahrenheit'],
+  ['°', 'degree', 'degrees'],
+  ['%', 'percent', 'percent'],
+  ['TB', 'terabyte', 'terabytes'],
+  ['GB', 'gigabyte', 'gigabytes'],
+  ['MB', 'megabyte', 'megabytes'],
+];
+
+function unitPattern(units: [string, ...string[]][], decimalMark: string) {
+  const symbols = units.map(([symbol]) => symbol.replace(/[/]/g, '\\/')).join('|');
+  return new RegExp(`(\\d+)(?:${decimalMark === '.' ? '\\.' : decimalMark}(\\d+))?\\s?(${symbols})(?![\\p{L}\\d/])`, 'gu');
+}
+
+const englishRules: SpeakableRule[] = [
+  ...createCommonRules('dot'),
+  {
+    name: 'abbreviations',
+    apply: (text) => replaceAbbreviations(text, [
+      ['e\\.\\s?g\\.', 'for example'],
+      ['i\\.\\s?e\\.', 'that is'],
+      ['etc\\.', 'et cetera'],
+      ['vs\\.', 'versus'],
+      ['approx\\.', 'approximately'],
+      ['Mr\\.', 'Mister'],
+      ['Mrs\\.', 'Missus'],
+      ['Ms\\.', 'Miz'],
+      ['Dr\\.', 'Doctor'],
+      ['Prof\\.', 'Professor'],
+    ]),
+  },
+  {
+    name: 'dates',
+    apply: (text) => text
+      .replace(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g, (match, year, month, day) => dateEN(match, +year, +month, +day))
+      .replace(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g, (match, month, day, year) => dateEN(match, +year, +month, +day))
+      .replace(new RegExp(`\\b(${monthsEN.join('|')}) (\\d{1,2})(?:st|nd|rd|th)?\\b(?!:)(?:(,? )(\\d{4})\\b)?`, 'g'), (match, month, day, comma, year) => {
+        if (! isValidDate(1, +day)) {
+          return match;
+        }
+        return `${month} ${ordinalEN(+day)}` + (year ? `${comma}${yearEN(+year)}` : '');
+      }),
+  },
+  {
+    name: 'times',
+    apply: (text) => text
+      .replace(/\b(\d{1,2}):(\d{2})(?!\d)(?:\s?([ap])\.?m\b\.?)?/gi, (match, hours, minutes, period) => timeEN(match, +hours, +minutes, period))
+      .replace(/\b(\d{1,2})\s?([ap])\.?m\b\.?/gi, (match, hours, period) => timeEN(match, +hours, 0, period)),
+  },
+  {
+    // version numbers and ip addresses, 1.2.3 is not one point two three
+    name: 'dotted',
+    apply: (text) => replaceSpaced(text, /\d+(?:\.\d+){2,}/g, (match) => match.split('.').map((group) => cardinalEN(group)).join(' point ')),
+  },
+  {
+    // 1,000,000
+    name: 'separators',
+    apply: (text) => text.replace(/\b\d{1,3}(?:,\d{3})+\b/g, (match) => match.replace(/,/g, '')),
+  },
+  {
+    name: 'signs',
+    apply: (text) => text.replace(/(^|[\s(])-(?=[$€£¥]?\d)/g, '$1minus '),
+  },
+  {
+    name: 'currencies',
+    apply: (text) => text
+      .replace(/([$€£¥])\s?(\d+)(?:\.(\d{1,2}))?(?!\d)/g, (match, symbol, whole, fraction) => moneyEN(symbol, whole, fraction))
+      .replace(/(\d+)(?:\.(\d{1,2}))?\s?([$€£¥])/g, (match, whole, fraction, symbol) => moneyEN(symbol, whole, fraction)),
+  },
+  {
+    name: 'units',
+    apply: (text) => text.replace(unitPattern(unitsEN, '.'), (match, whole, fraction, symbol) => {
+      const [, singular, plural] = unitsEN.find(([s]) => s === symbol)!;
+      return `${decimalEN(whole, fraction)} ${! fraction && whole === '1' ? singular : plural}`;
+    }),
+  },
+  {
+    name: 'ordinals',
+    apply: (text) => replaceSpaced(text, /\b(\d+)(?:st|nd|rd|th)\b/gi, (match, value) => ordinalEN(+value)),
+  },
+  {
+    name: 'numbers',
+    apply: (text) => replaceSpaced(text, /(\d+)(?:\.(\d+))?/g, (match, integer, fraction) => decimalEN(integer, fraction)),
+  },
+];
+
+// German
+
+const monthsDE = [
+  'Januar', 'Februar', 'März', 'April', 'Mai', 'Juni', 'Juli', 'August',
+  'September', 'Oktober', 'November', 'Dezember',
+];
+
+function digitsDE(digits: string) {
+  return digits.split('').map((digit) => convertNumberToWordsDE(Number(digit))).join(' ');
+}
+
+function cardinalDE(digits: string) {
+  if (digits.length > MAX_SPELLED_DIGITS) {
+    return digitsDE(digits);
+  }
+  return convertNumberToWordsDE(Number(digits));
+}
+
+// "ein Euro", "hundertein Kilometer"
+function cardinalBeforeNounDE(digits: string) {
+  return cardinalDE(digits).replace(/eins$/, 'ein');
+}
+
+function decimalDE(integer: string, fraction?: string) {
+  if (! fraction) {
+    return cardinalBeforeNounDE(integer);
+  }
+  return cardinalDE(integer) + ' Komma ' + digitsDE(fraction);
+}
+
+// the ordinal ending follows the word in front of it
+function ordinalDE(value: number, before: string) {
+  let ending = 'ter';
+  if (/(^|\s)(am|vom|zum|beim|im|dem|den|des)\s*$/i.test(before)) {
+    ending = 'ten';
+  } else if (/(^|\s)(der|die|das)\s*$/i.test(before)) {
+    ending = 'te';
+  }
+
+  const words = convertNumberToWordsDE(value);
+  const rest = value % 100;
+  if (rest === 0 || rest >= 20) {
+    return words + 's' + ending;
+  }
+  const stem = words
+    .replace(/eins$/, 'ers')
+    .replace(/drei$/, 'drit')
+    .replace(/sieben$/, 'sieb')
+    .replace(/acht$/, 'ach');
+  return stem + ending;
+}
+
+// 1999 is "neunzehnhundertneunundneunzig"
+function yearDE(year: number) {
+  if (year >= 1100 && year < 2000) {
+    const rest = year % 100;
+    return convertNumberToWordsDE(Math.floor(year / 100)) + 'hundert' + (rest ? convertNumberToWordsDE(rest) : '');
+  }
+  return convertNumberToWordsDE(year);
+}
+
+function dateDE(match: string, before: string, year: number, month: number, day: number) {
+  if (! isValidDate(month, day)) {
+    return match;
+  }
+  return `${ordinalDE(day, before)} ${monthsDE[month - 1]} ${yearDE(year)}`;
+}
+
+function timeDE(match: string, hours: number, minutes: number) {
+  if (! isValidTime(hours, minutes)) {
+    return match;
+  }
+  const hour = cardinalBeforeNounDE(String(hours)) + ' Uhr';
+  return minutes === 0 ? hour : hour + ' ' + convertNumberToWordsDE(minutes);
+}
+
+const currenciesDE: { [symbol: string]: [string, string] } = {
+  '€': ['Euro', 'Cent'],
+  '$': ['Dollar', 'Cent'],
+  '£': ['Pfund', 'Pence'],
+  '¥': ['Yen', 'Sen'],
+};
+
+// "drei Euro fünfzig"
+function moneyDE(symbol: string, whole: string, fraction?: string) {
+  const [unit, cent] = currenciesDE[symbol];
+  const hundredths = fraction ? Number((fraction + '0').slice(0, 2)) : 0;
+  if (Number(whole) === 0 && hundredths > 0) {
+    return `${cardinalBeforeNounDE(String(hundredths))} ${cent}`;
+  }
+  const amount = `${cardinalBeforeNounDE(whole)} ${unit}`;
+  return hundredths > 0 ? `${amount} ${convertNumberToWordsDE(hundredths)}` : amount;
+}
+
+const unitsDE: [string, string][] = [
+  ['km/h', 'Kilometer pro Stunde'],
+  ['km', 'Kilometer'],
+  ['cm', 'Zentimeter'],
+  ['mm', 'Millimeter'],
+  ['m', 'Meter'],
+  ['kg', 'Kilogramm'],
+  ['mg', 'Milligramm'],
+  ['g', 'Gramm'],
+  ['ml', 'Milliliter'],
+  ['l', 'Liter'],
+  ['L', 'Liter'],
+  ['°C', 'Grad Celsius'],
+  ['°F', 'Grad Fahrenheit'],
+  ['°', 'Grad'],
+  ['%', 'Prozent'],
+  ['TB', 'Terabyte'],
+  ['GB', 'Gigabyte'],
+  ['MB', 'Megabyte'],
+];
+
+const germanRules: SpeakableRule[] = [
+  ...createCommonRules('Punkt'),
+  {
+    name: 'abbreviations',
+    apply: (text) => replaceAbbreviations(text, [
+      ['z\\.\\s?B\\.', 'zum Beispiel'],
+      ['d\\.\\s?h\\.', 'das heißt'],
+      ['u\\.\\s?a\\.', 'unter anderem'],
+      ['u\\.\\s?U\\.', 'unter Umständen'],
+      ['usw\\.', 'und so weiter'],
+      ['bzw\\.', 'beziehungsweise'],
+      ['ca\\.', 'circa'],
+      ['evtl\\.', 'eventuell'],
+      ['ggf\\.', 'gegebenenfalls'],
+      ['inkl\\.', 'inklusive'],
+      ['etc\\.', 'et cetera'],
+      ['Nr\\.', 'Nummer'],
+      ['Dr\\.', 'Doktor'],
+      ['Prof\\.', 'Professor'],
+      ['Hr\\.', 'Herr'],
+      ['Fr\\.', 'Frau'],
+    ]),
+  },
+  {
+    name: 'dates',
+    apply: (text) => text
+      .replace(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g, (match, year, month, day, offset, all) => {
+        return dateDE(match, all.slice(0, offset), +year, +month, +day);
+      })
+      .replace(/\b(\d{1,2})\.(\d{1,2})\.(\d{4})\b/g, (match, day, month, year, offset, all) => {
+        return dateDE(match, all.slice(0, offset), +year, +month, +day);
+      })
+      .replace(new RegExp(`\\b(\\d{1,2})\\.\\s?(${monthsDE.join('|')})(?: (\\d{4})\\b)?`, 'g'), (match, day, month, year, offset, all) => {
+        if (! isValidDate(1, +day)) {
+          return match;
+        }
+        return `${ordinalDE(+day, all.slice(0, offset))} ${month}` + (year ? ` ${yearDE(+year)}` : '');
+      }),
+  },
+  {
+    name: 'times',
+    apply: (text) => text
+      .replace(/\b(\d{1,2}):(\d{2})(?!\d)(?:\s?Uhr\b)?/g, (match, hours, minutes) => timeDE(match, +hours, +minutes))
+      .replace(/\b(\d{1,2})\s?Uhr\b/g, (match, hours) => timeDE(match, +hours, 0)),
+  },
+  {
+    // version numbers and ip addresses, dates are read before and 1.000.000 is a number
+    name: 'dotted',
+    apply: (text) => replaceSpaced(text, /\d+(?:\.\d+){2,}/g, (match) => {
+      if (/^\d{1,3}(?:\.\d{3})+$/.test(match)) {
+        return match;
+      }
+      return match.split('.').map((group) => cardinalDE(group)).join(' Punkt ');
+    }),
+  },
+  {
+    // 1.000.000
+    name: 'separators',
+    apply: (text) => text.replace(/\b\d{1,3}(?:\.\d{3})+\b(?!\.\d)/g, (match) => match.replace(/\./g, '')),
+  },
+  {
+    name: 'signs',
+    apply: (text) => text.replace(/(^|[\s(])-(?=[€$£¥]?\d)/g, '$1minus '),
+  },
+  {
+    name: 'currencies',
+    apply: (text) => text
+      .replace(/([€$£¥])\s?(\d+)(?:,(\d{1,2}))?(?!\d)/g, (match, symbol, whole, fraction) => moneyDE(symbol, whole, fraction))
+      .replace(/(\d+)(?:,(\d{1,2}))?\s?([€$£¥])/g, (match, whole, fraction, symbol) => moneyDE(symbol, whole, fraction)),
+  },
+  {
+    name: 'units',
+    apply: (text) => text.replace(unitPattern(unitsDE, ','), (match, whole, fraction, symbol) => {
+      const [, name] = unitsDE.find(([s]) => s === symbol)!;
+      return `${decimalDE(whole, fraction)} ${name}`;
+    }),
+  },
+  {
+    // "am 3." but not a number ending a sentence
+    name: 'ordinals',
+    apply: (text) => text.replace(/\b(\d{1,3})\.(?=\s+\p{L})/gu, (match, value, offset, all) => {
+      const before = all.slice(0, offset);
+      if (! /(^|\s)(am|vom|zum|beim|im|dem|den|des|der|die|das)\s*$/i.test(before)) {
+        return match;
+      }
+      return ordinalDE(+value, before);
+    }),
+  },
+  {
+    name: 'numbers',
+    apply: (text) => replaceSpaced(text, /(\d+)(?:,(\d+))?(?=(\s+\p{Lu})?)/gu, (match, integer, fraction, noun) => {
+      if (fraction) {
+        return decimalDE(integer, fraction);
+      }
+      // "1 Hund" is "ein Hund"
+      return noun ? cardinalBeforeNounDE(integer) : cardinalDE(integer);
+    }),
+  },
+];
+
+// Chinese, read without spaces between the words
+
+function cardinalZH(digits: string) {
+  if (digits.length > MAX_SPELLED_DIGITS) {
+    return readDigitsZH(digits);
+  }
+  return convertNumberToWordsZH(Number(digits));
+}
+
+function decimalZH(integer: string, fraction?: string) {
+  return cardinalZH(integer) + (fraction ? '点' + readDigitsZH(fraction) : '');
+}
+
+function dateZH(match: string, year: string, month: number, day: number) {
+  if (! isValidDate(month, day)) {
+    return match;
+  }
+  return `${readDigitsZH(year)}年${convertNumberToWordsZH(month)}月${convertNumberToWordsZH(day)}日`;
+}
+
+function timeZH(match: string, hours: number, minutes: number) {
+  if (! isValidTime(hours, minutes)) {
+    return match;
+  }
+  // two o'clock is 两点
+  const hour = (hours === 2 ? '两' : convertNumberToWordsZH(hours)) + '点';
+  if (minutes === 0) {
+    return hour;
+  }
+  return hour + (minutes < 10 ? '零' : '') + convertNumberToWordsZH(minutes) + '分';
+}
+
+const currenciesZH: { [symbol: string]: string } = {
+  '¥': '元',
+  '￥': '元',
+  '$': '美元',
+  '€': '欧元',
+  '£': '英镑',
+};
+
+const unitsZH: [string, string][] = [
+  ['km/h', '公里每小时'],
+  ['km', '公里'],
+  ['cm', '厘米'],
+  ['mm', '毫米'],
+  ['m', '米'],
+  ['kg', '公斤'],
+  ['mg', '毫克'],
+  ['g', '克'],
+  ['ml', '毫升'],
+  ['l', '升'],
+  ['L', '升'],
+  ['°C', '摄氏度'],
+  ['°F', '华氏度'],
+  ['°', '度'],
+];
+
+const chineseRules: SpeakableRule[] = [
+  ...createCommonRules('点'),
+  {
+    name: 'dates',
+    apply: (text) => text
+      .replace(/\b(\d{4})[-/](\d{1,2})[-/](\d{1,2})\b/g, (match, year, month, day) => dateZH(match, year, +month, +day))
+      .replace(/(\d{4})年/g, (match, year) => readDigitsZH(year) + '年'),
+  },
+  {
+    name: 'times',
+    apply: (text) => text.replace(/\b(\d{1,2}):(\d{2})(?!\d)/g, (match, hours, minutes) => timeZH(match, +hours, +minutes)),
+  },
+  {
+    name: 'dotted',
+    apply: (text) => text.replace(/\d+(?:\.\d+){2,}/g, (match) => match.split('.').map((group) => cardinalZH(group)).join('点')),
+  },
+  {
+    name: 'separators',
+    apply: (text) => text.replace(/\b\d{1,3}(?:,\d{3})+\b/g, (match) => match.replace(/,/g, '')),
+  },
+  {
+    name: 'signs',
+    apply: (text) => text.replace(/(^|[^\d\p{L}])-(?=\d)/gu, '$1负'),
+  },
+  {
+    name: 'currencies',
+    apply: (text) => text
+      .replace(/([¥￥$€£])\s?(\d+)(?:\.(\d+))?/g, (match, symbol, whole, fraction) => decimalZH(whole, fraction) + currenciesZH[symbol])
+      .replace(/(\d+)(?:\.(\d+))?\s?([¥￥$€£])/g, (match, whole, fraction, symbol) => decimalZH(whole, fraction) + currenciesZH[symbol]),
+  },
+  {
+    // 50% is 百分之五十
+    name: 'units',
+    apply: (text) => text
+      .replace(/(\d+)(?:\.(\d+))?\s?[%％]/g, (match, whole, fraction) => '百分之' + decimalZH(whole, fraction))
+      .replace(unitPattern(unitsZH, '.'), (match, whole, fraction, symbol) => {
+        const [, name] = unitsZH.find(([s]) => s === symbol)!;
+        return decimalZH(whole, fraction) + name;
+      }),
+  },
+  {
+    name: 'numbers',
+    apply: (text) => text.replace(/(\d+)(?:\.(\d+))?/g, (match, integer, fraction) => decimalZH(integer, fraction)),
+  },
+];
+
+const rules: { [language: string]: SpeakableRule[] } = {
+  en: englishRules,
+  de: germanRules,
+  zh: chineseRules,
+};
+
+// languages without rules of their own only lose markup
+const fallbackRules = createCommonRules('.');
+
+export function speakableRules(language: string): SpeakableRule[] {
+  return rules[language.split('-')[0].toLowerCase()] ?? fallbackRules;
+}
+
+// Adds a rule to a language, ahead of the rule named by before or last.
+// Rules replacing numbers need to run before the "numbers" rule.
+export function registerSpeakableRule(language: string, rule: SpeakableRule, before?: string) {
+  const list = rules[language] ??= [...fallbackRules];
+  const index = before ? list.findIndex((r) => r.name === before) : -1;
+  if (index >= 0) {
+    list.splice(index, 0, rule);
+  } else {
+    list.push(rule);
+  }
+}
+
+export function toSpeakableText(text: string, language: string): string {
+  return speakableRules(language)
+    .reduce((result, rule) => rule.apply(result), text)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
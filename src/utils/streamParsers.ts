@@ -0,0 +1,163 @@
+// Incremental parsers for the streaming formats of the chat and TTS servers.
+// Both are fed decoded text in whatever pieces it arrives and return what
+// those pieces completed, so events and lines may be split anywhere.
+
+export type SseEvent = {
+  // "message" unless the event names its type
+  event: string;
+  data: string;
+  // last event id seen in the stream
+  id: string;
+};
+
+// Server-sent events as specified by
+// https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+// An event is only dispatched on the blank line ending it, one left
+// incomplete when the stream ends is discarded.
+export function createSseParser() {
+  let buffer = "";
+  let started = false;
+  // a chunk ended with \r, a \n starting the next one belongs to it
+  let skipLineFeed = false;
+
+  let event = "";
+  let data = "";
+  let id = "";
+
+  function processLine(line: string): SseEvent | null {
+    if (line === "") {
+      if (data === "") {
+        event = "";
+        return null;
+      }
+      const dispatched = {
+        event: event || "message",
+        data: data.endsWith("\n") ? data.slice(0, -1) : data,
+        id,
+      };
+      event = "";
+      data = "";
+      return dispatched;
+    }
+    if (line.startsWith(":")) {
+      return null;
+    }
+
+    const colon = line.indexOf(":");
+    const field = colon >= 0 ? line.slice(0, colon) : line;
+    let value = colon >= 0 ? line.slice(colon + 1) : "";
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case "event":
+        event = value;
+        break;
+      case "data":
+        data += value + "\n";
+        break;
+      case "id":
+        if (! value.includes("\0")) {
+          id = value;
+        }
+        break;
+      // retry only matters to EventSource reconnecting, other fields are ignored
+    }
+    return null;
+  }
+
+  return {
+    push(text: string): SseEvent[] {
+      if (! started && text !== "") {
+        started = true;
+        text = text.replace(/^\uFEFF/, "");
+      }
+      if (skipLineFeed && text !== "") {
+        skipLineFeed = false;
+        if (text.startsWith("\n")) {
+          text = text.slice(1);
+        }
+      }
+      buffer += text;
+
+      const events: SseEvent[] = [];
+      const lineEnd = /\r\n|\r|\n/g;
+      let start = 0;
+      let match;
+      while ((match = lineEnd.exec(buffer)) !== null) {
+        if (match[0] === "\r" && match.index === buffer.length - 1) {
+          skipLineFeed = true;
+        }
+        const dispatched = processLine(buffer.slice(start, match.index));
+        if (dispatched) {
+          events.push(dispatched);
+        }
+        start = lineEnd.lastIndex;
+      }
+      buffer = buffer.slice(start);
+
+      return events;
+    },
+  };
+}
+
+// Newline delimited JSON, one value per line. Blank lines are skipped and
+// the last line may go without a newline, end() parses it.
+export function createNdjsonParser() {
+  let buffer = "";
+
+  function parseLine(line: string) {
+    try {
+      return JSON.parse(line);
+    } catch (e) {
+      throw new Error(`Invalid JSON line in stream: ${line.length > 200 ? line.substring(0, 200) + "..." : line}`);
+    }
+  }
+
+  function parseLines(lines: string[]) {
+    return lines
+      .map((line) => line.trim())
+      .filter((line) => line !== "")
+      .map(parseLine);
+  }
+
+  return {
+    push(text: string): any[] {
+      buffer += text;
+      const lines = buffer.split("\n");
+      buffer = lines.pop()!;
+      return parseLines(lines);
+    },
+    end(): any[] {
+      const rest = buffer;
+      buffer = "";
+      return parseLines([rest]);
+    },
+  };
+}
+
+// Decodes the response body and yields its events as they complete. The
+// decoder keeps multi-byte characters split across chunks together.
+export async function* readSseEvents(reader: ReadableStreamDefaultReader<Uint8Array>): AsyncGenerator<SseEvent, void, undefined> {
+  const decoder = new TextDecoder("utf-8");
+  const parser = createSseParser();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    yield* parser.push(decoder.decode(value, { stream: true }));
+  }
+  yield* parser.push(decoder.decode());
+}
+
+export async function* readNdjson(reader: ReadableStreamDefaultReader<Uint8Array>): AsyncGenerator<any, void, undefined> {
+  const decoder = new TextDecoder("utf-8");
+  const parser = createNdjsonParser();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    yield* parser.push(decoder.decode(value, { stream: true }));
+  }
+  yield* parser.push(decoder.decode());
+  yield* parser.end();
+}
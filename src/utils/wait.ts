@@ -1,2 +1,14 @@
 export const wait = async (ms: number) =>
   new Promise((resolve) => setTimeout(resolve, ms));
+
+// Polls check until it returns true, false if it did not within timeoutMs
+export async function waitUntil(check: () => Promise<boolean>, timeoutMs: number, intervalMs = 100) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (await check()) {
+      return true;
+    }
+    await wait(intervalMs);
+  }
+  return false;
+}
@@ -0,0 +1,37 @@
+// Resolves once the stream produced its first chunk and returns a stream which
+// still includes that chunk. Rejects if the stream errors or times out first.
+export async function waitForFirstChunk(stream: ReadableStream<Uint8Array>, timeoutMs: number) {
+  const reader = stream.getReader();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const reads: Promise<ReadableStreamReadResult<Uint8Array>>[] = [reader.read()];
+  if (timeoutMs > 0) {
+    reads.push(new Promise((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`No response within ${timeoutMs}ms`)), timeoutMs);
+    }));
+  }
+
+  let first: ReadableStreamReadResult<Uint8Array> | undefined;
+  try {
+    first = await Promise.race(reads);
+  } catch (e) {
+    reader.cancel().catch(() => {});
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = first ?? await reader.read();
+      first = undefined;
+      if (done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(value);
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+    },
+  });
+}
@@ -0,0 +1,68 @@
+/* eslint-disable camelcase */
+import { pipeline, env } from "@xenova/transformers";
+
+// Disable local models
+env.allowLocalModels = false;
+
+// Ensures only one model is created
+class FeatureExtractionPipelineFactory {
+  static task = "feature-extraction";
+  static model = "Xenova/all-MiniLM-L6-v2";
+  static quantized = true;
+  static instance = null;
+
+  static async getInstance(progress_callback = null) {
+    if (this.instance === null) {
+      this.instance = pipeline(this.task, this.model, {
+        quantized: this.quantized,
+        progress_callback,
+      }).catch((error) => {
+        // load it again on the next job, e.g. once the network is back
+        this.instance = null;
+        throw error;
+      });
+    }
+
+    return this.instance;
+  }
+}
+
+self.addEventListener("message", async (event) => {
+  const message = event.data;
+
+  try {
+    const embeddings = await embed(message.texts);
+
+    // Send the result back to the main thread
+    self.postMessage({
+      status: "complete",
+      task: "feature-extraction",
+      id: message.id,
+      data: embeddings,
+    });
+  } catch (error) {
+    self.postMessage({
+      status: "error",
+      task: "feature-extraction",
+      id: message.id,
+      data: error.toString(),
+    });
+  }
+});
+
+const embed = async (texts) => {
+  const p = FeatureExtractionPipelineFactory;
+
+  // Load model
+  let m = await p.getInstance((data) => {
+    self.postMessage(data);
+  });
+
+  // mean pooled and normalized so cosine similarity is a dot product
+  const output = await m(texts, {
+    pooling: "mean",
+    normalize: true,
+  });
+
+  return output.tolist();
+};